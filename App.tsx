@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Menu, X } from 'lucide-react';
 import LiveInterview from './components/LiveInterview';
 import ResumeAnalyzer from './components/ResumeAnalyzer';
@@ -16,16 +16,37 @@ import CalendarView from './components/CalendarView';
 import Settings from './components/Settings';
 import ResetPassword from "./components/ResetPassword";
 import ChatBot from './components/ChatBot';
-
-import { AppView, ResumeAnalysis, ActivityLog, UserRole, Job, Application, SavedResume } from './types';
+import SyncConflicts from './components/SyncConflicts';
+import ActivityHistory from './components/ActivityHistory';
+import ResumeHistory from './components/ResumeHistory';
+import ResumeBuilder from './components/ResumeBuilder';
+
+import { AppView, ResumeAnalysis, ParsedResume, ActivityLog, ActivityKind, ActivityMetadata, UserRole, Job, Application, SavedResume, ResumeDraft } from './types';
+import { ACTIVITY_KINDS } from './lib/activity';
+import { defaultResume } from './lib/resumeVersions';
+import { resumeFileName } from './lib/resumeExport';
+import { Route, parseRoute, routeHash, canOpen, homeRoute } from './lib/routes';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from './lib/supabaseClient';
+import { setPrivacyMode } from './services/ai/redaction';
+import { applyChange, getRepositories, isOwnApplication, nextVersion, onRepositoryError, reportRepositoryError, RepositoryError, REPOSITORY_ERROR_TITLES, SyncConflict, SyncStatus } from './services/data';
 import { v4 as uuidv4 } from 'uuid';
 
+// The dashboard's feed; the Activity view pages through the rest
+const RECENT_ACTIVITY_COUNT = 20;
+
+// A version scored from a draft: its exported PDF is the file and its content the details
+const draftAnalysis = (analysis: ResumeAnalysis, draft: ResumeDraft, pdf: Blob): ResumeAnalysis => ({
+  ...analysis,
+  file: { name: resumeFileName(draft, 'pdf'), type: 'application/pdf', size: pdf.size },
+  parsed: { ...draft.content, reviewedAt: new Date().toISOString() }
+});
+
 function App() {
-  const [user, setUser] = useState<{name: string, email: string, role: UserRole, id: string, phone?: string, address?: string} | null>(null);
+  const [user, setUser] = useState<{name: string, email: string, role: UserRole, id: string, phone?: string, address?: string, orgId?: string} | null>(null);
   const [viewState, setViewState] = useState<'landing' | 'auth_login' | 'auth_signup' | 'auth_reset' | 'app'>('landing');
-  const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
+  // Where the user is, kept in the URL hash so reloads, the back button and shared links work
+  const [route, setRoute] = useState<Route | null>(() => parseRoute(window.location.hash));
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   
   // Global State for Shared Data
@@ -33,15 +54,65 @@ function App() {
   const [savedResumes, setSavedResumes] = useState<SavedResume[]>([]);
   const [activities, setActivities] = useState<ActivityLog[]>([]);
   
-  // Shared Job/Recruitment State
-  const [jobs, setJobs] = useState<Job[]>([]);
+  // Shared Job/Recruitment State. Posted jobs come from employers; tailored jobs are
+  // AI-generated for this candidate and never shared.
+  const [postedJobs, setPostedJobs] = useState<Job[]>([]);
+  const [tailoredJobs, setTailoredJobs] = useState<Job[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
-  // Track ownership of applications to prevent employers from overwriting candidate ownership
-  const [applicationOwners, setApplicationOwners] = useState<Record<string, string>>({});
+
+  // Every job the user can see, posted first, for views that look jobs up by id
+  const jobs = useMemo(() => {
+    const postedIds = new Set(postedJobs.map(j => j.id));
+    return [...postedJobs, ...tailoredJobs.filter(j => !postedIds.has(j.id))];
+  }, [postedJobs, tailoredJobs]);
+
+  // Latest storage failure that didn't block the user (e.g. a cloud save that failed)
+  const [storageError, setStorageError] = useState<RepositoryError | null>(null);
+  // Offline outbox and edits that clashed with someone else's (null without a remote store)
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   // Navigation Intents
   const [postJobIntent, setPostJobIntent] = useState(false);
 
+  // Views the user's role can't open (or no route at all) show their dashboard
+  const currentView = user && route && canOpen(route.view, user.role) ? route.view : homeRoute(user?.role ?? 'candidate').view;
+
+  // replace is for redirects, which shouldn't leave an entry to go back to
+  const navigate = (next: Route, replace = false) => {
+    const hash = routeHash(next);
+    if (replace) {
+      window.history.replaceState(null, '', hash);
+    } else if (window.location.hash !== hash) {
+      window.location.hash = hash;
+    }
+    setRoute(next);
+  };
+
+  const setCurrentView = (view: AppView) => navigate({ view });
+
+  // The builder edits the version in its link, else the one open in the analyzer
+  const builderResume = (route?.view === AppView.RESUME_BUILDER && route.id ? savedResumes.find(r => r.id === route.id) : undefined)
+    ?? savedResumes.find(r => r.data === resumeAnalysis)
+    ?? defaultResume(savedResumes);
+
+  // Job-tailored variants start from the candidate's own version open in the analyzer
+  const tailoringBase = savedResumes.find(r => r.data === resumeAnalysis && !r.jobId) ?? defaultResume(savedResumes);
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Role guard: candidates can't open employer views and vice versa
+  useEffect(() => {
+    if (viewState !== 'app' || !user) return;
+    if (!route || !canOpen(route.view, user.role)) {
+      navigate(homeRoute(user.role), true);
+    }
+  }, [viewState, user?.role, route?.view]);
+
   // Initialize Auth Listener & Session Restoration
   useEffect(() => {
     const isRecovery = typeof window !== 'undefined' && window.location.hash && window.location.hash.includes('type=recovery');
@@ -61,7 +132,8 @@ function App() {
             role: (session.user.user_metadata.role as UserRole) || 'candidate',
             id: session.user.id,
             phone: session.user.user_metadata.phone,
-            address: session.user.user_metadata.address
+            address: session.user.user_metadata.address,
+            orgId: session.user.user_metadata.org_id
         });
         setViewState(prev => prev === 'auth_reset' ? 'auth_reset' : 'app');
       }
@@ -99,7 +171,8 @@ function App() {
                 role: userRole,
                 id: session.user.id,
                 phone: session.user.user_metadata.phone,
-                address: session.user.user_metadata.address
+                address: session.user.user_metadata.address,
+                orgId: session.user.user_metadata.org_id
              });
              setViewState('app');
          }
@@ -116,160 +189,93 @@ function App() {
 
   // Fetch Data from DB/LocalStorage when User Logs In
   useEffect(() => {
-    const loadUserData = async () => {
-      if (!user?.id) return;
-
-      try {
-        // 1. FETCH RESUMES
-        let loadedResumes: SavedResume[] = [];
-        
-        // Try DB
-        const { data: resumesData } = await supabase
-          .from('resumes')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false });
-        
-        if (resumesData && resumesData.length > 0) {
-           loadedResumes = resumesData
-             .map((row: any) => ({
-               id: row.id,
-               created_at: row.created_at,
-               data: row.data
-             }))
-             .filter((r: SavedResume) => r.data && r.data.score !== undefined); // Filter out corrupt data
-        } else {
-           // Fallback to LocalStorage
-           const localResumes = localStorage.getItem(`carrerx_resumes_${user.id}`);
-           if (localResumes) {
-             const parsed = JSON.parse(localResumes);
-             if (Array.isArray(parsed)) {
-               loadedResumes = parsed.filter((r: any) => r && r.data && r.data.score !== undefined);
-             }
-           }
-        }
-        
-        setSavedResumes(loadedResumes);
-        if (!resumeAnalysis && loadedResumes.length > 0) {
-             setResumeAnalysis(loadedResumes[0].data);
-        }
-
-        // 2. FETCH APPLICATIONS
-        let loadedApps: Application[] = [];
-
-        // STRATEGY: Use a "Global" LocalStorage key as the Source of Truth for the Demo environment.
-        // This allows Candidates and Employers to share data on the same browser without complex DB permissions.
-        const globalAppsStr = localStorage.getItem('carrerx_global_applications');
-        let globalApps: Application[] = globalAppsStr ? JSON.parse(globalAppsStr) : [];
-
-        // If global is empty but we have local candidate data, migrate it up (self-healing)
-        if (globalApps.length === 0 && user.role === 'candidate') {
-           const localLegacyApps = localStorage.getItem(`carrerx_apps_${user.id}`);
-           if (localLegacyApps) {
-               globalApps = JSON.parse(localLegacyApps);
-               localStorage.setItem('carrerx_global_applications', JSON.stringify(globalApps));
-           }
-        }
-
-        // Also attempt DB fetch to see if we have fresher data there
-        let dbApps: Application[] = [];
-        let query = supabase.from('applications').select('user_id, data');
-        if (user.role === 'candidate') {
-          query = query.eq('user_id', user.id);
-        }
-        const { data: appsData } = await query;
-        if (appsData && appsData.length > 0) {
-           dbApps = appsData.map((row: any) => row.data).filter((a: any) => a);
-           // Merge DB apps into globalApps if missing
-           dbApps.forEach(dbApp => {
-               if (!globalApps.find(g => g.id === dbApp.id)) {
-                   globalApps.push(dbApp);
-               }
-           });
-        }
-
-        // Filter: Employers see ALL. Candidates see ONLY THEIRS.
-        if (user.role === 'employer') {
-            loadedApps = globalApps;
-        } else {
-            loadedApps = globalApps.filter(app => app.candidateEmail === user.email);
-        }
-        
-        // Sort by timestamp descending
-        loadedApps.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-        setApplications(loadedApps);
+    if (!user?.id) return;
+    const repositories = getRepositories();
+
+    // Each collection loads independently so one failure doesn't hide the rest
+    repositories.resumes.list(user.id).then(loadedResumes => {
+      setSavedResumes(loadedResumes);
+      if (!resumeAnalysis && loadedResumes.length > 0) {
+        setResumeAnalysis(defaultResume(loadedResumes).data);
+      }
+    }).catch(reportRepositoryError);
 
-        // 3. FETCH JOBS
-        // Strategy: Load "Global Posted Jobs" (Employer created) AND "Local User Jobs" (AI generated for candidate)
-        const globalJobsStr = localStorage.getItem('carrerx_global_jobs');
-        const globalJobs: Job[] = globalJobsStr ? JSON.parse(globalJobsStr) : [];
+    // Employers see all applications, candidates only theirs
+    repositories.applications.listFor(user).then(setApplications).catch(reportRepositoryError);
 
-        const localJobsStr = localStorage.getItem(`carrerx_jobs_${user.id}`);
-        const localJobs: Job[] = localJobsStr ? JSON.parse(localJobsStr) : [];
+    // Employers get the jobs they manage, candidates every published job
+    repositories.jobs.listPosted(user).then(setPostedJobs).catch(reportRepositoryError);
+    if (user.role === 'candidate') {
+      repositories.jobs.listTailored(user.id).then(setTailoredJobs).catch(reportRepositoryError);
+    }
 
-        // Merge logic: Start with Global Jobs, add Local Jobs if not already present
-        const mergedJobs = [...globalJobs];
-        const globalIds = new Set(globalJobs.map(j => j.id));
-        
-        localJobs.forEach(j => {
-            if (!globalIds.has(j.id)) {
-                mergedJobs.push(j);
-            }
-        });
-        
-        setJobs(mergedJobs);
+    repositories.activities.list(user.id, { limit: RECENT_ACTIVITY_COUNT }).then(page => setActivities(page.items)).catch(reportRepositoryError);
+  }, [user?.id, user?.role, user?.orgId]); // Re-run if role changes
 
-      } catch (e) {
-        console.error("Error loading user data:", e);
-      }
+  // Live updates from other users, e.g. an employer moving a candidate to Interview or
+  // a new applicant showing up in the employer's list
+  useEffect(() => {
+    if (!user?.id) return;
+    const repositories = getRepositories();
+    const unsubscribeApplications = repositories.applications.subscribe(user, change => setApplications(prev => applyChange(prev, change)));
+    const unsubscribeJobs = repositories.jobs.subscribePosted(user, change => setPostedJobs(prev => applyChange(prev, change)));
+    return () => {
+      unsubscribeApplications();
+      unsubscribeJobs();
     };
+  }, [user?.id, user?.role, user?.email, user?.orgId]);
 
-    if (user?.id) {
-        loadUserData();
-    }
-  }, [user?.id, user?.role]); // Re-run if role changes
+  // A link to a saved resume opens it in the analyzer once the resumes have loaded
+  const linkedResumeId = route?.view === AppView.RESUME ? route.id : undefined;
+  useEffect(() => {
+    const resume = linkedResumeId ? savedResumes.find(r => r.id === linkedResumeId) : undefined;
+    if (!resume?.data || resume.data === resumeAnalysis) return;
+    // Matches were generated for the previous resume
+    if (resumeAnalysis) setTailoredJobs([]);
+    setResumeAnalysis(resume.data);
+  }, [linkedResumeId, savedResumes]);
 
+  useEffect(() => onRepositoryError(setStorageError), []);
 
-  // Persistence Effects (Save to LocalStorage on Change as Backup)
   useEffect(() => {
-     if (user?.id && jobs.length > 0) {
-       // We save the CURRENT view of jobs to the user's local storage. 
-       // This effectively caches the global jobs for them too, which is fine for this architecture.
-       localStorage.setItem(`carrerx_jobs_${user.id}`, JSON.stringify(jobs));
-     }
-  }, [jobs, user?.id]);
+    const sync = getRepositories().sync;
+    if (!sync) return;
+    setSyncStatus(sync.getStatus());
+    return sync.subscribe(setSyncStatus);
+  }, []);
 
+  // Apply the user's privacy mode preference (stored in auth metadata, edited in Settings)
   useEffect(() => {
-    if (user?.id && savedResumes.length > 0) {
-      localStorage.setItem(`carrerx_resumes_${user.id}`, JSON.stringify(savedResumes));
+    if (!user?.id) {
+      setPrivacyMode(false);
+      return;
     }
-  }, [savedResumes, user?.id]);
-  
-  // Note: We handle application persistence manually in the handlers to ensure Global Sync
+    supabase.auth.getUser().then(({ data }) => {
+      setPrivacyMode(data.user?.user_metadata?.privacy_mode === true, [user.name]);
+    });
+  }, [user?.id, user?.name]);
 
 
   // Handlers
   const handleLogin = (u: {name: string, email: string, role: UserRole, id: string, phone?: string, address?: string}) => {
+    // A deep link opened before signing in is kept; the role guard handles the rest
     setUser(u);
     setViewState('app');
-    if (u.role === 'employer') {
-        setCurrentView(AppView.EMPLOYER_DASHBOARD);
-    } else {
-        setCurrentView(AppView.DASHBOARD);
-    }
   };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
     setUser(null);
     setViewState('landing');
-    setCurrentView(AppView.DASHBOARD);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setRoute(null);
     setResumeAnalysis(null);
     setSavedResumes([]);
     setActivities([]);
     setApplications([]);
-    setJobs([]);
-    setApplicationOwners({});
+    setPostedJobs([]);
+    setTailoredJobs([]);
+    setStorageError(null);
   };
 
   const handleUpdateProfile = (name: string) => {
@@ -278,91 +284,150 @@ function App() {
     }
   };
 
-  const addActivity = (title: string, meta: string) => {
+  const addActivity = (kind: ActivityKind, meta: string, metadata: ActivityMetadata = {}) => {
     const newActivity: ActivityLog = {
-      id: Date.now().toString(),
-      type: title.toLowerCase().includes('resume') ? 'resume' : 
-            title.toLowerCase().includes('interview') ? 'interview' : 
-            title.toLowerCase().includes('job') ? 'job_match' : 
-            title.toLowerCase().includes('skill') ? 'skills' : 'cover_letter',
-      title,
+      id: uuidv4(),
+      kind,
+      title: ACTIVITY_KINDS[kind].title,
       meta,
+      metadata,
       timestamp: new Date()
     };
-    setActivities(prev => [newActivity, ...prev].slice(0, 20));
+    setActivities(prev => [newActivity, ...prev].slice(0, RECENT_ACTIVITY_COUNT));
+    if (user?.id) {
+      getRepositories().activities.add(user.id, newActivity).catch(reportRepositoryError);
+    }
+  };
+
+  // Stores the upload once, with the analysis keeping a reference to it, and saves the
+  // analysis as a new version
+  const saveResumeVersion = async (userId: string, entry: Pick<SavedResume, 'id' | 'data' | 'draft' | 'jobId' | 'label'>, upload?: Blob) => {
+    let analysis = entry.data;
+    if (upload && analysis.file) {
+      try {
+        const file = await getRepositories().files.saveResume(userId, upload, analysis.file.name);
+        analysis = { ...analysis, file };
+      } catch (error) {
+        reportRepositoryError(error);
+      }
+    }
+
+    const newEntry: SavedResume = {
+      ...entry,
+      created_at: new Date().toISOString(),
+      data: analysis,
+      promptVersion: analysis.promptVersion
+    };
+
+    // Optimistic update
+    setSavedResumes(prev => [newEntry, ...prev]);
+    getRepositories().resumes.add(userId, newEntry).catch(reportRepositoryError);
+    return newEntry;
   };
 
-  const handleResumeAnalysisComplete = async (result: ResumeAnalysis) => {
+  // upload is the file that was analyzed, when it's a new one. draft is set for versions
+  // scored from the builder, which keep editing the new version.
+  const handleResumeAnalysisComplete = async (result: ResumeAnalysis, upload?: Blob, draft?: ResumeDraft) => {
     setResumeAnalysis(result);
-    setJobs([]); // Clear previous jobs so they can be regenerated for the new resume
-    addActivity("Resume Analysis", `Scored ${result.score}/100`);
+    setTailoredJobs([]); // Clear previous matches so they can be regenerated for the new resume
+    const newId = uuidv4();
+    addActivity('resume_analyzed', `Scored ${result.score}/100`, { resumeId: newId, score: result.score });
     
     // Save Resume
     if (user?.id) {
-         const newId = uuidv4();
-         const newEntry: SavedResume = {
-           id: newId,
-           created_at: new Date().toISOString(),
-           data: result
-         };
-
-         // Optimistic update (triggers LocalStorage save via useEffect)
-         setSavedResumes(prev => [newEntry, ...prev]);
-
-         // DB Insert (Fire and forget, with logging)
-         supabase.from('resumes').insert({
-            id: newId,
-            user_id: user.id,
-            data: result,
-            created_at: newEntry.created_at
-         }).then(({ error }) => {
-            if (error) console.warn("DB Save Error (Resume):", error.message);
-         });
+      const saved = await saveResumeVersion(user.id, { id: newId, data: result, draft }, upload);
+      setResumeAnalysis(saved.data);
+      navigate({ view: draft ? AppView.RESUME_BUILDER : AppView.RESUME, id: newId }, true);
     }
   };
 
   const handleLoadSavedResume = (resume: SavedResume) => {
     if (!resume.data) return;
     setResumeAnalysis(resume.data);
-    setJobs([]); // Clear previous jobs so they can be regenerated for the loaded resume
-    addActivity("Resume Loaded", `Loaded resume from ${new Date(resume.created_at).toLocaleDateString()}`);
+    setTailoredJobs([]); // Clear previous matches so they can be regenerated for the loaded resume
+    addActivity('resume_loaded', `Loaded resume from ${new Date(resume.created_at).toLocaleDateString()}`, { resumeId: resume.id, score: resume.data.score });
+    navigate({ view: AppView.RESUME, id: resume.id });
+  };
+
+  // Parsed details the candidate reviewed or added later belong to the resume being viewed
+  const handleUpdateParsedResume = (parsed: ParsedResume) => {
+    if (!resumeAnalysis) return;
+    const analysis = { ...resumeAnalysis, parsed };
+    const saved = savedResumes.find(r => r.data === resumeAnalysis);
+    setResumeAnalysis(analysis);
+    if (saved && user?.id) {
+      const updated = { ...saved, data: analysis };
+      setSavedResumes(prev => prev.map(r => r.id === saved.id ? updated : r));
+      getRepositories().resumes.update(user.id, updated).catch(reportRepositoryError);
+    }
+  };
+
+  const handleRenameResume = (resume: SavedResume, label: string) => {
+    if (!user?.id) return;
+    const updated = { ...resume, label: label || undefined };
+    setSavedResumes(prev => prev.map(r => r.id === resume.id ? updated : r));
+    getRepositories().resumes.update(user.id, updated).catch(reportRepositoryError);
+  };
+
+  // Builder edits are kept on the version they started from until it's re-scored
+  const handleSaveDraft = (resume: SavedResume, draft: ResumeDraft) => {
+    if (!user?.id) return;
+    const updated = { ...resume, draft };
+    setSavedResumes(prev => prev.map(r => r.id === resume.id ? updated : r));
+    getRepositories().resumes.update(user.id, updated).catch(reportRepositoryError);
+  };
+
+  // A re-scored draft becomes a new version
+  const handleDraftRescored = (analysis: ResumeAnalysis, draft: ResumeDraft, pdf: Blob) => {
+    handleResumeAnalysisComplete(draftAnalysis(analysis, draft, pdf), pdf, draft);
+  };
+
+  // Variants tailored to a job are saved beside the candidate's versions without
+  // replacing the one open in the analyzer
+  const handleSaveTailoredResume = async (job: Job, analysis: ResumeAnalysis, draft: ResumeDraft, pdf: Blob) => {
+    if (!user?.id) return;
+    const saved = await saveResumeVersion(user.id, {
+      id: uuidv4(),
+      data: draftAnalysis(analysis, draft, pdf),
+      draft,
+      jobId: job.id,
+      label: `${job.title} at ${job.company}`
+    }, pdf);
+    addActivity('resume_tailored', `Tailored for ${job.company}, scored ${analysis.score}/100`, { resumeId: saved.id, jobId: job.id, score: analysis.score });
+  };
+
+  // The pinned resume goes with every application not tailored to its job, whichever one
+  // is open in the analyzer
+  const handleSetDefaultResume = (resumeId: string | null) => {
+    if (!user?.id) return;
+    setSavedResumes(prev => prev.map(r => ({ ...r, pinned: r.id === resumeId })));
+    getRepositories().resumes.setDefault(user.id, resumeId).catch(reportRepositoryError);
   };
 
   const handleApplyToJob = async (job: Job) => {
     if (!user) return;
+    const resume = (savedResumes.find(r => r.jobId === job.id) ?? savedResumes.find(r => r.pinned))?.data ?? resumeAnalysis;
 
-    const newApplication: Application = {
+    const newApplication = nextVersion<Application>({
       id: Date.now().toString(),
+      candidateId: user.id,
       jobId: job.id,
       jobTitle: job.title,
       candidateName: user.name,
       candidateEmail: user.email,
       candidatePhone: user.phone,
       candidateAddress: user.address,
-      matchScore: resumeAnalysis ? resumeAnalysis.score : Math.floor(Math.random() * (98 - 70 + 1) + 70),
+      matchScore: resume ? resume.score : Math.floor(Math.random() * (98 - 70 + 1) + 70),
       status: 'New',
       timestamp: new Date(),
-      resumeFile: resumeAnalysis?.file
-    };
+      resumeFile: resume?.file,
+      injectionWarning: resume?.injectionWarning
+    });
 
     setApplications(prev => [newApplication, ...prev]);
-    addActivity("Job Application", `Applied to ${job.company}`);
+    addActivity('job_applied', `Applied to ${job.company}`, { jobId: job.id, applicationId: newApplication.id });
 
-    // SYNC: Update Global Storage (Demo Mode)
-    const existingGlobal: Application[] = JSON.parse(localStorage.getItem('carrerx_global_applications') || '[]');
-    localStorage.setItem('carrerx_global_applications', JSON.stringify([newApplication, ...existingGlobal]));
-
-    // SYNC: DB Update
-    if (user?.id) {
-        supabase.from('applications').upsert({
-            id: newApplication.id,
-            user_id: user.id,
-            data: newApplication,
-            updated_at: new Date().toISOString()
-        }).then(({ error }) => {
-            if (error) console.warn("DB Save Error (Application):", error.message);
-        });
-    }
+    getRepositories().applications.create(newApplication, user.id).catch(reportRepositoryError);
   };
 
   const handlePostJobRequest = () => {
@@ -370,26 +435,29 @@ function App() {
     setPostJobIntent(true);
   };
 
-  const handlePostJob = (job: Job) => {
-    setJobs(prev => [job, ...prev]);
-    addActivity("Job Posted", job.title);
-
-    // Save to Global Storage (so candidates can see it)
-    const globalJobs = JSON.parse(localStorage.getItem('carrerx_global_jobs') || '[]');
-    const updatedGlobalJobs = [job, ...globalJobs];
-    localStorage.setItem('carrerx_global_jobs', JSON.stringify(updatedGlobalJobs));
+  // Kept so they survive a reload; replaces the previous matches
+  const handleTailoredJobs = (generated: Job[]) => {
+    setTailoredJobs(generated);
+    if (user?.id) {
+      getRepositories().jobs.saveTailored(user.id, generated).catch(reportRepositoryError);
+    }
   };
 
-  const handleUpdateJob = (updatedJob: Job) => {
-    setJobs(prev => prev.map(j => j.id === updatedJob.id ? updatedJob : j));
-    addActivity("Job Updated", updatedJob.title);
+  const handlePostJob = (newJob: Job) => {
+    if (!user?.id) return;
+    const job = nextVersion({ ...newJob, ownerId: user.id, orgId: user.orgId });
+    setPostedJobs(prev => [job, ...prev]);
+    addActivity(job.status === 'draft' ? 'job_drafted' : 'job_posted', job.title, { jobId: job.id, status: job.status });
 
-    // Sync Global
-    const globalJobs = JSON.parse(localStorage.getItem('carrerx_global_jobs') || '[]');
-    if (globalJobs.some((j: Job) => j.id === updatedJob.id)) {
-        const newGlobal = globalJobs.map((j: Job) => j.id === updatedJob.id ? updatedJob : j);
-        localStorage.setItem('carrerx_global_jobs', JSON.stringify(newGlobal));
-    }
+    // Published jobs are shared, so candidates can see them
+    getRepositories().jobs.post(job, user.id).catch(reportRepositoryError);
+  };
+
+  const handleUpdateJob = (editedJob: Job) => {
+    const updatedJob = nextVersion(editedJob);
+    setPostedJobs(prev => prev.map(j => j.id === updatedJob.id ? updatedJob : j));
+    addActivity('job_updated', updatedJob.title, { jobId: updatedJob.id, status: updatedJob.status });
+    getRepositories().jobs.update(updatedJob).catch(reportRepositoryError);
   };
 
   const handleUpdateApplicationStatus = async (id: string, newStatus: Application['status'], interviewDate?: Date) => {
@@ -412,41 +480,64 @@ function App() {
     }
 
     // 2. Update React State
-    setApplications(prev => prev.map(app => {
-      if (app.id === id) {
-          return { ...app, ...updates };
-      }
-      return app;
-    }));
-
     const appToUpdate = applications.find(a => a.id === id);
-    if (appToUpdate && user?.id) {
+    if (!appToUpdate) return;
+    const savedApp = nextVersion({ ...appToUpdate, ...updates });
+    setApplications(prev => prev.map(app => app.id === id ? savedApp : app));
+
+    if (user?.id) {
         let meta = `Marked ${appToUpdate.candidateName} as ${newStatus}`;
         if (newStatus === 'Interview' && interviewDate) {
             meta += ` on ${interviewDate.toLocaleDateString()}`;
         }
-        addActivity("Application Update", meta);
+        addActivity('application_status_changed', meta, { applicationId: id, jobId: appToUpdate.jobId, status: newStatus });
         
-        const fullUpdatedApp = { ...appToUpdate, ...updates };
-
-        // SYNC: Global Storage (Demo Mode)
-        const globalApps: Application[] = JSON.parse(localStorage.getItem('carrerx_global_applications') || '[]');
-        const newGlobalApps = globalApps.map(gApp => gApp.id === id ? { ...gApp, ...updates } : gApp);
-        localStorage.setItem('carrerx_global_applications', JSON.stringify(newGlobalApps));
-
-        // SYNC: DB Update
-        // Use the original owner ID logic if we tracked it, otherwise assume global visibility handles it locally.
-        const originalOwnerId = applicationOwners[id] || user.id; // Fallback to current user if untracked, but global storage saves the day.
-
-        supabase.from('applications').upsert({
-            id: id,
-            // Try to preserve original ownership if possible, but for update we mostly care about the 'data' column
-            user_id: originalOwnerId, 
-            data: fullUpdatedApp,
-            updated_at: new Date().toISOString()
-        }).then(({ error }) => {
-            if (error) console.warn("DB Update Error (Application):", error.message);
-        });
+        // The application stays owned by the candidate; only its data changes, and the
+        // employer records the move in its history
+        const repositories = getRepositories();
+        repositories.applications.update(savedApp).catch(reportRepositoryError);
+        if (newStatus !== appToUpdate.status || interviewDate) {
+            repositories.applications.recordStatusChange({
+                id: uuidv4(),
+                applicationId: id,
+                status: newStatus,
+                previousStatus: appToUpdate.status,
+                changedBy: user.id,
+                changedByName: user.name,
+                changedAt: new Date(),
+                interviewDate
+            }).catch(reportRepositoryError);
+        }
+    }
+  };
+
+  // Links from the Activity view back to what an activity was about
+  const handleOpenActivity = ({ metadata }: ActivityLog) => {
+    if (metadata.resumeId) {
+      // A resume that's no longer saved leaves the analyzer on the current one
+      navigate({ view: AppView.RESUME, id: metadata.resumeId });
+    } else if (metadata.applicationId) {
+      navigate(user?.role === 'employer'
+        ? { view: AppView.APPLICANTS, id: metadata.applicationId }
+        : { view: AppView.MY_APPLICATIONS });
+    } else if (metadata.jobId) {
+      navigate({ view: AppView.JOBS, id: metadata.jobId });
+    }
+  };
+
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'mine' | 'theirs') => {
+    const sync = getRepositories().sync;
+    if (!sync) return;
+    try {
+      const winner = await sync.resolveConflict(conflict.id, keep);
+      const id = conflict.mine.id;
+      if (conflict.collection === 'applications') {
+        setApplications(prev => winner ? prev.map(app => app.id === id ? winner as Application : app) : prev.filter(app => app.id !== id));
+      } else if (conflict.collection === 'jobs') {
+        setPostedJobs(prev => winner ? prev.map(job => job.id === id ? winner as Job : job) : prev.filter(job => job.id !== id));
+      }
+    } catch (error) {
+      reportRepositoryError(error);
     }
   };
 
@@ -486,8 +577,18 @@ function App() {
         user={user!}
         onLogout={handleLogout}
         applications={applications}
+        syncStatus={syncStatus}
+        onOpenConflicts={() => setShowConflicts(true)}
       />
 
+      {showConflicts && syncStatus && (
+        <SyncConflicts
+          conflicts={syncStatus.conflicts}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+
       <main className="flex-1 flex flex-col min-w-0 h-full relative">
         {/* Mobile Header */}
         <div className="md:hidden flex items-center justify-between p-4 bg-white border-b border-slate-200 sticky top-0 z-20">
@@ -501,6 +602,15 @@ function App() {
 
         {/* Content Area */}
         <div className="flex-1 overflow-y-auto overflow-x-hidden p-4 md:p-8 scroll-smooth">
+          {storageError && (
+            <div className="mb-6 flex items-start gap-3 p-4 rounded-xl border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+              <div className="flex-1">
+                <p className="font-bold">{REPOSITORY_ERROR_TITLES[storageError.kind]}</p>
+                <p>{storageError.message}</p>
+              </div>
+              <button onClick={() => setStorageError(null)} className="text-amber-500 hover:text-amber-700"><X className="w-4 h-4" /></button>
+            </div>
+          )}
           <AnimatePresence mode="wait">
             <motion.div
               key={currentView}
@@ -526,7 +636,7 @@ function App() {
                 <MyApplications 
                   applications={applications}
                   jobs={jobs}
-                  userEmail={user?.email || ''}
+                  user={user!}
                 />
               )}
 
@@ -540,28 +650,53 @@ function App() {
                 <ResumeAnalyzer 
                   analysisResult={resumeAnalysis}
                   onAnalysisComplete={handleResumeAnalysisComplete}
-                  onActivity={addActivity}
                   savedResumes={savedResumes}
                   onLoadResume={handleLoadSavedResume}
+                  onUpdateParsed={handleUpdateParsedResume}
+                  onOpenHistory={() => setCurrentView(AppView.RESUME_HISTORY)}
+                  onOpenBuilder={() => navigate({ view: AppView.RESUME_BUILDER, id: savedResumes.find(r => r.data === resumeAnalysis)?.id })}
+                />
+              )}
+
+              {currentView === AppView.RESUME_BUILDER && (
+                <ResumeBuilder
+                  resume={builderResume}
+                  onSaveDraft={handleSaveDraft}
+                  onRescored={handleDraftRescored}
                 />
               )}
               
+              {currentView === AppView.RESUME_HISTORY && (
+                <ResumeHistory
+                  resumes={savedResumes}
+                  onOpen={handleLoadSavedResume}
+                  onRename={handleRenameResume}
+                  onSetDefault={handleSetDefaultResume}
+                />
+              )}
+
               {currentView === AppView.INSIGHTS && <MarketInsights />}
               
               {currentView === AppView.JOBS && (
                 <Jobs 
                   resumeAnalysis={resumeAnalysis} 
                   onActivity={addActivity}
-                  jobs={jobs}
-                  setJobs={setJobs}
+                  postedJobs={postedJobs}
+                  tailoredJobs={tailoredJobs}
+                  onTailoredJobs={handleTailoredJobs}
                   onApply={handleApplyToJob}
-                  appliedJobIds={new Set(applications.filter(a => a.candidateEmail === user?.email).map(a => a.jobId))}
+                  appliedJobIds={new Set(applications.filter(a => isOwnApplication(a, user!)).map(a => a.jobId))}
+                  baseResume={tailoringBase}
+                  tailoredResumes={savedResumes.filter(r => r.jobId)}
+                  onSaveTailoredResume={handleSaveTailoredResume}
                   userRole={user?.role}
                   applications={applications}
                   onPostJob={handlePostJob}
                   onUpdateJob={handleUpdateJob}
                   postJobIntent={postJobIntent}
                   onClearPostJobIntent={() => setPostJobIntent(false)}
+                  selectedJobId={route?.id}
+                  onSelectJob={id => navigate({ view: AppView.JOBS, id })}
                 />
               )}
 
@@ -570,6 +705,8 @@ function App() {
                   applications={applications}
                   jobs={jobs}
                   onUpdateStatus={handleUpdateApplicationStatus}
+                  selectedApplicationId={route?.id ?? null}
+                  onSelectApplication={id => navigate({ view: AppView.APPLICANTS, id: id ?? undefined })}
                 />
               )}
 
@@ -579,12 +716,15 @@ function App() {
                   jobs={jobs}
                   onUpdateStatus={handleUpdateApplicationStatus}
                   showShortlistedOnly={true}
+                  selectedApplicationId={route?.id ?? null}
+                  onSelectApplication={id => navigate({ view: AppView.SHORTLISTED, id: id ?? undefined })}
                 />
               )}
               
               {currentView === AppView.COVER_LETTER && (
                 <CoverLetter 
                   resumeAnalysis={resumeAnalysis} 
+                  jobs={jobs}
                   onActivity={addActivity}
                 />
               )}
@@ -603,10 +743,18 @@ function App() {
                 />
               )}
 
+              {currentView === AppView.ACTIVITY && (
+                <ActivityHistory
+                  user={user!}
+                  onOpen={handleOpenActivity}
+                />
+              )}
+
               {currentView === AppView.SETTINGS && (
                 <Settings 
                   user={user!} 
                   onUpdateProfile={handleUpdateProfile} 
+                  onAccountDeleted={handleLogout}
                 />
               )}
             </motion.div>
@@ -0,0 +1,97 @@
+import { createGeminiProvider, DEFAULT_MODEL } from '../../services/ai/geminiProvider';
+import { AI_FEATURES, AiFeature, AiRequest, AiUsage } from '../../services/ai/types';
+import { buildAiRequest, readRequestSource } from '../../services/ai/features';
+import { describeIssues } from '../../services/ai/validation';
+import { toAiError } from '../../services/ai/errors';
+import { ApiRequest, ApiResponse, HttpError, sendJson, readJsonBody, getQueryParam } from '../../server/http';
+import { authenticate } from '../../server/auth';
+import { enforceRateLimit } from '../../server/rateLimit';
+import { enforceMonthlyQuota, recordUsage } from '../../server/quota';
+
+// The key only exists in the server environment
+const gemini = createGeminiProvider();
+
+const isFeature = (value: string | undefined): value is AiFeature =>
+  !!value && (AI_FEATURES as readonly string[]).includes(value);
+
+// POST /api/ai/:feature[?stream=1]
+// Body: { input, redacted?, correction? }, see services/ai/features.ts. The prompt, system
+// instruction and response schema are built here from the feature's input fields.
+// With stream=1 the response is newline-delimited JSON chunks ({ text, sources?, usage? });
+// an error after the first chunk is sent as a final { error, kind, status } line.
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: "Method not allowed." }, { Allow: 'POST' });
+  }
+
+  // Stop the upstream call if the browser goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const user = await authenticate(req);
+
+    const feature = getQueryParam(req, 'feature');
+    if (!isFeature(feature)) {
+      throw new HttpError(404, `Unknown AI operation "${feature}".`);
+    }
+
+    enforceRateLimit(user.id);
+    await enforceMonthlyQuota(user.id);
+
+    const { source, issues } = readRequestSource(feature, await readJsonBody(req));
+    if (issues.length > 0) {
+      throw new HttpError(400, `Invalid input for ${feature}:\n${describeIssues(issues)}`);
+    }
+
+    const request: AiRequest = { ...buildAiRequest(feature, source), signal: controller.signal };
+
+    // Every call that reached the model counts towards the quota, even without token counts
+    const startedAt = Date.now();
+    const record = (usage: AiUsage | undefined) => recordUsage({
+      userId: user.id,
+      feature,
+      provider: gemini.name,
+      usage: usage || { model: request.model || DEFAULT_MODEL, inputTokens: 0, outputTokens: 0 },
+      latencyMs: Date.now() - startedAt
+    });
+
+    if (getQueryParam(req, 'stream') === '1') {
+      let usage: AiUsage | undefined;
+      try {
+        for await (const chunk of gemini.stream!(request)) {
+          if (!res.headersSent) {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'application/x-ndjson');
+            res.setHeader('Cache-Control', 'no-cache');
+          }
+          usage = chunk.usage || usage;
+          res.write(JSON.stringify(chunk) + '\n');
+        }
+      } finally {
+        // Also when the browser stopped early, so partial answers are counted
+        if (res.headersSent) await record(usage);
+      }
+      return res.end();
+    }
+
+    const response = await gemini.generate(request);
+
+    await record(response.usage);
+    sendJson(res, 200, response);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return sendJson(res, error.status, { error: error.message }, error.headers);
+    }
+    const aiError = toAiError(error);
+    console.error(`AI proxy error (${aiError.kind}):`, error);
+    const status = aiError.status || 502;
+    if (res.headersSent) {
+      res.end(JSON.stringify({ error: aiError.message, kind: aiError.kind, status }) + '\n');
+      return;
+    }
+    sendJson(res, status, { error: aiError.message, kind: aiError.kind });
+  }
+}
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { History, ChevronRight, Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { ActivityCategory, ActivityLog } from '../types';
+import { Card, Button, Input } from './ui/DesignSystem';
+import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { ACTIVITY_CATEGORY_COLORS, ACTIVITY_CATEGORY_LABELS, activityCategory, kindsInCategory } from '../lib/activity';
+import { getRepositories, reportRepositoryError } from '../services/data';
+
+interface ActivityHistoryProps {
+  user: { id: string };
+  // Opens the resume, job or application the activity is about
+  onOpen: (activity: ActivityLog) => void;
+}
+
+const PAGE_SIZE = 25;
+
+const selectClassName = "h-11 bg-white border border-slate-300 rounded-lg px-4 text-sm text-slate-700 focus:ring-2 focus:ring-brand-500/20 outline-none";
+
+const canOpen = ({ metadata }: ActivityLog) => !!(metadata.resumeId || metadata.applicationId || metadata.jobId);
+
+const dayLabel = (date: Date) => date.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+// Every activity, newest first, a page at a time
+const ActivityHistory: React.FC<ActivityHistoryProps> = ({ user, onOpen }) => {
+  const [category, setCategory] = useState<ActivityCategory | 'all'>('all');
+  // yyyy-mm-dd from the date inputs; empty means unbounded
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [items, setItems] = useState<ActivityLog[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const query = () => ({
+    kinds: category === 'all' ? undefined : kindsInCategory(category),
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    limit: PAGE_SIZE
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getRepositories().activities.list(user.id, query())
+      .then(page => {
+        if (cancelled) return;
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(reportRepositoryError)
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [user.id, category, from, to]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoading(true);
+    try {
+      const page = await getRepositories().activities.list(user.id, { ...query(), cursor: nextCursor });
+      setItems(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      reportRepositoryError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setCategory('all');
+    setFrom('');
+    setTo('');
+  };
+
+  const isFiltered = category !== 'all' || !!from || !!to;
+
+  // Grouped by day, keeping the newest-first order
+  const days: { label: string; activities: ActivityLog[] }[] = [];
+  items.forEach(activity => {
+    const label = dayLabel(activity.timestamp);
+    const last = days[days.length - 1];
+    if (last?.label === label) last.activities.push(activity);
+    else days.push({ label, activities: [activity] });
+  });
+
+  return (
+    <motion.div variants={containerVariants} initial="hidden" animate="visible" className="space-y-6 max-w-4xl mx-auto">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900 tracking-tight font-display">Activity</h1>
+        <p className="text-slate-500 mt-2">Everything you've done in CarrerX, newest first.</p>
+      </div>
+
+      <motion.div variants={itemVariants} className="flex flex-col md:flex-row md:items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500 md:w-48">
+          Type
+          <select className={selectClassName} value={category} onChange={e => setCategory(e.target.value as ActivityCategory | 'all')}>
+            <option value="all">All activity</option>
+            {(Object.keys(ACTIVITY_CATEGORY_LABELS) as ActivityCategory[])
+              .filter(c => kindsInCategory(c).length > 0)
+              .map(c => <option key={c} value={c}>{ACTIVITY_CATEGORY_LABELS[c]}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+          From
+          <Input type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+          To
+          <Input type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} />
+        </label>
+        {isFiltered && (
+          <Button type="button" variant="ghost" onClick={clearFilters}>Clear filters</Button>
+        )}
+      </motion.div>
+
+      {items.length === 0 && !isLoading ? (
+        <Card className="flex flex-col items-center justify-center p-12 bg-slate-50 border-dashed">
+          <div className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-sm mb-4">
+            <History className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900">{isFiltered ? 'No Matching Activity' : 'No Activity Yet'}</h3>
+          <p className="text-slate-500 text-center max-w-sm mt-2">
+            {isFiltered ? 'Try another type or date range.' : 'Analyze a resume or apply to a job and it will show up here.'}
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {days.map(day => (
+            <motion.section key={day.label} variants={itemVariants}>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{day.label}</h3>
+              <Card className="p-0 divide-y divide-slate-100">
+                {day.activities.map(activity => {
+                  const openable = canOpen(activity);
+                  return (
+                    <button
+                      key={activity.id}
+                      type="button"
+                      disabled={!openable}
+                      onClick={() => onOpen(activity)}
+                      className={cn("w-full text-left p-4 flex items-start gap-3 group", openable ? "hover:bg-slate-50 transition-colors" : "cursor-default")}
+                    >
+                      <div className={cn("mt-1.5 w-2 h-2 rounded-full flex-none", ACTIVITY_CATEGORY_COLORS[activityCategory(activity.kind)])} />
+                      <div className="flex-1 min-w-0">
+                        <h4 className={cn("text-sm font-semibold text-slate-900", openable && "group-hover:text-brand-600 transition-colors")}>{activity.title}</h4>
+                        <p className="text-xs text-slate-500 mt-0.5">{activity.meta}</p>
+                      </div>
+                      <span className="text-xs text-slate-400 flex-none">
+                        {activity.timestamp.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                      </span>
+                      {openable && <ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-brand-500 flex-none" />}
+                    </button>
+                  );
+                })}
+              </Card>
+            </motion.section>
+          ))}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4 text-slate-400"><Loader2 className="w-5 h-5 animate-spin" /></div>
+          ) : nextCursor && (
+            <div className="flex justify-center">
+              <Button type="button" variant="outline" onClick={loadMore}>Load more</Button>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ActivityHistory;
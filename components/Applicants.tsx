@@ -1,18 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Users, Mail, CheckCircle, XCircle, Search, Filter, FileText, Download, Calendar, X, ThumbsDown, Bookmark, ExternalLink, Eye, ChevronLeft, ChevronRight, Clock, RefreshCw } from 'lucide-react';
+import { Users, Mail, CheckCircle, XCircle, Search, Filter, FileText, Download, Calendar, X, ThumbsDown, Bookmark, ExternalLink, Eye, ChevronLeft, ChevronRight, Clock, RefreshCw, ShieldAlert } from 'lucide-react';
 import { Application, Job } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, Button, Badge, Input } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { resumeFormatForType } from '../lib/resumeFormats';
+import InjectionWarningNotice from './InjectionWarningNotice';
+import StatusHistory from './StatusHistory';
+import { getRepositories, reportRepositoryError } from '../services/data';
 
 interface ApplicantsProps {
   applications: Application[];
   jobs: Job[];
   onUpdateStatus?: (id: string, status: Application['status'], interviewDate?: Date) => void;
   showShortlistedOnly?: boolean;
+  // The application open in the details panel, kept in the URL by the caller
+  selectedApplicationId?: string | null;
+  onSelectApplication?: (id: string | null) => void;
 }
 
-const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateStatus, showShortlistedOnly = false }) => {
+const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateStatus, showShortlistedOnly = false, selectedApplicationId, onSelectApplication }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
   const [selectedApp, setSelectedApp] = useState<Application | null>(null);
@@ -101,7 +108,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
     setShowScheduleInput(true);
   };
 
-  const openModal = (app: Application) => {
+  const showApplication = (app: Application) => {
      setSelectedApp(app);
      setShowScheduleInput(false); // Reset schedule state on new open
      setScheduleDate('');
@@ -109,16 +116,47 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
      setCurrentMonth(new Date());
   };
 
-  const handleDownloadResume = () => {
+  const openModal = (app: Application) => {
+     showApplication(app);
+     onSelectApplication?.(app.id);
+  };
+
+  const closeModal = () => {
+     setSelectedApp(null);
+     onSelectApplication?.(null);
+  };
+
+  // Follow the URL: a link to an applicant opens them, going back closes the panel
+  useEffect(() => {
+    if (selectedApplicationId === undefined) return;
+    if (!selectedApplicationId) {
+      setSelectedApp(null);
+      return;
+    }
+    if (selectedApp?.id === selectedApplicationId) return;
+    const app = applications.find(a => a.id === selectedApplicationId);
+    if (app) showApplication(app);
+  }, [selectedApplicationId, applications]);
+
+  const handleDownloadResume = async () => {
     if (!selectedApp) return;
 
     if (selectedApp.resumeFile) {
+        // A signed URL streams the file from storage; it's only fetched when clicked
+        let url: string;
+        try {
+            url = await getRepositories().files.downloadUrl(selectedApp.resumeFile);
+        } catch (error) {
+            reportRepositoryError(error);
+            return;
+        }
         const link = document.createElement("a");
-        link.href = `data:${selectedApp.resumeFile.type};base64,${selectedApp.resumeFile.data}`;
+        link.href = url;
         link.download = selectedApp.resumeFile.name;
         document.body.appendChild(link); 
         link.click();
         document.body.removeChild(link);
+        if (url.startsWith('blob:')) URL.revokeObjectURL(url);
     } else {
         // Fallback for mock applications that don't have a real file
         const element = document.createElement("a");
@@ -223,9 +261,15 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           <p className="text-slate-500 mt-2 font-medium">Senior Software Engineer</p>
                        </div>
                        <div className="text-right text-sm text-slate-500 space-y-1">
-                          <p>{selectedApp.candidateEmail}</p>
-                          <p>{selectedApp.candidatePhone || "+1 (555) 123-4567"}</p>
-                          <p>{selectedApp.candidateAddress || "San Francisco, CA"}</p>
+                          {selectedApp.candidateDeleted ? (
+                             <p>Account deleted</p>
+                          ) : (
+                             <>
+                                <p>{selectedApp.candidateEmail}</p>
+                                <p>{selectedApp.candidatePhone || "+1 (555) 123-4567"}</p>
+                                <p>{selectedApp.candidateAddress || "San Francisco, CA"}</p>
+                             </>
+                          )}
                        </div>
                     </div>
                     
@@ -281,7 +325,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
               <div className="w-full md:w-[450px] bg-white flex flex-col z-10 shadow-xl">
                  <div className="p-4 border-b border-slate-100 flex items-center justify-between">
                     <h3 className="font-bold text-slate-900">Application Review</h3>
-                    <button onClick={() => setSelectedApp(null)} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                    <button onClick={closeModal} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
                        <X className="w-5 h-5" />
                     </button>
                  </div>
@@ -303,6 +347,10 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                        <p className="text-sm font-medium text-slate-500">AI Match Score</p>
                     </div>
 
+                    {selectedApp.injectionWarning && (
+                      <InjectionWarningNotice warning={selectedApp.injectionWarning} />
+                    )}
+
                     <div className="space-y-4">
                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Candidate Status</h4>
                        <div className="grid grid-cols-2 gap-3">
@@ -479,6 +527,8 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                        )}
                     </div>
 
+                    {/* The candidate's resume left with their account */}
+                    {!selectedApp.candidateDeleted && (
                     <div className="space-y-3">
                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Documents</h4>
                        <button 
@@ -495,7 +545,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                                 </p>
                                 <p className="text-xs text-slate-500">
                                     {selectedApp.resumeFile 
-                                        ? `${selectedApp.resumeFile.type.split('/')[1]?.toUpperCase() || 'FILE'} • ${(selectedApp.resumeFile.size / 1024 / 1024).toFixed(2)} MB` 
+                                        ? `${resumeFormatForType(selectedApp.resumeFile.type)?.label.toUpperCase() || 'FILE'} • ${(selectedApp.resumeFile.size / 1024 / 1024).toFixed(2)} MB` 
                                         : "PDF • 1.2 MB"}
                                 </p>
                              </div>
@@ -503,6 +553,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           <Download className="w-4 h-4 text-slate-400 group-hover:text-purple-600" />
                        </button>
                     </div>
+                    )}
 
                     <div className="space-y-3">
                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Application Details</h4>
@@ -517,15 +568,17 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           </div>
                           <div className="flex justify-between">
                              <span className="text-slate-500">Email</span>
-                             <span className="font-medium text-slate-900">{selectedApp.candidateEmail}</span>
+                             <span className="font-medium text-slate-900">{selectedApp.candidateDeleted ? 'Account deleted' : selectedApp.candidateEmail}</span>
                           </div>
                        </div>
                     </div>
+
+                    <StatusHistory application={selectedApp} />
                  </div>
                  
                  <div className="p-4 border-t border-slate-200 bg-slate-50">
                     <Button 
-                        onClick={() => setSelectedApp(null)} 
+                        onClick={closeModal} 
                         className="w-full bg-slate-900 hover:bg-slate-800 transition-colors"
                     >
                        <CheckCircle className="w-4 h-4 mr-2" /> Done
@@ -624,7 +677,7 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                     <div>
                        <h4 className="font-semibold text-slate-900">{app.candidateName}</h4>
                        <p className="text-xs text-slate-500 flex items-center gap-1">
-                          <Mail className="w-3 h-3" /> {app.candidateEmail}
+                          <Mail className="w-3 h-3" /> {app.candidateDeleted ? 'Account deleted' : app.candidateEmail}
                        </p>
                     </div>
                  </div>
@@ -645,6 +698,9 @@ const Applicants: React.FC<ApplicantsProps> = ({ applications, jobs, onUpdateSta
                           />
                        </div>
                        <span className="text-sm font-bold text-slate-700">{app.matchScore}%</span>
+                       {app.injectionWarning && (
+                         <span title="The resume contains text aimed at the AI scorer"><ShieldAlert className="w-4 h-4 text-amber-500" /></span>
+                       )}
                     </div>
                  </div>
                  
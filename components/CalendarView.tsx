@@ -4,10 +4,11 @@ import { Application, UserRole } from '../types';
 import { motion } from 'framer-motion';
 import { Card, Button, Badge } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { isOwnApplication } from '../services/data';
 
 interface CalendarViewProps {
   applications: Application[];
-  user: { name: string; email: string; role?: UserRole };
+  user: { id: string; name: string; email: string; role?: UserRole };
 }
 
 const CalendarView: React.FC<CalendarViewProps> = ({ applications, user }) => {
@@ -19,7 +20,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ applications, user }) => {
   // Filter interviews
   const interviews = applications.filter(app => {
     if (app.status !== 'Interview' || !app.interviewDate) return false;
-    return isEmployer ? true : app.candidateEmail === user.email;
+    return isEmployer ? true : isOwnApplication(app, user);
   });
 
   const getDaysInMonth = (date: Date) => {
@@ -1,9 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, X, Send, Loader2, Sparkles, Bot, User } from 'lucide-react';
+import { MessageSquare, X, Send, Square, Sparkles, Bot, User } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button, Input, Card } from './ui/DesignSystem';
 import { ChatMessage } from '../types';
-import { sendChatMessage } from '../services/gemini';
+import { streamChatMessage, toAiError } from '../services/gemini';
 import ReactMarkdown from 'react-markdown';
 import { cn } from '../lib/utils';
 
@@ -23,7 +23,9 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
   ]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -32,9 +34,12 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
     }
   }, [messages, isOpen, isTyping]);
 
+  // Stop any reply still streaming when the widget goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const handleSend = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!input.trim()) return;
+    if (!input.trim() || isStreaming) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -42,32 +47,44 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
       text: input,
       timestamp: Date.now()
     };
+    const botId = (Date.now() + 1).toString();
+
+    // Creates the reply bubble on the first chunk, then grows it in place
+    const setReply = (text: string) => setMessages(prev =>
+      prev.some(m => m.id === botId)
+        ? prev.map(m => m.id === botId ? { ...m, text } : m)
+        : [...prev, { id: botId, role: 'model', text, timestamp: Date.now() }]
+    );
 
     setMessages(prev => [...prev, userMsg]);
     setInput('');
     setIsTyping(true);
+    setIsStreaming(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
+    let reply = '';
     try {
-      // Get response from Gemini
-      // Filter out the initial welcome message from history sent to API to avoid confusion if needed, 
-      // though typically it's fine.
-      const responseText = await sendChatMessage(messages, userMsg.text, currentView);
-      
-      const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prev => [...prev, botMsg]);
+      for await (const chunk of streamChatMessage(messages, userMsg.text, currentView, { signal: controller.signal })) {
+        reply += chunk.text;
+        setReply(reply);
+        setIsTyping(false);
+      }
+      if (!reply) setReply("I'm sorry, I didn't catch that.");
     } catch (error) {
-      console.error(error);
+      // Stopping keeps whatever was already written
+      if (toAiError(error).kind !== 'cancelled' && !reply) {
+        setReply("I'm having trouble connecting right now. Please try again.");
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsTyping(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
   return (
     <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end pointer-events-none">
       <div className="pointer-events-auto">
@@ -160,14 +177,26 @@ const ChatBot: React.FC<ChatBotProps> = ({ currentView }) => {
                     placeholder="Ask about CarrerX..."
                     className="pr-12 py-3 rounded-full bg-slate-50 border-slate-200 focus:bg-white transition-all"
                   />
-                  <Button 
-                    type="submit" 
-                    size="sm"
-                    disabled={!input.trim() || isTyping}
-                    className="absolute right-1 top-1 bottom-1 w-9 h-9 rounded-full p-0 flex items-center justify-center"
-                  >
-                    {isTyping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-                  </Button>
+                  {isStreaming ? (
+                    <Button 
+                      type="button" 
+                      size="sm"
+                      onClick={handleStop}
+                      title="Stop generating"
+                      className="absolute right-1 top-1 bottom-1 w-9 h-9 rounded-full p-0 flex items-center justify-center"
+                    >
+                      <Square className="w-3.5 h-3.5 fill-current" />
+                    </Button>
+                  ) : (
+                    <Button 
+                      type="submit" 
+                      size="sm"
+                      disabled={!input.trim()}
+                      className="absolute right-1 top-1 bottom-1 w-9 h-9 rounded-full p-0 flex items-center justify-center"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
                 </form>
               </div>
             </motion.div>
@@ -1,35 +1,65 @@
-import React, { useState } from 'react';
-import { Mail, Loader2, Copy, Check, FileText, ArrowRight } from 'lucide-react';
-import { ResumeAnalysis } from '../types';
-import { generateCoverLetter } from '../services/gemini';
+import React, { useState, useRef, useEffect } from 'react';
+import { Mail, Loader2, Copy, Check, FileText, ArrowRight, Square, ShieldCheck } from 'lucide-react';
+import { ActivityKind, ActivityMetadata, Job, ResumeAnalysis } from '../types';
+import { streamCoverLetter, toAiError } from '../services/gemini';
 import { Card, Button, Textarea } from './ui/DesignSystem';
 
 interface CoverLetterProps {
   resumeAnalysis: ResumeAnalysis | null;
-  onActivity: (title: string, meta: string) => void;
+  // Jobs the description can be filled in from; their privacy requirement applies to the letter
+  jobs?: Job[];
+  onActivity: (kind: ActivityKind, meta: string, metadata?: ActivityMetadata) => void;
 }
 
-const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity }) => {
+const selectClassName = "h-11 bg-white border border-slate-300 rounded-lg px-4 text-sm text-slate-700 focus:ring-2 focus:ring-brand-500/20 outline-none";
+
+const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, jobs = [], onActivity }) => {
   const [jobDescription, setJobDescription] = useState('');
+  const [jobId, setJobId] = useState('');
   const [generatedLetter, setGeneratedLetter] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const job = jobs.find(j => j.id === jobId);
+
+  const handleSelectJob = (id: string) => {
+    setJobId(id);
+    const selected = jobs.find(j => j.id === id);
+    if (selected) setJobDescription(selected.description);
+  };
 
   const handleGenerate = async () => {
     if (!resumeAnalysis || !jobDescription.trim()) return;
     
     setIsGenerating(true);
+    setGeneratedLetter('');
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let letter = '';
     try {
-      const letter = await generateCoverLetter(resumeAnalysis.summary, jobDescription);
-      setGeneratedLetter(letter);
-      onActivity("Cover Letter", "Generated letter for new role");
+      for await (const chunk of streamCoverLetter(resumeAnalysis.summary, jobDescription, resumeAnalysis.parsed, { signal: controller.signal, privacy: job?.privacyRequired })) {
+        letter += chunk.text;
+        setGeneratedLetter(letter);
+      }
+      if (!letter) setGeneratedLetter("Failed to generate cover letter.");
+      else onActivity('cover_letter_generated', job ? `Generated letter for ${job.title}` : "Generated letter for new role", job ? { jobId: job.id } : undefined);
     } catch (error) {
-      console.error(error);
+      // A stopped draft stays in the preview so it can still be copied
+      if (toAiError(error).kind !== 'cancelled' && !letter) {
+        setGeneratedLetter("Failed to generate cover letter.");
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(generatedLetter);
     setCopied(true);
@@ -57,6 +87,20 @@ const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity })
           <p className="text-slate-500">Paste the job description below. We'll craft a compelling story connecting your resume to their requirements.</p>
         </div>
 
+        {jobs.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <select className={selectClassName} value={jobId} onChange={e => handleSelectJob(e.target.value)} aria-label="Job">
+              <option value="">Paste a job description</option>
+              {jobs.map(j => <option key={j.id} value={j.id}>{j.title} at {j.company}</option>)}
+            </select>
+            {job?.privacyRequired && (
+              <span className="flex items-center gap-1 text-xs text-emerald-700">
+                <ShieldCheck className="w-4 h-4" /> Your personal details are masked for this employer
+              </span>
+            )}
+          </div>
+        )}
+
         <Card className="flex-1 flex flex-col p-1 shadow-sm">
            <div className="p-3 border-b border-slate-100 bg-slate-50 rounded-t-lg">
               <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Job Description</label>
@@ -69,22 +113,25 @@ const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity })
            />
         </Card>
 
-        <Button
-          onClick={handleGenerate}
-          disabled={isGenerating || !jobDescription.trim()}
-          size="lg"
-          className="w-full shadow-lg shadow-brand-600/20"
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="w-5 h-5 animate-spin mr-2" /> Writing your letter...
-            </>
-          ) : (
-            <>
-              Generate Letter <ArrowRight className="w-5 h-5 ml-2" />
-            </>
-          )}
-        </Button>
+        {isGenerating ? (
+          <Button
+            onClick={handleStop}
+            variant="outline"
+            size="lg"
+            className="w-full"
+          >
+            <Loader2 className="w-5 h-5 animate-spin mr-2" /> Writing your letter... <Square className="w-4 h-4 ml-3 mr-1 fill-current" /> Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={handleGenerate}
+            disabled={!jobDescription.trim()}
+            size="lg"
+            className="w-full shadow-lg shadow-brand-600/20"
+          >
+            Generate Letter <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        )}
       </div>
 
       {/* Output Side */}
@@ -98,7 +145,7 @@ const CoverLetter: React.FC<CoverLetterProps> = ({ resumeAnalysis, onActivity })
             variant="ghost" 
             size="sm"
             onClick={copyToClipboard}
-            disabled={!generatedLetter}
+            disabled={!generatedLetter || isGenerating}
             className={copied ? "text-emerald-600 bg-emerald-50" : ""}
           >
             {copied ? <><Check className="w-4 h-4 mr-2" /> Copied</> : <><Copy className="w-4 h-4 mr-2" /> Copy Text</>}
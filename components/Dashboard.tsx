@@ -4,9 +4,12 @@ import { AppView, ResumeAnalysis, ActivityLog, UserRole, Application, Job } from
 import { motion } from 'framer-motion';
 import { Card, Button, Badge } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import AiUsageOverview from './dashboard/AiUsageOverview';
+import { isOwnApplication, isPublished } from '../services/data';
+import { ACTIVITY_CATEGORY_COLORS, activityCategory } from '../lib/activity';
 
 interface DashboardProps {
-  user: { name: string; email: string; role?: UserRole };
+  user: { name: string; email: string; role?: UserRole; id: string };
   setCurrentView: (view: AppView) => void;
   resumeAnalysis: ResumeAnalysis | null;
   activities: ActivityLog[];
@@ -27,6 +30,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
 
   // --- EMPLOYER DASHBOARD ---
   if (isEmployer) {
+    const activeJobs = jobs.filter(isPublished).length;
      const newApplicantsCount = applications.filter(a => a.status === 'New').length;
      const avgMatchScore = applications.length > 0 
         ? Math.round(applications.reduce((acc, curr) => acc + curr.matchScore, 0) / applications.length) 
@@ -64,9 +68,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
            <StatCard 
              title="Active Jobs" 
-             value={jobs.length.toString()} 
+             value={activeJobs.toString()} 
              icon={<Briefcase className="w-5 h-5 text-purple-600" />}
-             desc={jobs.length > 0 ? "Open positions" : "No active jobs"}
+             desc={activeJobs > 0 ? "Open positions" : "No active jobs"}
              variant="purple"
            />
            <StatCard 
@@ -135,6 +139,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
                   )}
                </Card>
              </section>
+
+             <AiUsageOverview currentUserId={user.id} />
            </motion.div>
    
            {/* Sidebar Feed */}
@@ -171,9 +177,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
   }
 
   // --- CANDIDATE DASHBOARD ---
-  const jobsAnalyzed = activities.filter(a => a.type === 'job_match').length;
-  const interviewSessions = activities.filter(a => a.type === 'interview').length;
-  const myApplications = applications.filter(a => a.candidateEmail === user.email);
+  const jobsAnalyzed = activities.filter(a => activityCategory(a.kind) === 'job_match').length;
+  const interviewSessions = activities.filter(a => activityCategory(a.kind) === 'interview').length;
+  const myApplications = applications.filter(a => isOwnApplication(a, user));
   
   return (
     <motion.div 
@@ -373,12 +379,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
                   {activities.map((act) => (
                     <div key={act.id} className="p-4 hover:bg-slate-50 transition-colors group">
                       <div className="flex items-start gap-3">
-                        <div className={cn(
-                          "mt-0.5 w-2 h-2 rounded-full flex-none",
-                          act.type === 'resume' ? 'bg-emerald-500' :
-                          act.type === 'interview' ? 'bg-purple-500' :
-                          act.type === 'job_match' ? 'bg-brand-500' : 'bg-pink-500'
-                        )} />
+                        <div className={cn("mt-0.5 w-2 h-2 rounded-full flex-none", ACTIVITY_CATEGORY_COLORS[activityCategory(act.kind)])} />
                         <div>
                           <h4 className="text-sm font-semibold text-slate-900 group-hover:text-brand-600 transition-colors">{act.title}</h4>
                           <p className="text-xs text-slate-500 mt-0.5">{act.meta}</p>
@@ -390,7 +391,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, setCurrentView, resumeAnaly
                     </div>
                   ))}
                   <div className="p-3 text-center">
-                    <button className="text-xs font-medium text-slate-500 hover:text-brand-600 transition-colors">View Full History</button>
+                    <button onClick={() => setCurrentView(AppView.ACTIVITY)} className="text-xs font-medium text-slate-500 hover:text-brand-600 transition-colors">View Full History</button>
                   </div>
                 </div>
               )}
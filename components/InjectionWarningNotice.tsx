@@ -0,0 +1,40 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { InjectionWarning } from '../types';
+import { cn } from '../lib/utils';
+
+interface InjectionWarningNoticeProps {
+  warning: InjectionWarning;
+  // Dark surfaces (Resume Analyzer) need lighter text
+  tone?: 'light' | 'dark';
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<InjectionWarning['source'], string> = {
+  resume: 'This resume',
+  job: 'This job description'
+};
+
+const InjectionWarningNotice: React.FC<InjectionWarningNoticeProps> = ({ warning, tone = 'light', className }) => (
+  <div className={cn(
+    "flex items-start gap-3 p-4 rounded-xl border text-sm",
+    tone === 'dark' ? "bg-amber-900/20 border-amber-500/40 text-amber-200" : "bg-amber-50 border-amber-200 text-amber-800",
+    className
+  )}>
+    <ShieldAlert className="w-5 h-5 flex-none mt-0.5" />
+    <div className="space-y-1">
+      <p className="font-bold">{SOURCE_LABELS[warning.source]} contains text aimed at the AI</p>
+      <p>{warning.reasons.join('. ')}. The flagged text was excluded when cross-checking the score, so treat this result with care.</p>
+      {warning.originalScore !== undefined && (
+        <p className="text-xs opacity-80">The unchecked score was {warning.originalScore}; the lower, cleaned score is shown.</p>
+      )}
+      {warning.excerpts.length > 0 && (
+        <ul className="text-xs opacity-80 list-disc pl-4">
+          {warning.excerpts.map((excerpt, i) => <li key={i} className="italic">"{excerpt}"</li>)}
+        </ul>
+      )}
+    </div>
+  </div>
+);
+
+export default InjectionWarningNotice;
@@ -1,39 +1,69 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Briefcase, MapPin, DollarSign, Loader2, Sparkles, AlertTriangle, Search, CheckCircle, RefreshCw, Filter, Users, Eye, Plus, X } from 'lucide-react';
-import { Job, JobMatchResult, ResumeAnalysis, UserRole, Application } from '../types';
-import { analyzeJobMatch, generateTailoredJobs } from '../services/gemini';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Briefcase, MapPin, DollarSign, Loader2, Sparkles, AlertTriangle, Search, CheckCircle, RefreshCw, Filter, Users, Eye, Plus, X, ShieldCheck, FileCheck } from 'lucide-react';
+import { Job, JobMatchResult, JobStatus, ResumeAnalysis, ResumeDraft, SavedResume, UserRole, Application, ActivityKind, ActivityMetadata } from '../types';
+import { analyzeJobMatch, generateTailoredJobs, toAiError, AI_ERROR_TITLES, AiError } from '../services/gemini';
+import { isPublished } from '../services/data';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, Button, Badge, Input, Textarea } from './ui/DesignSystem';
 import { cn, containerVariants, itemVariants } from '../lib/utils';
+import InjectionWarningNotice from './InjectionWarningNotice';
+import ResumeTailor from './ResumeTailor';
 
 interface JobsProps {
   resumeAnalysis: ResumeAnalysis | null;
-  onActivity: (title: string, meta: string) => void;
-  jobs: Job[];
-  setJobs: React.Dispatch<React.SetStateAction<Job[]>>;
+  onActivity: (kind: ActivityKind, meta: string, metadata?: ActivityMetadata) => void;
+  // Employers: the jobs they manage. Candidates: published jobs, shown above their matches.
+  postedJobs: Job[];
+  tailoredJobs: Job[];
+  onTailoredJobs: (jobs: Job[]) => void;
   onApply: (job: Job) => void;
   appliedJobIds: Set<string>;
+  // Candidates: the resume tailored variants start from, and the variants saved so far
+  baseResume?: SavedResume;
+  tailoredResumes?: SavedResume[];
+  onSaveTailoredResume?: (job: Job, analysis: ResumeAnalysis, draft: ResumeDraft, pdf: Blob) => void;
   userRole?: UserRole;
   applications?: Application[];
   onPostJob?: (job: Job) => void;
   onUpdateJob?: (job: Job) => void;
   postJobIntent?: boolean;
   onClearPostJobIntent?: () => void;
+  // The job a link points at; it's scrolled to and highlighted
+  selectedJobId?: string;
+  onSelectJob?: (id: string) => void;
 }
 
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  published: 'Published',
+  draft: 'Draft',
+  closed: 'Closed'
+};
+
+const JOB_STATUS_HINTS: Record<JobStatus, string> = {
+  published: 'visible to candidates',
+  draft: 'only you and your organization',
+  closed: 'hidden, no new applicants'
+};
+
 const Jobs: React.FC<JobsProps> = ({ 
     resumeAnalysis, 
     onActivity, 
-    jobs, 
-    setJobs, 
+    postedJobs,
+    tailoredJobs,
+    onTailoredJobs,
     onApply, 
     appliedJobIds, 
+    baseResume,
+    tailoredResumes = [],
+    onSaveTailoredResume,
     userRole = 'candidate', 
     applications = [], 
     onPostJob,
     onUpdateJob,
     postJobIntent,
-    onClearPostJobIntent
+    onClearPostJobIntent,
+    selectedJobId,
+    onSelectJob
 }) => {
   const [analyzingId, setAnalyzingId] = useState<string | null>(null);
   const [matches, setMatches] = useState<Record<string, JobMatchResult>>({});
@@ -41,6 +71,8 @@ const Jobs: React.FC<JobsProps> = ({
   const [filterType, setFilterType] = useState('All');
   const [isGeneratingJobs, setIsGeneratingJobs] = useState(false);
   const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [aiError, setAiError] = useState<AiError | null>(null);
+  const requestsRef = useRef<Set<AbortController>>(new Set());
   
   // Employer Job Posting/Editing State
   const [isPosting, setIsPosting] = useState(false);
@@ -57,6 +89,29 @@ const Jobs: React.FC<JobsProps> = ({
   const [reqInput, setReqInput] = useState('');
 
   const isEmployer = userRole === 'employer';
+  const jobs = useMemo(() => isEmployer ? postedJobs : [...postedJobs, ...tailoredJobs], [isEmployer, postedJobs, tailoredJobs]);
+
+  // Cancel in-flight AI requests when navigating away
+  useEffect(() => {
+    const requests = requestsRef.current;
+    return () => {
+      requests.forEach(controller => controller.abort());
+      requests.clear();
+    };
+  }, []);
+
+  const startRequest = () => {
+    const controller = new AbortController();
+    requestsRef.current.add(controller);
+    return controller;
+  };
+
+  const handleAiError = (error: unknown) => {
+    const err = toAiError(error);
+    if (err.kind === 'cancelled') return;
+    console.error(err);
+    setAiError(err);
+  };
 
   // Handle external post job intent from Dashboard
   useEffect(() => {
@@ -68,9 +123,16 @@ const Jobs: React.FC<JobsProps> = ({
     }
   }, [postJobIntent, onClearPostJobIntent]);
 
+  const selectedJobListed = !!selectedJobId && jobs.some(job => job.id === selectedJobId);
+  useEffect(() => {
+    if (selectedJobListed) {
+      document.getElementById(`job-${selectedJobId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [selectedJobId, selectedJobListed]);
+
   // Initial generation only if empty and user is candidate
   useEffect(() => {
-    if (!isEmployer && resumeAnalysis && jobs.length === 0 && !isGeneratingJobs) {
+    if (!isEmployer && resumeAnalysis && tailoredJobs.length === 0 && !isGeneratingJobs) {
       handleGenerateJobs();
     }
   }, [resumeAnalysis, isEmployer]);
@@ -78,22 +140,19 @@ const Jobs: React.FC<JobsProps> = ({
   const handleGenerateJobs = async () => {
     if (!resumeAnalysis) return;
     setIsGeneratingJobs(true);
+    setAiError(null);
+    const controller = startRequest();
     // Don't clear immediately to keep UI stable
     try {
-      const tailoredJobs = await generateTailoredJobs(resumeAnalysis.summary, resumeAnalysis.skills || []);
-      
-      // Merge with Global Jobs (Employer Posted)
-      const globalJobsStr = localStorage.getItem('carrerx_global_jobs');
-      const globalJobs: Job[] = globalJobsStr ? JSON.parse(globalJobsStr) : [];
-      
-      // We prioritize Global jobs, then new tailored AI jobs
-      setJobs([...globalJobs, ...tailoredJobs]);
-      
-      onActivity("Job Search", `Found ${tailoredJobs.length} roles`);
+      const generated = await generateTailoredJobs(resumeAnalysis.summary, resumeAnalysis.skills || [], { signal: controller.signal });
+      // Employer-posted jobs stay listed first; these replace the previous matches
+      onTailoredJobs(generated);
+      onActivity('jobs_generated', `Found ${generated.length} roles`, { count: generated.length });
     } catch (error) {
-      console.error(error);
+      handleAiError(error);
     } finally {
-      setIsGeneratingJobs(false);
+      requestsRef.current.delete(controller);
+      if (!controller.signal.aborted) setIsGeneratingJobs(false);
     }
   };
 
@@ -112,17 +171,21 @@ const Jobs: React.FC<JobsProps> = ({
     return result;
   }, [jobs, searchQuery, filterType]);
 
-  const handleAnalyzeFit = async (job: Job) => {
+  // forceRefresh bypasses the response cache to get a fresh fit score
+  const handleAnalyzeFit = async (job: Job, forceRefresh = false) => {
     if (!resumeAnalysis) return;
     setAnalyzingId(job.id);
+    setAiError(null);
+    const controller = startRequest();
     try {
-      const result = await analyzeJobMatch(resumeAnalysis.summary, resumeAnalysis.skills || [], job.description);
+      const result = await analyzeJobMatch(resumeAnalysis.summary, resumeAnalysis.skills || [], job.description, resumeAnalysis.parsed, { signal: controller.signal, forceRefresh, privacy: job.privacyRequired });
       setMatches(prev => ({ ...prev, [job.id]: result }));
-      onActivity("Job Analysis", `Analyzed ${job.company}`);
+      onActivity('job_analyzed', `Analyzed ${job.company}`, { jobId: job.id, score: result.matchScore });
     } catch (error) {
-      console.error(error);
+      handleAiError(error);
     } finally {
-      setAnalyzingId(null);
+      requestsRef.current.delete(controller);
+      if (!controller.signal.aborted) setAnalyzingId(null);
     }
   };
 
@@ -151,7 +214,9 @@ const Jobs: React.FC<JobsProps> = ({
         salary: job.salary,
         type: job.type,
         description: job.description,
-        requirements: job.requirements
+        requirements: job.requirements,
+        privacyRequired: job.privacyRequired,
+        status: job.status
     });
     setIsPosting(true);
   };
@@ -171,7 +236,9 @@ const Jobs: React.FC<JobsProps> = ({
                     salary: newJob.salary || 'Competitive',
                     type: newJob.type || 'Full-time',
                     description: newJob.description || '',
-                    requirements: newJob.requirements || []
+                    requirements: newJob.requirements || [],
+                    privacyRequired: !!newJob.privacyRequired,
+                    status: newJob.status || 'published'
                 };
                 onUpdateJob(jobToUpdate);
             }
@@ -186,7 +253,9 @@ const Jobs: React.FC<JobsProps> = ({
                  type: newJob.type || 'Full-time',
                  description: newJob.description || '',
                  requirements: newJob.requirements || [],
-                 postedAt: 'Just now'
+                 postedAt: 'Just now',
+                 privacyRequired: !!newJob.privacyRequired,
+                 status: newJob.status || 'published'
              });
         }
         setIsPosting(false);
@@ -282,6 +351,32 @@ const Jobs: React.FC<JobsProps> = ({
                    </div>
                 </div>
 
+                <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!newJob.privacyRequired}
+                    onChange={e => setNewJob({...newJob, privacyRequired: e.target.checked})}
+                    className="mt-0.5 w-4 h-4 accent-purple-600"
+                  />
+                  <span>
+                    <span className="text-sm font-semibold text-slate-700 block">Require privacy mode</span>
+                    <span className="text-xs text-slate-500">Candidates' emails, phone numbers, addresses and names are masked before any AI analysis for this job.</span>
+                  </span>
+                </label>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-slate-700">Status</label>
+                  <select
+                    className="flex h-11 w-full rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm focus:ring-2 focus:ring-brand-500/20 outline-none"
+                    value={newJob.status || 'published'}
+                    onChange={e => setNewJob({...newJob, status: e.target.value as JobStatus})}
+                  >
+                    {(Object.keys(JOB_STATUS_LABELS) as JobStatus[]).filter(status => editingJobId || status !== 'closed').map(status => (
+                      <option key={status} value={status}>{JOB_STATUS_LABELS[status]} – {JOB_STATUS_HINTS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="pt-4 flex justify-end gap-3">
                   <Button type="button" variant="ghost" onClick={() => setIsPosting(false)}>Cancel</Button>
                   <Button type="submit" variant="primary" className="bg-purple-600 hover:bg-purple-700">{editingJobId ? 'Update Listing' : 'Create Listing'}</Button>
@@ -301,7 +396,7 @@ const Jobs: React.FC<JobsProps> = ({
             </h2>
             <p className="text-slate-500">
               {isEmployer 
-                ? `You have ${jobs.length} active listings.` 
+                ? `You have ${jobs.filter(isPublished).length} active listings.` 
                 : `Curated opportunities based on your ${resumeAnalysis?.skills?.length || 0} skills.`
               }
             </p>
@@ -343,6 +438,17 @@ const Jobs: React.FC<JobsProps> = ({
         </div>
       </div>
 
+      {aiError && (
+        <div className="flex items-start gap-3 p-4 rounded-xl border border-red-200 bg-red-50 text-red-700 text-sm">
+          <AlertTriangle className="w-5 h-5 flex-none mt-0.5" />
+          <div className="flex-1">
+            <p className="font-bold">{AI_ERROR_TITLES[aiError.kind]}</p>
+            <p>{aiError.message}</p>
+          </div>
+          <button onClick={() => setAiError(null)} className="text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+        </div>
+      )}
+
       {/* Jobs List */}
       <div className="space-y-4">
         {isGeneratingJobs ? (
@@ -359,13 +465,15 @@ const Jobs: React.FC<JobsProps> = ({
           filteredAndSortedJobs.map((job) => {
             const applicantCount = applications.filter(a => a.jobId === job.id).length;
             return (
-              <motion.div key={job.id} variants={itemVariants}>
-                <Card className="hover:border-brand-300 hover:shadow-md transition-all group overflow-hidden border-l-4 border-l-transparent hover:border-l-brand-500">
+              <motion.div key={job.id} id={`job-${job.id}`} variants={itemVariants}>
+                <Card className={cn("hover:border-brand-300 hover:shadow-md transition-all group overflow-hidden border-l-4 border-l-transparent hover:border-l-brand-500", job.id === selectedJobId && "border-brand-300 border-l-brand-500 ring-2 ring-brand-500/20")}>
                   <div className="p-6">
                     <div className="flex flex-col md:flex-row gap-6">
                       <div className="flex-1 space-y-3">
                         <div>
-                          <h3 className="text-lg font-bold text-slate-900 group-hover:text-brand-600 transition-colors font-display">{job.title}</h3>
+                          <h3 className="text-lg font-bold text-slate-900 group-hover:text-brand-600 transition-colors font-display">
+                            <button type="button" onClick={() => onSelectJob?.(job.id)} className="text-left hover:underline" title="Link to this job">{job.title}</button>
+                          </h3>
                           <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-500 mt-1">
                             <span className="font-semibold text-slate-700">{job.company}</span>
                             <span className="w-1 h-1 rounded-full bg-slate-300" />
@@ -384,6 +492,11 @@ const Jobs: React.FC<JobsProps> = ({
                             <Badge key={i} variant="neutral" className="bg-slate-100 text-slate-600">{r}</Badge>
                           ))}
                           <Badge variant="brand" className="bg-brand-50 text-brand-700 border-brand-100">{job.type}</Badge>
+                          {job.privacyRequired && (
+                            <Badge variant="info" className="gap-1" title="Personal details are masked before AI analysis for this job">
+                              <ShieldCheck className="w-3 h-3" /> Privacy mode
+                            </Badge>
+                          )}
                         </div>
                       </div>
 
@@ -395,9 +508,17 @@ const Jobs: React.FC<JobsProps> = ({
                                <div className="text-2xl font-bold text-slate-900">{applicantCount}</div>
                                <div className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Applicants</div>
                             </div>
+                            <Badge variant={job.status === 'draft' ? 'warning' : job.status === 'closed' ? 'neutral' : 'success'} className="self-center md:self-end">
+                              {JOB_STATUS_LABELS[job.status || 'published']}
+                            </Badge>
                             <Button variant="outline" size="sm" className="w-full" onClick={() => handleEditClick(job)}>
                                <Eye className="w-4 h-4 mr-2" /> Edit Job
                             </Button>
+                            {onUpdateJob && (
+                              <Button variant="ghost" size="sm" className="w-full" onClick={() => onUpdateJob({ ...job, status: isPublished(job) ? 'closed' : 'published' })}>
+                                {isPublished(job) ? 'Close Listing' : job.status === 'draft' ? 'Publish' : 'Reopen'}
+                              </Button>
+                            )}
                           </div>
                         ) : (
                           // CANDIDATE ACTIONS
@@ -410,7 +531,17 @@ const Jobs: React.FC<JobsProps> = ({
                                 "bg-red-50 border-red-100 text-red-700"
                               )}>
                                 <span className="text-3xl font-bold tracking-tight">{matches[job.id].matchScore}%</span>
-                                <span className="text-[10px] uppercase font-bold tracking-wider opacity-80">Fit Score</span>
+                                <span className="text-[10px] uppercase font-bold tracking-wider opacity-80 flex items-center gap-1">
+                                  {matches[job.id].injectionWarning && <AlertTriangle className="w-3 h-3 text-amber-600" />} Fit Score
+                                </span>
+                                <button
+                                  onClick={() => handleAnalyzeFit(job, true)}
+                                  disabled={analyzingId === job.id}
+                                  title="Re-run the analysis instead of using the cached score"
+                                  className="mt-1 text-[10px] font-semibold flex items-center gap-1 opacity-70 hover:opacity-100 disabled:opacity-40"
+                                >
+                                  <RefreshCw className={cn("w-3 h-3", analyzingId === job.id && "animate-spin")} /> Re-check
+                                </button>
                               </div>
                             ) : (
                               <Button onClick={() => handleAnalyzeFit(job)} disabled={analyzingId === job.id} variant="primary" className="w-full">
@@ -433,6 +564,11 @@ const Jobs: React.FC<JobsProps> = ({
                                 "Apply Now"
                               )}
                             </Button>
+                            {!appliedJobIds.has(job.id) && tailoredResumes.some(r => r.jobId === job.id) && (
+                              <span className="text-[10px] font-semibold text-emerald-700 flex items-center gap-1" title="Your resume tailored to this job is sent with the application">
+                                <FileCheck className="w-3 h-3" /> Tailored resume
+                              </span>
+                            )}
                           </>
                         )}
                       </div>
@@ -441,6 +577,9 @@ const Jobs: React.FC<JobsProps> = ({
 
                   {!isEmployer && matches[job.id] && (
                     <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} className="bg-slate-50 border-t border-slate-200 px-6 py-4">
+                      {matches[job.id].injectionWarning && (
+                        <InjectionWarningNotice warning={matches[job.id].injectionWarning!} className="mb-4" />
+                      )}
                       <div className="grid md:grid-cols-2 gap-6 text-sm">
                         <div>
                           <h4 className="font-bold text-emerald-700 text-xs uppercase tracking-wide mb-2">Why you're a match</h4>
@@ -459,6 +598,15 @@ const Jobs: React.FC<JobsProps> = ({
                           </ul>
                         </div>
                       </div>
+                      {onSaveTailoredResume && (
+                        <ResumeTailor
+                          job={job}
+                          baseResume={baseResume}
+                          missingKeywords={matches[job.id].missingKeywords}
+                          tailoredResume={tailoredResumes.find(r => r.jobId === job.id)}
+                          onSave={onSaveTailoredResume}
+                        />
+                      )}
                     </motion.div>
                   )}
                 </Card>
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
-import { Search, Globe, ArrowRight, BookOpen, Loader2 } from 'lucide-react';
-import { getMarketInsights } from '../services/gemini';
+import React, { useState, useRef, useEffect } from 'react';
+import { Search, Globe, ArrowRight, BookOpen, Loader2, Square } from 'lucide-react';
+import { streamMarketInsights, toAiError } from '../services/gemini';
 import { InsightResult } from '../types';
 import ReactMarkdown from 'react-markdown';
 import { motion } from 'framer-motion';
@@ -12,19 +12,44 @@ const MarketInsights: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<InsightResult | null>(null);
 
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!query.trim()) return;
     setLoading(true);
     setResult(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let text = '';
+    let sources: InsightResult['sources'] = [];
     try {
-      const data = await getMarketInsights(query);
-      setResult(data);
+      for await (const chunk of streamMarketInsights(query, { signal: controller.signal })) {
+        text += chunk.text;
+        // Grounding sources arrive with later chunks; keep each link once
+        chunk.sources?.forEach(source => {
+          if (!sources.some(s => s.uri === source.uri)) sources = [...sources, source];
+        });
+        setResult({ text, sources });
+      }
+      if (!text) setResult({ text: "No insights found.", sources });
+    } catch (error) {
+      const aiError = toAiError(error);
+      // Stopping keeps the partial answer
+      if (aiError.kind !== 'cancelled') {
+        setResult({ text: (text ? text + "\n\n" : "") + "I couldn't access market data at the moment. " + aiError.message, sources });
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
   return (
     <motion.div variants={containerVariants} initial="hidden" animate="visible" className="max-w-4xl mx-auto flex flex-col h-full min-h-[500px]">
       <div className="text-center mb-10 space-y-3">
@@ -43,9 +68,15 @@ const MarketInsights: React.FC = () => {
             className="w-full bg-white border border-slate-300 text-slate-900 pl-12 pr-32 py-4 rounded-xl shadow-lg shadow-slate-200/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all text-lg placeholder:text-slate-400"
           />
           <div className="absolute right-2 top-2 bottom-2">
-            <Button type="submit" disabled={loading || !query.trim()} className="h-full rounded-lg px-6 shadow-md shadow-brand-600/20">
-              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Research"}
-            </Button>
+            {loading ? (
+              <Button type="button" variant="outline" onClick={handleStop} className="h-full rounded-lg px-4">
+                <Loader2 className="w-4 h-4 animate-spin mr-2" /> <Square className="w-3.5 h-3.5 mr-1 fill-current" /> Stop
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!query.trim()} className="h-full rounded-lg px-6 shadow-md shadow-brand-600/20">
+                Research
+              </Button>
+            )}
           </div>
         </div>
       </form>
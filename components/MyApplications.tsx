@@ -4,15 +4,17 @@ import { Application, Job, UserRole } from '../types';
 import { motion } from 'framer-motion';
 import { Card, Badge, Button } from './ui/DesignSystem';
 import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { isOwnApplication } from '../services/data';
+import StatusHistory from './StatusHistory';
 
 interface MyApplicationsProps {
   applications: Application[];
   jobs: Job[];
-  userEmail: string;
+  user: { id: string; email: string };
 }
 
-const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, userEmail }) => {
-  const myApps = applications.filter(app => app.candidateEmail === userEmail);
+const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, user }) => {
+  const myApps = applications.filter(app => isOwnApplication(app, user));
 
   return (
     <motion.div variants={containerVariants} initial="hidden" animate="visible" className="space-y-6 max-w-5xl mx-auto">
@@ -136,6 +138,8 @@ const MyApplications: React.FC<MyApplicationsProps> = ({ applications, jobs, use
                               <p>Application sent. Waiting for review.</p>
                            </div>
                         )}
+
+                        <StatusHistory application={app} className="mt-1" />
                       </div>
 
                     </div>
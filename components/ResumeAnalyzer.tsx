@@ -1,43 +1,80 @@
-import React, { useState } from 'react';
-import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Award, Zap, TrendingUp, Lightbulb, ChevronRight, Hash, Clock, File } from 'lucide-react';
-import { analyzeResume, generateImprovementExample } from '../services/gemini';
-import { ResumeAnalysis, SavedResume } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Award, Zap, TrendingUp, Lightbulb, ChevronRight, Hash, Clock, File, RefreshCw, Pin, GitCompare, PenLine } from 'lucide-react';
+import { analyzeResume, parseResume, generateImprovementExample, toAiError, AI_ERROR_TITLES, AiError } from '../services/gemini';
+import { ParsedResume, ResumeAnalysis, ResumeFile, SavedResume } from '../types';
 import { Button, Card } from './ui/DesignSystem';
 import { cn } from '../lib/utils';
+import { blobToBase64 } from '../lib/files';
+import { RESUME_ACCEPT, RESUME_FORMAT_SUMMARY, resumeFormatOf, validateResumeFile } from '../lib/resumeFormats';
+import { resumeVersionName } from '../lib/resumeVersions';
+import { getRepositories, reportRepositoryError } from '../services/data';
+import InjectionWarningNotice from './InjectionWarningNotice';
+import ResumeReview from './ResumeReview';
 
 interface ResumeAnalyzerProps {
   analysisResult: ResumeAnalysis | null;
-  onAnalysisComplete: (result: ResumeAnalysis) => void;
-  onActivity: (title: string, meta: string) => void;
+  // upload is set when a new file was analyzed, for the caller to store
+  onAnalysisComplete: (result: ResumeAnalysis, upload?: Blob) => void;
   savedResumes?: SavedResume[];
   onLoadResume?: (resume: SavedResume) => void;
+  // Saves corrected or newly extracted details for the resume being viewed
+  onUpdateParsed?: (parsed: ParsedResume) => void;
+  // Opens the score trend and version comparison
+  onOpenHistory?: () => void;
+  // Opens the resume being viewed in the builder
+  onOpenBuilder?: () => void;
 }
 
 const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({ 
   analysisResult, 
   onAnalysisComplete, 
-  onActivity, 
   savedResumes = [], 
-  onLoadResume 
+  onLoadResume,
+  onUpdateParsed,
+  onOpenHistory,
+  onOpenBuilder
 }) => {
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AiError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Parsing failures don't stop the analysis; the details can be extracted again later
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const exampleAbortRef = useRef<AbortController | null>(null);
   
   // Interactive example state
   const [activeExampleIndex, setActiveExampleIndex] = useState<number | null>(null);
   const [exampleLoading, setExampleLoading] = useState(false);
   const [examples, setExamples] = useState<Record<number, string>>({});
 
+  // Cancel any in-flight AI request when leaving the page
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      exampleAbortRef.current?.abort();
+    };
+  }, []);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
-      setFile(selectedFile);
+      // Lets the same file be picked again after fixing it
+      e.target.value = '';
       setExamples({});
       setActiveExampleIndex(null);
       setError(null);
 
+      const invalid = validateResumeFile(selectedFile);
+      if (invalid) {
+        setFile(null);
+        setPreview(null);
+        setError(new AiError('unsupported-file', invalid));
+        return;
+      }
+      setFile(selectedFile);
+
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreview(reader.result as string);
@@ -46,33 +83,89 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
     }
   };
 
-  const handleAnalyze = async () => {
-    if (!file || !preview) return;
-    
+  const parseDetails = (base64: string, resumeFile: ResumeFile, signal: AbortSignal, forceRefresh = false) =>
+    parseResume(base64, resumeFile.type, { signal, forceRefresh, fileName: resumeFile.name }).catch(err => {
+      const aiError = toAiError(err);
+      if (aiError.kind === 'cancelled') throw aiError;
+      setParseError(aiError.message);
+      return undefined;
+    });
+
+  // forceRefresh bypasses the response cache to get a fresh score. Details the candidate
+  // already reviewed are kept instead of being parsed again.
+  const runAnalysis = async (base64: string, resumeFile: ResumeFile, upload?: Blob, forceRefresh = false, reviewed?: ParsedResume) => {
     setIsAnalyzing(true);
     setError(null);
+    setParseError(null);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
-      const base64Data = preview.split(',')[1];
-      const analysis = await analyzeResume(base64Data, file.type);
+      const [analysis, parsed] = await Promise.all([
+        analyzeResume(base64, resumeFile.type, { signal: controller.signal, forceRefresh, fileName: resumeFile.name }),
+        reviewed ?? parseDetails(base64, resumeFile, controller.signal, forceRefresh)
+      ]);
       
       const fullAnalysis: ResumeAnalysis = {
         ...analysis,
-        file: {
-            name: file.name,
-            type: file.type,
-            size: file.size,
-            data: base64Data
-        }
+        file: resumeFile,
+        parsed
       };
 
-      onAnalysisComplete(fullAnalysis);
-      onActivity("Resume Analysis", `Scored ${analysis.score}/100`);
+      onAnalysisComplete(fullAnalysis, upload);
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to analyze resume. Please ensure it's a clear file.");
+      const aiError = toAiError(err);
+      if (aiError.kind === 'cancelled') return;
+      setError(aiError);
     } finally {
-      setIsAnalyzing(false);
+      if (!controller.signal.aborted) setIsAnalyzing(false);
+    }
+  };
+
+  const handleAnalyze = () => {
+    if (!file || !preview) return;
+    // Stored under the format's own type; browsers often give Markdown and RTF none
+    const type = resumeFormatOf(file)!.mimeType;
+    runAnalysis(preview.split(',')[1], {
+      name: file.name,
+      type,
+      size: file.size
+    }, file.slice(0, file.size, type));
+  };
+
+  const handleReanalyze = async () => {
+    if (!analysisResult?.file) return;
+    setExamples({});
+    setActiveExampleIndex(null);
+    let stored: Blob;
+    try {
+      stored = await getRepositories().files.read(analysisResult.file);
+    } catch (err) {
+      reportRepositoryError(err);
+      return;
+    }
+    const reviewed = analysisResult.parsed?.reviewedAt ? analysisResult.parsed : undefined;
+    runAnalysis(await blobToBase64(stored), analysisResult.file, undefined, true, reviewed);
+  };
+
+  // For resumes analyzed before parsing existed, or whose parse failed
+  const handleExtractDetails = async () => {
+    if (!analysisResult?.file || !onUpdateParsed) return;
+    setIsExtracting(true);
+    setParseError(null);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const stored = await getRepositories().files.read(analysisResult.file);
+      const parsed = await parseDetails(await blobToBase64(stored), analysisResult.file, controller.signal);
+      if (parsed) onUpdateParsed(parsed);
+    } catch (err) {
+      if (toAiError(err).kind === 'cancelled') return;
+      reportRepositoryError(err);
+    } finally {
+      if (!controller.signal.aborted) setIsExtracting(false);
     }
   };
 
@@ -85,13 +178,17 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
     setActiveExampleIndex(index);
     if (!examples[index]) {
       setExampleLoading(true);
+      exampleAbortRef.current?.abort();
+      const controller = new AbortController();
+      exampleAbortRef.current = controller;
       try {
-        const example = await generateImprovementExample(improvement, analysisResult?.summary || "General Context");
+        const example = await generateImprovementExample(improvement, analysisResult?.summary || "General Context", { signal: controller.signal });
         setExamples(prev => ({ ...prev, [index]: example }));
       } catch (err) {
+        if (toAiError(err).kind === 'cancelled') return;
         setExamples(prev => ({ ...prev, [index]: "Could not generate example." }));
       } finally {
-        setExampleLoading(false);
+        if (!controller.signal.aborted) setExampleLoading(false);
       }
     }
   };
@@ -102,11 +199,16 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
       {/* LEFT SIDEBAR: Saved Resumes */}
       <div className="w-full lg:w-72 flex-none space-y-4">
          <Card className="h-full bg-white border-slate-200 p-0 overflow-hidden flex flex-col max-h-[600px] lg:max-h-full">
-            <div className="p-4 border-b border-slate-100 bg-slate-50">
+            <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
                <h3 className="font-bold text-slate-900 flex items-center gap-2">
                  <Clock className="w-4 h-4 text-slate-500" />
                  History
                </h3>
+               {onOpenHistory && savedResumes.length > 1 && (
+                 <button onClick={onOpenHistory} className="text-xs font-medium text-slate-500 hover:text-brand-600 flex items-center gap-1">
+                   <GitCompare className="w-3.5 h-3.5" /> Compare
+                 </button>
+               )}
             </div>
             <div className="overflow-y-auto flex-1 p-2 space-y-1">
                {savedResumes.length === 0 ? (
@@ -132,7 +234,10 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                              <File className="w-4 h-4" />
                           </div>
                           <div className="min-w-0">
-                             <p className="font-semibold truncate">{resume.data.file?.name || "Resume"}</p>
+                             <p className="font-semibold truncate flex items-center gap-1">
+                               {resume.pinned && <Pin className="w-3 h-3 flex-none text-brand-600" aria-label="Default resume" />}
+                               <span className="truncate">{resumeVersionName(resume)}</span>
+                             </p>
                              <p className="text-xs opacity-70 mt-0.5">
                                {new Date(resume.created_at).toLocaleDateString()}
                              </p>
@@ -144,6 +249,11 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                                 )}>
                                   Score: {resume.data.score}
                                 </span>
+                                {resume.promptVersion && (
+                                  <span className="text-[10px] text-slate-400" title={`Scored with prompt ${resume.promptVersion}`}>
+                                    {resume.promptVersion.split('@')[1] ? `v${resume.promptVersion.split('@')[1]}` : resume.promptVersion}
+                                  </span>
+                                )}
                              </div>
                           </div>
                        </div>
@@ -170,19 +280,19 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
               type="file"
               id="resume-upload"
               className="hidden"
-              accept="image/png, image/jpeg, image/jpg, application/pdf"
+              accept={RESUME_ACCEPT}
               onChange={handleFileChange}
             />
             <label htmlFor="resume-upload" className="cursor-pointer flex flex-col items-center gap-4">
               {preview ? (
                 <div className="relative group-hover:opacity-90 transition-opacity">
-                  {file?.type === 'application/pdf' ? (
+                  {file && !file.type.startsWith('image/') ? (
                     <div className="w-64 h-64 bg-slate-950 rounded-lg border border-slate-700 flex flex-col items-center justify-center p-4 shadow-lg">
                       <FileText className="w-16 h-16 text-red-500 mb-4" />
                       <p className="text-sm font-medium text-slate-300 text-center break-all line-clamp-3">
                         {file.name}
                       </p>
-                      <p className="text-xs text-slate-500 mt-2">PDF Document</p>
+                      <p className="text-xs text-slate-500 mt-2">{resumeFormatOf(file)?.label} Document</p>
                     </div>
                   ) : (
                     <img src={preview} alt="Resume Preview" className="h-64 object-contain shadow-lg rounded-lg border border-slate-800" />
@@ -200,7 +310,7 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
               {!preview && (
                 <>
                   <h3 className="text-xl font-semibold text-white">Click to Upload Resume</h3>
-                  <p className="text-slate-500 text-sm">Supports PDF, JPG, PNG (Max 5MB)</p>
+                  <p className="text-slate-500 text-sm">Supports {RESUME_FORMAT_SUMMARY} (Max 5MB; text and Markdown 1MB)</p>
                 </>
               )}
             </label>
@@ -226,8 +336,8 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
             
             {error && (
                 <div className="mt-6 p-4 bg-red-900/20 border border-red-500/50 rounded-xl text-red-200 text-sm max-w-lg mx-auto">
-                    <p className="font-bold flex items-center justify-center gap-2 mb-1"><AlertCircle className="w-4 h-4" /> Analysis Failed</p>
-                    <p>{error}</p>
+                    <p className="font-bold flex items-center justify-center gap-2 mb-1"><AlertCircle className="w-4 h-4" /> {AI_ERROR_TITLES[error.kind]}</p>
+                    <p>{error.message || "Failed to analyze resume. Please ensure it's a clear file."}</p>
                 </div>
             )}
           </div>
@@ -237,7 +347,29 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
             
             {/* Action Bar for New Upload */}
-            <div className="flex justify-end">
+            <div className="flex flex-wrap items-center justify-end gap-3">
+               {error && (
+                 <p className="text-sm text-red-600 flex items-center gap-1 mr-auto">
+                   <AlertCircle className="w-4 h-4" /> {AI_ERROR_TITLES[error.kind]}: {error.message}
+                 </p>
+               )}
+               {analysisResult.file && (
+                 <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleReanalyze}
+                    isLoading={isAnalyzing}
+                    className="gap-2"
+                    title="Ignore the cached result and score this file again"
+                 >
+                   {!isAnalyzing && <RefreshCw className="w-4 h-4" />} Re-analyze
+                 </Button>
+               )}
+               {onOpenBuilder && (
+                 <Button variant="outline" size="sm" onClick={onOpenBuilder} className="gap-2">
+                   <PenLine className="w-4 h-4" /> Edit in Builder
+                 </Button>
+               )}
                <Button 
                   variant="outline" 
                   size="sm"
@@ -253,6 +385,10 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                </Button>
             </div>
 
+            {analysisResult.injectionWarning && (
+              <InjectionWarningNotice warning={analysisResult.injectionWarning} tone="dark" />
+            )}
+
             {/* Score Card */}
             <div className="bg-slate-900 rounded-2xl shadow-sm border border-slate-800 p-6 flex flex-col md:flex-row gap-8 items-center">
               <div className="flex-none relative w-32 h-32 flex items-center justify-center">
@@ -374,6 +510,18 @@ const ResumeAnalyzer: React.FC<ResumeAnalyzerProps> = ({
                 </div>
               </div>
 
+              {onUpdateParsed && (
+                <div className="md:col-span-2">
+                  <ResumeReview
+                    key={analysisResult.file?.id ?? analysisResult.summary}
+                    parsed={analysisResult.parsed}
+                    onExtract={analysisResult.file ? handleExtractDetails : undefined}
+                    isExtracting={isExtracting}
+                    error={parseError}
+                    onSave={onUpdateParsed}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,513 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, Plus, Trash2, Wand2, Loader2, FileDown, RefreshCw, Check, X, LayoutTemplate, FilePenLine, AlertCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { ResumeAnalysis, ResumeDraft, ResumeSection, ResumeTemplate, SavedResume } from '../types';
+import { Card, Button, Input, Textarea } from './ui/DesignSystem';
+import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { RESUME_SECTIONS, RESUME_TEMPLATES, ResumeBlock, createDraft, draftToText, resumeBlocks } from '../lib/resumeDocument';
+import { exportResumeDocx, exportResumePdf, resumeFileName } from '../lib/resumeExport';
+import { resumeVersionName } from '../lib/resumeVersions';
+import { analyzeResumeText, rewriteBullet, toAiError, AI_ERROR_TITLES, AiError } from '../services/gemini';
+
+interface ResumeBuilderProps {
+  // The saved version being edited; missing until a resume has been analyzed
+  resume?: SavedResume;
+  onSaveDraft: (resume: SavedResume, draft: ResumeDraft) => void;
+  // The draft's new score, to be saved as a new version with the PDF as its file
+  onRescored: (analysis: ResumeAnalysis, draft: ResumeDraft, pdf: Blob) => void;
+}
+
+type EntrySection = 'experience' | 'education' | 'projects' | 'certifications';
+type Entry = Record<string, string | string[]>;
+
+const ENTRY_FIELDS: Record<EntrySection, { addLabel: string; fields: { name: string; label: string; placeholder?: string }[] }> = {
+  experience: {
+    addLabel: 'Add role',
+    fields: [
+      { name: 'title', label: 'Title' },
+      { name: 'company', label: 'Company' },
+      { name: 'location', label: 'Location' },
+      { name: 'startDate', label: 'Start', placeholder: 'e.g. Mar 2021' },
+      { name: 'endDate', label: 'End', placeholder: 'Present' }
+    ]
+  },
+  education: {
+    addLabel: 'Add education',
+    fields: [
+      { name: 'institution', label: 'Institution' },
+      { name: 'degree', label: 'Degree', placeholder: 'e.g. B.S.' },
+      { name: 'field', label: 'Field of study' },
+      { name: 'startDate', label: 'Start' },
+      { name: 'endDate', label: 'End' }
+    ]
+  },
+  projects: {
+    addLabel: 'Add project',
+    fields: [
+      { name: 'name', label: 'Name' },
+      { name: 'url', label: 'URL' },
+      { name: 'description', label: 'Description' }
+    ]
+  },
+  certifications: {
+    addLabel: 'Add certification',
+    fields: [
+      { name: 'name', label: 'Name' },
+      { name: 'issuer', label: 'Issuer' },
+      { name: 'date', label: 'Date' }
+    ]
+  }
+};
+
+const CONTACT_FIELDS: { name: keyof ResumeDraft['content']['contact']; label: string }[] = [
+  { name: 'name', label: 'Name' },
+  { name: 'headline', label: 'Headline' },
+  { name: 'email', label: 'Email' },
+  { name: 'phone', label: 'Phone' },
+  { name: 'location', label: 'Location' }
+];
+
+// Edits are saved to the version being edited once typing pauses
+const AUTOSAVE_MS = 1000;
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const bulletKey = (role: number, bullet: number) => `${role}:${bullet}`;
+
+// The draft as the exports will lay it out, at roughly the same proportions
+const Preview: React.FC<{ blocks: ResumeBlock[]; template: ResumeTemplate }> = ({ blocks, template }) => {
+  const spec = RESUME_TEMPLATES[template];
+  const pt = (size: number) => `${size * 1.1}px`;
+  return (
+    <div
+      className={cn("bg-white text-slate-900 shadow-lg border border-slate-200 rounded-sm", spec.font === 'serif' ? 'font-serif' : 'font-sans')}
+      style={{ padding: `${spec.margin * 0.55}px`, lineHeight: spec.lineHeight }}
+    >
+      {blocks.map((block, i) => {
+        switch (block.kind) {
+          case 'name':
+            return <p key={i} className={cn("font-bold", spec.nameAlign === 'center' && 'text-center')} style={{ fontSize: pt(spec.sizes.name) }}>{block.text}</p>;
+          case 'contact':
+            return <p key={i} className={cn("break-words", spec.nameAlign === 'center' && 'text-center')} style={{ fontSize: pt(spec.sizes.detail) }}>{block.text}</p>;
+          case 'heading':
+            return (
+              <p key={i} className={cn("font-bold mb-1", spec.headingRule && 'border-b border-slate-900')} style={{ fontSize: pt(spec.sizes.heading), marginTop: `${spec.sectionGap}px` }}>
+                {block.text}
+              </p>
+            );
+          case 'entry':
+            return (
+              <div key={i} className="flex justify-between gap-4 mt-1" style={{ fontSize: pt(spec.sizes.body) }}>
+                <span className="font-bold">{block.text}</span>
+                {block.aside && <span className="flex-none" style={{ fontSize: pt(spec.sizes.detail) }}>{block.aside}</span>}
+              </div>
+            );
+          case 'detail':
+            return <p key={i} style={{ fontSize: pt(spec.sizes.detail) }}>{block.text}</p>;
+          case 'paragraph':
+            return <p key={i} style={{ fontSize: pt(spec.sizes.body) }}>{block.text}</p>;
+          case 'bullet':
+            return (
+              <p key={i} className="flex gap-2 pl-1" style={{ fontSize: pt(spec.sizes.body) }}>
+                <span>•</span><span>{block.text}</span>
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+};
+
+// Edit a resume section by section, apply the analysis' improvements to bullets with
+// the AI, re-score the result and export it
+const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ resume, onSaveDraft, onRescored }) => {
+  const [draft, setDraft] = useState<ResumeDraft | null>(null);
+  const dirtyRef = useRef(false);
+  // Which bullet's improvement menu is open, which are being rewritten, and the rewrites
+  // waiting to be accepted
+  const [menuKey, setMenuKey] = useState<string | null>(null);
+  const [rewriting, setRewriting] = useState<Set<string>>(new Set());
+  const [suggestions, setSuggestions] = useState<Record<string, string>>({});
+  const [rewriteErrors, setRewriteErrors] = useState<Record<string, string>>({});
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  // The score before the last re-score, to show the difference
+  const [previousScore, setPreviousScore] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A new version (e.g. after re-scoring) starts from its own draft
+  useEffect(() => {
+    setDraft(resume ? structuredClone(resume.draft ?? createDraft(resume.data)) : null);
+    dirtyRef.current = false;
+    setSuggestions({});
+    setRewriteErrors({});
+    setMenuKey(null);
+  }, [resume?.id]);
+
+  useEffect(() => {
+    if (!draft || !resume || !dirtyRef.current) return;
+    const timer = setTimeout(() => {
+      dirtyRef.current = false;
+      onSaveDraft(resume, draft);
+    }, AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  if (!resume || !draft) {
+    return (
+      <motion.div variants={containerVariants} initial="hidden" animate="visible" className="max-w-3xl mx-auto">
+        <Card className="flex flex-col items-center justify-center p-12 bg-slate-50 border-dashed">
+          <div className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-sm mb-4">
+            <FilePenLine className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900">Nothing to Edit Yet</h3>
+          <p className="text-slate-500 text-center max-w-sm mt-2">Analyze a resume first; the builder starts from the details extracted from it.</p>
+        </Card>
+      </motion.div>
+    );
+  }
+
+  const update = (change: (draft: ResumeDraft) => ResumeDraft) => {
+    dirtyRef.current = true;
+    setDraft(prev => prev && { ...change(prev), updatedAt: new Date().toISOString() });
+  };
+
+  const updateContent = (section: EntrySection | 'links', entries: Entry[]) =>
+    update(d => ({ ...d, content: { ...d.content, [section]: entries } }));
+
+  const entriesOf = (section: EntrySection | 'links') => draft.content[section] as unknown as Entry[];
+
+  const moveSection = (index: number, offset: -1 | 1) =>
+    update(d => {
+      const order = [...d.sectionOrder];
+      [order[index], order[index + offset]] = [order[index + offset], order[index]];
+      return { ...d, sectionOrder: order };
+    });
+
+  const setBullet = (role: number, bullet: number, text: string) => {
+    const roles = entriesOf('experience');
+    updateContent('experience', roles.map((entry, i) => i === role
+      ? { ...entry, bullets: (entry.bullets as string[]).map((b, j) => j === bullet ? text : b) }
+      : entry));
+  };
+
+  const applyImprovement = async (role: number, bullet: number, improvement: string) => {
+    const key = bulletKey(role, bullet);
+    const entry = draft.content.experience[role];
+    setMenuKey(null);
+    setRewriting(prev => new Set(prev).add(key));
+    setRewriteErrors(prev => ({ ...prev, [key]: '' }));
+    try {
+      const rewritten = await rewriteBullet(entry.bullets[bullet], improvement, [entry.title, entry.company].filter(Boolean).join(' at '));
+      setSuggestions(prev => ({ ...prev, [key]: rewritten }));
+    } catch (err) {
+      const aiError = toAiError(err);
+      if (aiError.kind !== 'cancelled') setRewriteErrors(prev => ({ ...prev, [key]: aiError.message }));
+    } finally {
+      setRewriting(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const resolveSuggestion = (role: number, bullet: number, accept: boolean) => {
+    const key = bulletKey(role, bullet);
+    if (accept) setBullet(role, bullet, suggestions[key]);
+    setSuggestions(({ [key]: _, ...rest }) => rest);
+  };
+
+  const handleRescore = async () => {
+    setIsScoring(true);
+    setError(null);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const analysis = await analyzeResumeText(draftToText(draft), { signal: controller.signal });
+      setPreviousScore(resume.data.score);
+      dirtyRef.current = false;
+      onRescored(analysis, draft, exportResumePdf(draft));
+    } catch (err) {
+      const aiError = toAiError(err);
+      if (aiError.kind !== 'cancelled') setError(aiError);
+    } finally {
+      if (!controller.signal.aborted) setIsScoring(false);
+    }
+  };
+
+  const improvements = resume.data.improvements;
+
+  const renderEntries = (section: EntrySection) => {
+    const spec = ENTRY_FIELDS[section];
+    const entries = entriesOf(section);
+    const setField = (index: number, name: string, value: string | string[]) =>
+      updateContent(section, entries.map((entry, i) => i === index ? { ...entry, [name]: value } : entry));
+    return (
+      <div className="space-y-4">
+        {entries.map((entry, index) => (
+          <div key={index} className="p-4 rounded-lg border border-slate-200 bg-slate-50/50 space-y-3">
+            <div className="grid sm:grid-cols-2 gap-3">
+              {spec.fields.map(field => (
+                <label key={field.name} className={cn("space-y-1", field.name === 'description' && 'sm:col-span-2')}>
+                  <span className="text-xs font-semibold text-slate-500">{field.label}</span>
+                  <Input value={entry[field.name] as string} placeholder={field.placeholder} onChange={e => setField(index, field.name, e.target.value)} />
+                </label>
+              ))}
+            </div>
+            {section === 'experience' && (
+              <div className="space-y-2">
+                <span className="text-xs font-semibold text-slate-500">Bullet points</span>
+                {(entry.bullets as string[]).map((bullet, b) => {
+                  const key = bulletKey(index, b);
+                  return (
+                    <div key={b} className="space-y-1.5">
+                      <div className="flex items-start gap-2">
+                        <Textarea
+                          className="min-h-[44px] py-2"
+                          rows={2}
+                          value={bullet}
+                          onChange={e => setBullet(index, b, e.target.value)}
+                        />
+                        <div className="relative flex-none">
+                          <button
+                            type="button"
+                            onClick={() => setMenuKey(menuKey === key ? null : key)}
+                            disabled={rewriting.has(key) || !bullet.trim() || improvements.length === 0}
+                            className="p-2 rounded-lg text-brand-600 hover:bg-brand-50 disabled:text-slate-300 disabled:hover:bg-transparent"
+                            title="Apply an improvement to this bullet"
+                          >
+                            {rewriting.has(key) ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                          </button>
+                          {menuKey === key && (
+                            <div className="absolute right-0 z-10 mt-1 w-72 bg-white border border-slate-200 rounded-lg shadow-lg p-1">
+                              <p className="px-3 py-2 text-xs font-semibold text-slate-500">Apply improvement</p>
+                              {improvements.map(improvement => (
+                                <button
+                                  key={improvement}
+                                  type="button"
+                                  onClick={() => applyImprovement(index, b, improvement)}
+                                  className="w-full text-left px-3 py-2 text-sm text-slate-700 rounded hover:bg-slate-50 line-clamp-2"
+                                >
+                                  {improvement}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setField(index, 'bullets', (entry.bullets as string[]).filter((_, j) => j !== b))}
+                          className="p-2 text-slate-400 hover:text-red-500 flex-none"
+                          title="Remove bullet"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {suggestions[key] && (
+                        <div className="ml-1 p-3 rounded-lg border border-brand-200 bg-brand-50 text-sm text-slate-800 flex items-start gap-3">
+                          <p className="flex-1">{suggestions[key]}</p>
+                          <button type="button" onClick={() => resolveSuggestion(index, b, true)} className="text-emerald-600 hover:text-emerald-700" title="Use this version">
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button type="button" onClick={() => resolveSuggestion(index, b, false)} className="text-slate-400 hover:text-slate-600" title="Keep the original">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                      {rewriteErrors[key] && <p className="text-xs text-red-600">{rewriteErrors[key]}</p>}
+                    </div>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={() => setField(index, 'bullets', [...(entry.bullets as string[]), ''])}
+                  className="text-xs font-semibold text-brand-600 hover:text-brand-700 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add bullet
+                </button>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => updateContent(section, entries.filter((_, i) => i !== index))}
+              className="text-xs text-slate-500 hover:text-red-500 flex items-center gap-1"
+            >
+              <Trash2 className="w-3 h-3" /> Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => updateContent(section, [...entries, {
+            ...Object.fromEntries(spec.fields.map(field => [field.name, ''])),
+            ...(section === 'experience' ? { bullets: [''] } : {})
+          }])}
+          className="text-xs font-semibold text-brand-600 hover:text-brand-700 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> {spec.addLabel}
+        </button>
+      </div>
+    );
+  };
+
+  const renderSection = (section: ResumeSection) => {
+    if (section === 'summary') {
+      return (
+        <Textarea
+          value={draft.summary}
+          onChange={e => update(d => ({ ...d, summary: e.target.value }))}
+          placeholder="Two or three sentences on who you are and what you're looking for."
+        />
+      );
+    }
+    if (section === 'skills') {
+      return (
+        <Input
+          value={draft.skills.join(', ')}
+          onChange={e => update(d => ({ ...d, skills: e.target.value.split(',').map(skill => skill.trimStart()) }))}
+          placeholder="Comma-separated, e.g. React, PostgreSQL, AWS"
+        />
+      );
+    }
+    return renderEntries(section);
+  };
+
+  return (
+    <motion.div variants={containerVariants} initial="hidden" animate="visible" className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight font-display">Resume Builder</h1>
+          <p className="text-slate-500 mt-2">
+            Editing {resumeVersionName(resume)} · scored {resume.data.score}/100
+            {previousScore !== null && previousScore !== resume.data.score && (
+              <span className={cn("ml-2 font-semibold", resume.data.score > previousScore ? "text-emerald-600" : "text-red-600")}>
+                ({resume.data.score > previousScore ? '+' : ''}{resume.data.score - previousScore} since the last version)
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Button type="button" variant="outline" size="sm" onClick={() => download(exportResumePdf(draft), resumeFileName(draft, 'pdf'))}>
+            <FileDown className="w-4 h-4 mr-2" /> PDF
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => download(exportResumeDocx(draft), resumeFileName(draft, 'docx'))}>
+            <FileDown className="w-4 h-4 mr-2" /> DOCX
+          </Button>
+          <Button type="button" size="sm" onClick={handleRescore} disabled={isScoring}>
+            {isScoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />} Re-score
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" /> {AI_ERROR_TITLES[error.kind]}: {error.message}
+        </p>
+      )}
+      {!resume.data.parsed && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          The details of this resume haven't been extracted yet, so only its skills are filled in. Extract them from the Resume Analyzer, or fill them in here.
+        </p>
+      )}
+
+      <div className="grid xl:grid-cols-2 gap-6 items-start">
+        <div className="space-y-4">
+          <motion.div variants={itemVariants}>
+            <Card className="p-4">
+              <h3 className="text-sm font-bold text-slate-900 flex items-center gap-2 mb-3">
+                <LayoutTemplate className="w-4 h-4 text-slate-500" /> Template
+              </h3>
+              <div className="grid sm:grid-cols-3 gap-2">
+                {(Object.keys(RESUME_TEMPLATES) as ResumeTemplate[]).map(template => (
+                  <button
+                    key={template}
+                    type="button"
+                    onClick={() => update(d => ({ ...d, template }))}
+                    className={cn(
+                      "text-left p-3 rounded-lg border text-sm transition-colors",
+                      draft.template === template ? "border-brand-500 bg-brand-50" : "border-slate-200 hover:border-slate-300"
+                    )}
+                  >
+                    <p className="font-semibold text-slate-900">{RESUME_TEMPLATES[template].label}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">{RESUME_TEMPLATES[template].description}</p>
+                  </button>
+                ))}
+              </div>
+            </Card>
+          </motion.div>
+
+          <motion.div variants={itemVariants}>
+            <Card className="p-4 space-y-3">
+              <h3 className="text-sm font-bold text-slate-900">Contact</h3>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {CONTACT_FIELDS.map(field => (
+                  <label key={field.name} className="space-y-1">
+                    <span className="text-xs font-semibold text-slate-500">{field.label}</span>
+                    <Input
+                      value={draft.content.contact[field.name]}
+                      onChange={e => update(d => ({ ...d, content: { ...d.content, contact: { ...d.content.contact, [field.name]: e.target.value } } }))}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <span className="text-xs font-semibold text-slate-500">Links</span>
+                {draft.content.links.map((link, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input className="w-32" value={link.label} placeholder="Label" onChange={e => updateContent('links', entriesOf('links').map((l, i) => i === index ? { ...l, label: e.target.value } : l))} />
+                    <Input value={link.url} placeholder="URL" onChange={e => updateContent('links', entriesOf('links').map((l, i) => i === index ? { ...l, url: e.target.value } : l))} />
+                    <button type="button" onClick={() => updateContent('links', entriesOf('links').filter((_, i) => i !== index))} className="p-2 text-slate-400 hover:text-red-500" title="Remove link">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => updateContent('links', [...entriesOf('links'), { label: '', url: '' }])}
+                  className="text-xs font-semibold text-brand-600 hover:text-brand-700 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add link
+                </button>
+              </div>
+            </Card>
+          </motion.div>
+
+          {draft.sectionOrder.map((section, index) => (
+            <motion.div key={section} variants={itemVariants}>
+              <Card className="p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-sm font-bold text-slate-900 flex-1">{RESUME_SECTIONS[section].title}</h3>
+                  <button type="button" onClick={() => moveSection(index, -1)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up">
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button type="button" onClick={() => moveSection(index, 1)} disabled={index === draft.sectionOrder.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move down">
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+                {renderSection(section)}
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+
+        <motion.div variants={itemVariants} className="xl:sticky xl:top-4">
+          <Preview blocks={resumeBlocks(draft)} template={draft.template} />
+          <p className="text-xs text-slate-400 mt-2">Empty sections are left out. Exports use standard fonts and plain text so applicant tracking systems can read them.</p>
+        </motion.div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ResumeBuilder;
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { GitCompare, Pin, PinOff, Pencil, Check, X, ArrowRight, FileText } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { SavedResume } from '../types';
+import { Card, Button, Input, Badge } from './ui/DesignSystem';
+import { containerVariants, itemVariants, cn } from '../lib/utils';
+import { compareResumes, resumeVersionName } from '../lib/resumeVersions';
+
+interface ResumeHistoryProps {
+  // Newest first, as the repository lists them
+  resumes: SavedResume[];
+  onOpen: (resume: SavedResume) => void;
+  onRename: (resume: SavedResume, label: string) => void;
+  // null unpins the current default
+  onSetDefault: (resumeId: string | null) => void;
+}
+
+const selectClassName = "h-11 bg-white border border-slate-300 rounded-lg px-4 text-sm text-slate-700 focus:ring-2 focus:ring-brand-500/20 outline-none";
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 24;
+
+const scoreColor = (score: number) => score > 80 ? 'text-emerald-600' : score > 60 ? 'text-amber-600' : 'text-red-600';
+
+const shortDate = (iso: string) => new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+// Score of every version over time; the two being compared are highlighted
+const ScoreTrend: React.FC<{ versions: SavedResume[]; selected: string[]; onSelect: (resume: SavedResume) => void }> = ({ versions, selected, onSelect }) => {
+  const x = (index: number) => versions.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (index * (CHART_WIDTH - CHART_PADDING * 2)) / (versions.length - 1);
+  const y = (score: number) => CHART_HEIGHT - CHART_PADDING - (score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 20}`} className="w-full h-auto" role="img" aria-label="Resume score over time">
+      {[0, 50, 100].map(score => (
+        <g key={score}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(score)} y2={y(score)} className="stroke-slate-100" strokeWidth={1} />
+          <text x={0} y={y(score) + 4} className="fill-slate-400 text-[10px]">{score}</text>
+        </g>
+      ))}
+      <polyline
+        points={versions.map((resume, index) => `${x(index)},${y(resume.data.score)}`).join(' ')}
+        fill="none"
+        className="stroke-brand-500"
+        strokeWidth={2}
+      />
+      {versions.map((resume, index) => {
+        const isSelected = selected.includes(resume.id);
+        return (
+          <g key={resume.id} onClick={() => onSelect(resume)} className="cursor-pointer">
+            <title>{`${resumeVersionName(resume)}: ${resume.data.score}/100`}</title>
+            <circle
+              cx={x(index)}
+              cy={y(resume.data.score)}
+              r={isSelected ? 7 : 5}
+              className={isSelected ? 'fill-brand-600 stroke-white' : 'fill-white stroke-brand-500'}
+              strokeWidth={2}
+            />
+            <text x={x(index)} y={y(resume.data.score) - 12} textAnchor="middle" className="fill-slate-600 text-[11px] font-semibold">
+              {resume.data.score}
+            </text>
+            <text x={x(index)} y={CHART_HEIGHT + 12} textAnchor="middle" className="fill-slate-400 text-[10px]">
+              {shortDate(resume.created_at)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const Chips: React.FC<{ items: string[]; tone: 'added' | 'removed' }> = ({ items, tone }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {items.map(item => (
+      <span
+        key={item}
+        className={cn(
+          "text-xs px-2 py-0.5 rounded-full border",
+          tone === 'added' ? "bg-emerald-50 border-emerald-200 text-emerald-700" : "bg-red-50 border-red-200 text-red-700 line-through"
+        )}
+      >
+        {item}
+      </span>
+    ))}
+  </div>
+);
+
+const FindingList: React.FC<{ title: string; items: string[]; marker: string; empty: string }> = ({ title, items, marker, empty }) => (
+  <div>
+    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-slate-400">{empty}</p>
+    ) : (
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li key={item} className="flex gap-2 text-sm text-slate-700">
+            <span className={cn("flex-none w-1.5 h-1.5 rounded-full mt-2", marker)} />
+            {item}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Saved resume versions: how the score moved, what changed between two of them, and
+// which one is sent with applications
+const ResumeHistory: React.FC<ResumeHistoryProps> = ({ resumes, onOpen, onRename, onSetDefault }) => {
+  const versions = [...resumes].reverse();
+  // Ids of the older and newer version being compared
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+
+  // The two newest, until the candidate picks others
+  useEffect(() => {
+    if (!resumes.some(r => r.id === targetId)) setTargetId(resumes[0]?.id ?? null);
+    if (!resumes.some(r => r.id === baseId)) setBaseId(resumes[1]?.id ?? null);
+  }, [resumes]);
+
+  const base = resumes.find(r => r.id === baseId);
+  const target = resumes.find(r => r.id === targetId);
+  // Always compared oldest to newest, whichever way round they were picked
+  const [older, newer] = base && target && base.created_at > target.created_at ? [target, base] : [base, target];
+  const comparison = older && newer && older.id !== newer.id ? compareResumes(older.data, newer.data) : null;
+
+  // Clicking a point on the chart makes it the newer side; the previous one becomes the older
+  const selectFromChart = (resume: SavedResume) => {
+    if (resume.id === targetId) return;
+    setBaseId(targetId);
+    setTargetId(resume.id);
+  };
+
+  const startRename = (resume: SavedResume) => {
+    setEditingId(resume.id);
+    setLabelDraft(resume.label ?? '');
+  };
+
+  const saveRename = (resume: SavedResume) => {
+    onRename(resume, labelDraft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <motion.div variants={containerVariants} initial="hidden" animate="visible" className="space-y-6 max-w-5xl mx-auto">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900 tracking-tight font-display">Resume History</h1>
+        <p className="text-slate-500 mt-2">Track your score across versions, compare two of them, and choose the resume sent with your applications.</p>
+      </div>
+
+      {resumes.length === 0 ? (
+        <Card className="flex flex-col items-center justify-center p-12 bg-slate-50 border-dashed">
+          <div className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-sm mb-4">
+            <FileText className="w-8 h-8 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900">No Resumes Yet</h3>
+          <p className="text-slate-500 text-center max-w-sm mt-2">Analyze a resume and each version you upload will show up here.</p>
+        </Card>
+      ) : (
+        <>
+          <motion.div variants={itemVariants}>
+            <Card className="p-6">
+              <h3 className="font-bold text-slate-900 mb-4">Score Over Time</h3>
+              <ScoreTrend versions={versions} selected={[baseId, targetId].filter((id): id is string => !!id)} onSelect={selectFromChart} />
+            </Card>
+          </motion.div>
+
+          <motion.div variants={itemVariants}>
+            <Card className="p-0 divide-y divide-slate-100">
+              {resumes.map(resume => (
+                <div key={resume.id} className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    {editingId === resume.id ? (
+                      <form className="flex items-center gap-2" onSubmit={e => { e.preventDefault(); saveRename(resume); }}>
+                        <Input
+                          autoFocus
+                          value={labelDraft}
+                          onChange={e => setLabelDraft(e.target.value)}
+                          placeholder='e.g. "Backend v3" or "PM-focused"'
+                          maxLength={60}
+                        />
+                        <Button type="submit" size="sm" variant="outline" aria-label="Save label"><Check className="w-4 h-4" /></Button>
+                        <Button type="button" size="sm" variant="ghost" aria-label="Cancel" onClick={() => setEditingId(null)}><X className="w-4 h-4" /></Button>
+                      </form>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-slate-900 truncate">{resumeVersionName(resume)}</p>
+                        {resume.pinned && <Badge variant="brand">Default</Badge>}
+                        <button type="button" onClick={() => startRename(resume)} className="text-slate-400 hover:text-brand-600" title="Rename this version">
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {new Date(resume.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      {resume.label && resume.data.file?.name && ` · ${resume.data.file.name}`}
+                    </p>
+                  </div>
+                  <span className={cn("text-lg font-bold w-16 md:text-right", scoreColor(resume.data.score))}>{resume.data.score}</span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={resume.pinned ? 'secondary' : 'outline'}
+                      onClick={() => onSetDefault(resume.pinned ? null : resume.id)}
+                      title={resume.pinned ? 'Stop sending this resume by default' : 'Send this resume with your applications'}
+                    >
+                      {resume.pinned ? <PinOff className="w-4 h-4 mr-1.5" /> : <Pin className="w-4 h-4 mr-1.5" />}
+                      {resume.pinned ? 'Unpin' : 'Make Default'}
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => onOpen(resume)}>Open</Button>
+                  </div>
+                </div>
+              ))}
+            </Card>
+          </motion.div>
+
+          <motion.div variants={itemVariants}>
+            <Card className="p-6 space-y-6">
+              <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <h3 className="font-bold text-slate-900 flex items-center gap-2 md:mr-auto">
+                  <GitCompare className="w-5 h-5 text-brand-600" /> Compare Versions
+                </h3>
+                <select className={selectClassName} value={baseId ?? ''} onChange={e => setBaseId(e.target.value || null)} aria-label="Older version">
+                  <option value="">Choose a version</option>
+                  {resumes.map(r => <option key={r.id} value={r.id}>{resumeVersionName(r)} ({shortDate(r.created_at)})</option>)}
+                </select>
+                <ArrowRight className="hidden md:block w-4 h-4 text-slate-400 mb-3.5" />
+                <select className={selectClassName} value={targetId ?? ''} onChange={e => setTargetId(e.target.value || null)} aria-label="Newer version">
+                  <option value="">Choose a version</option>
+                  {resumes.map(r => <option key={r.id} value={r.id}>{resumeVersionName(r)} ({shortDate(r.created_at)})</option>)}
+                </select>
+              </div>
+
+              {!comparison || !older || !newer ? (
+                <p className="text-sm text-slate-500">
+                  {resumes.length < 2 ? 'Upload another version of your resume to compare the two.' : 'Choose two different versions to compare.'}
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center gap-4 p-4 rounded-lg bg-slate-50 border border-slate-100">
+                    <span className={cn("text-2xl font-bold", scoreColor(older.data.score))}>{older.data.score}</span>
+                    <ArrowRight className="w-5 h-5 text-slate-400" />
+                    <span className={cn("text-2xl font-bold", scoreColor(newer.data.score))}>{newer.data.score}</span>
+                    <span className={cn(
+                      "text-sm font-semibold",
+                      comparison.scoreDelta > 0 ? "text-emerald-600" : comparison.scoreDelta < 0 ? "text-red-600" : "text-slate-500"
+                    )}>
+                      {comparison.scoreDelta > 0 ? `+${comparison.scoreDelta}` : comparison.scoreDelta === 0 ? 'No change' : comparison.scoreDelta} points
+                    </span>
+                  </div>
+
+                  <div>
+                    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Skills</h4>
+                    {comparison.skillsAdded.length === 0 && comparison.skillsRemoved.length === 0 ? (
+                      <p className="text-sm text-slate-400">Same skills in both versions.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        <Chips items={comparison.skillsAdded} tone="added" />
+                        <Chips items={comparison.skillsRemoved} tone="removed" />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <FindingList title="Weaknesses Resolved" items={comparison.weaknessesResolved} marker="bg-emerald-500" empty="None resolved." />
+                    <FindingList title="New Weaknesses" items={comparison.weaknessesNew} marker="bg-red-500" empty="No new weaknesses." />
+                    <FindingList title="Still Open" items={comparison.weaknessesRemaining} marker="bg-amber-500" empty="Nothing carried over." />
+                    <FindingList title="New Suggestions" items={comparison.improvementsAdded} marker="bg-brand-500" empty="No new suggestions." />
+                  </div>
+
+                  {(comparison.improvementsChanged.length > 0 || comparison.improvementsDropped.length > 0) && (
+                    <div>
+                      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Changed Suggestions</h4>
+                      <ul className="space-y-3">
+                        {comparison.improvementsChanged.map(change => (
+                          <li key={change.after} className="text-sm grid md:grid-cols-2 gap-2">
+                            <p className="p-2 rounded bg-red-50 text-red-800 line-through decoration-red-300">{change.before}</p>
+                            <p className="p-2 rounded bg-emerald-50 text-emerald-800">{change.after}</p>
+                          </li>
+                        ))}
+                        {comparison.improvementsDropped.map(item => (
+                          <li key={item} className="text-sm p-2 rounded bg-slate-50 text-slate-500 line-through">{item}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </Card>
+          </motion.div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default ResumeHistory;
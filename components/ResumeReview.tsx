@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { Briefcase, GraduationCap, Award, FolderGit2, Link as LinkIcon, User, Pencil, Plus, Trash2, Loader2, CheckCircle, Sparkles } from 'lucide-react';
+import { ParsedResume } from '../types';
+import { Button } from './ui/DesignSystem';
+import { cn } from '../lib/utils';
+import { emptyParsedResume } from '../lib/resumeDocument';
+
+interface ResumeReviewProps {
+  parsed?: ParsedResume;
+  // Parses the stored file; missing when there's no file to read
+  onExtract?: () => void;
+  isExtracting?: boolean;
+  error?: string | null;
+  onSave: (parsed: ParsedResume) => void;
+}
+
+type Section = 'experience' | 'education' | 'certifications' | 'projects' | 'links';
+type Entry = Record<string, string | string[]>;
+
+interface SectionSpec {
+  title: string;
+  icon: React.ElementType;
+  addLabel: string;
+  // The field an entry can't do without; entries left without it are dropped on save
+  required: string;
+  fields: { name: string; label: string; placeholder?: string }[];
+}
+
+const SECTIONS: Record<Section, SectionSpec> = {
+  experience: {
+    title: 'Experience',
+    icon: Briefcase,
+    addLabel: 'Add role',
+    required: 'title',
+    fields: [
+      { name: 'title', label: 'Title' },
+      { name: 'company', label: 'Company' },
+      { name: 'location', label: 'Location' },
+      { name: 'startDate', label: 'Start', placeholder: 'e.g. Mar 2021' },
+      { name: 'endDate', label: 'End', placeholder: 'Present' }
+    ]
+  },
+  education: {
+    title: 'Education',
+    icon: GraduationCap,
+    addLabel: 'Add education',
+    required: 'institution',
+    fields: [
+      { name: 'institution', label: 'Institution' },
+      { name: 'degree', label: 'Degree', placeholder: 'e.g. B.S.' },
+      { name: 'field', label: 'Field of study' },
+      { name: 'startDate', label: 'Start' },
+      { name: 'endDate', label: 'End' }
+    ]
+  },
+  certifications: {
+    title: 'Certifications',
+    icon: Award,
+    addLabel: 'Add certification',
+    required: 'name',
+    fields: [
+      { name: 'name', label: 'Name' },
+      { name: 'issuer', label: 'Issuer' },
+      { name: 'date', label: 'Date' }
+    ]
+  },
+  projects: {
+    title: 'Projects',
+    icon: FolderGit2,
+    addLabel: 'Add project',
+    required: 'name',
+    fields: [
+      { name: 'name', label: 'Name' },
+      { name: 'url', label: 'URL' },
+      { name: 'description', label: 'Description' }
+    ]
+  },
+  links: {
+    title: 'Links',
+    icon: LinkIcon,
+    addLabel: 'Add link',
+    required: 'url',
+    fields: [
+      { name: 'label', label: 'Label', placeholder: 'e.g. GitHub' },
+      { name: 'url', label: 'URL' }
+    ]
+  }
+};
+
+const SECTION_KEYS = Object.keys(SECTIONS) as Section[];
+
+const CONTACT_FIELDS: { name: keyof ParsedResume['contact']; label: string }[] = [
+  { name: 'name', label: 'Name' },
+  { name: 'headline', label: 'Headline' },
+  { name: 'email', label: 'Email' },
+  { name: 'phone', label: 'Phone' },
+  { name: 'location', label: 'Location' }
+];
+
+const blankEntry = (section: Section): Entry => {
+  const entry: Entry = Object.fromEntries(SECTIONS[section].fields.map(field => [field.name, '']));
+  if (section === 'experience') entry.bullets = [];
+  return entry;
+};
+
+// Trims everything and drops what was left empty while editing
+const cleanUp = (draft: ParsedResume): ParsedResume => {
+  const clean = (section: Section) => (draft[section] as unknown as Entry[])
+    .map(entry => Object.fromEntries(Object.entries(entry).map(([key, value]) =>
+      [key, Array.isArray(value) ? value.map(v => v.trim()).filter(Boolean) : value.trim()]
+    )))
+    .filter(entry => entry[SECTIONS[section].required]);
+  return {
+    ...draft,
+    contact: Object.fromEntries(Object.entries(draft.contact).map(([key, value]) => [key, value.trim()])) as unknown as ParsedResume['contact'],
+    ...Object.fromEntries(SECTION_KEYS.map(section => [section, clean(section)])),
+    reviewedAt: new Date().toISOString()
+  };
+};
+
+const dateRange = (start: string, end: string) =>
+  start || end ? `${start || '?'} – ${end || 'Present'}` : '';
+
+// Links come from the resume itself, so only web addresses are ever linked
+const webUrl = (url: string) => /^https?:\/\//i.test(url) ? url : `https://${url}`;
+
+const fieldClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:border-brand-500 outline-none";
+
+// The resume's contents as parsed by the AI, with an editor for the candidate to check
+// and correct them
+const ResumeReview: React.FC<ResumeReviewProps> = ({ parsed, onExtract, isExtracting = false, error, onSave }) => {
+  const [draft, setDraft] = useState<ParsedResume | null>(null);
+
+  const startEditing = () => setDraft(structuredClone(parsed ?? emptyParsedResume()));
+
+  const updateContact = (name: keyof ParsedResume['contact'], value: string) =>
+    setDraft(prev => prev && { ...prev, contact: { ...prev.contact, [name]: value } });
+
+  const updateEntry = (section: Section, index: number, name: string, value: string | string[]) =>
+    setDraft(prev => prev && {
+      ...prev,
+      [section]: (prev[section] as unknown as Entry[]).map((entry, i) => i === index ? { ...entry, [name]: value } : entry)
+    });
+
+  const addEntry = (section: Section) =>
+    setDraft(prev => prev && { ...prev, [section]: [...(prev[section] as unknown as Entry[]), blankEntry(section)] });
+
+  const removeEntry = (section: Section, index: number) =>
+    setDraft(prev => prev && { ...prev, [section]: (prev[section] as unknown as Entry[]).filter((_, i) => i !== index) });
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave(cleanUp(draft));
+    setDraft(null);
+  };
+
+  const header = (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <div className="flex items-center gap-2 text-sky-400">
+        <User className="w-6 h-6" />
+        <h3 className="font-bold text-lg text-white">Resume Details</h3>
+      </div>
+      {parsed && (parsed.reviewedAt ? (
+        <span className="text-xs text-emerald-400 flex items-center gap-1"><CheckCircle className="w-3.5 h-3.5" /> Reviewed</span>
+      ) : (
+        <span className="text-xs text-amber-400">Extracted by AI – check it for mistakes</span>
+      ))}
+      {!draft && parsed && (
+        <Button variant="outline" size="sm" onClick={startEditing} className="ml-auto gap-2">
+          <Pencil className="w-4 h-4" /> Review & Edit
+        </Button>
+      )}
+    </div>
+  );
+
+  // Nothing parsed yet: resumes analyzed before parsing existed, or a failed parse
+  if (!parsed && !draft) {
+    return (
+      <div className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6">
+        {header}
+        <p className="text-slate-400 text-sm mb-4">
+          Work history, education and links haven't been extracted from this resume yet.
+        </p>
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+        <div className="flex flex-wrap gap-3">
+          {onExtract && (
+            <Button variant="primary" size="sm" onClick={onExtract} disabled={isExtracting} className="gap-2">
+              {isExtracting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />} Extract Details
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={startEditing} disabled={isExtracting} className="gap-2">
+            <Pencil className="w-4 h-4" /> Enter Manually
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (draft) {
+    return (
+      <div className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6">
+        {header}
+        <div className="space-y-8">
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {CONTACT_FIELDS.map(field => (
+              <label key={field.name} className="space-y-1">
+                <span className="text-xs font-semibold text-slate-500">{field.label}</span>
+                <input className={fieldClass} value={draft.contact[field.name]} onChange={e => updateContact(field.name, e.target.value)} />
+              </label>
+            ))}
+          </div>
+
+          {SECTION_KEYS.map(section => {
+            const spec = SECTIONS[section];
+            const entries = draft[section] as unknown as Entry[];
+            return (
+              <div key={section} className="space-y-3">
+                <h4 className="text-sm font-bold text-white flex items-center gap-2">
+                  <spec.icon className="w-4 h-4 text-slate-400" /> {spec.title}
+                </h4>
+                {entries.map((entry, index) => (
+                  <div key={index} className="p-4 rounded-lg border border-slate-800 bg-slate-950/40 space-y-3">
+                    <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                      {spec.fields.map(field => (
+                        <label key={field.name} className="space-y-1">
+                          <span className="text-xs font-semibold text-slate-500">{field.label}</span>
+                          <input
+                            className={fieldClass}
+                            value={entry[field.name] as string}
+                            placeholder={field.placeholder}
+                            onChange={e => updateEntry(section, index, field.name, e.target.value)}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    {section === 'experience' && (
+                      <label className="space-y-1 block">
+                        <span className="text-xs font-semibold text-slate-500">Bullet points (one per line)</span>
+                        <textarea
+                          className={cn(fieldClass, "min-h-[96px]")}
+                          value={(entry.bullets as string[]).join('\n')}
+                          onChange={e => updateEntry(section, index, 'bullets', e.target.value.split('\n'))}
+                        />
+                      </label>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => removeEntry(section, index)}
+                      className="text-xs text-slate-500 hover:text-red-400 flex items-center gap-1"
+                    >
+                      <Trash2 className="w-3 h-3" /> Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addEntry(section)}
+                  className="text-xs font-semibold text-brand-400 hover:text-brand-300 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> {spec.addLabel}
+                </button>
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end gap-3 pt-2 border-t border-slate-800">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button variant="primary" size="sm" onClick={handleSave}>Save Details</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { contact, experience, education, certifications, projects, links } = parsed!;
+  const contactLine = [contact.email, contact.phone, contact.location].filter(Boolean).join(' · ');
+
+  return (
+    <div className="bg-slate-900 rounded-xl shadow-sm border border-slate-800 p-6">
+      {header}
+      <div className="space-y-6 text-sm">
+        <div>
+          <p className="text-white font-semibold">{contact.name || 'Name not found'}{contact.headline && <span className="text-slate-400 font-normal"> – {contact.headline}</span>}</p>
+          {contactLine && <p className="text-slate-400 mt-1">{contactLine}</p>}
+          {links.length > 0 && (
+            <div className="flex flex-wrap gap-3 mt-2">
+              {links.map((link, i) => (
+                <a key={i} href={webUrl(link.url)} target="_blank" rel="noopener noreferrer" className="text-brand-400 hover:text-brand-300 text-xs flex items-center gap-1">
+                  <LinkIcon className="w-3 h-3" /> {link.label || link.url}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {experience.length > 0 && (
+          <div className="space-y-4">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Experience</h4>
+            {experience.map((role, i) => (
+              <div key={i}>
+                <p className="text-slate-200 font-semibold">{role.title}{role.company && <span className="text-slate-400 font-normal"> at {role.company}</span>}</p>
+                <p className="text-xs text-slate-500">{[dateRange(role.startDate, role.endDate), role.location].filter(Boolean).join(' · ')}</p>
+                {role.bullets.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {role.bullets.map((bullet, j) => (
+                      <li key={j} className="flex gap-3 text-slate-300">
+                        <span className="flex-none w-1.5 h-1.5 rounded-full bg-slate-600 mt-2" />
+                        {bullet}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {education.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Education</h4>
+            {education.map((school, i) => (
+              <div key={i}>
+                <p className="text-slate-200">{[school.degree, school.field].filter(Boolean).join(' in ') || school.institution}</p>
+                <p className="text-xs text-slate-500">{[school.degree || school.field ? school.institution : '', dateRange(school.startDate, school.endDate)].filter(Boolean).join(' · ')}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {certifications.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Certifications</h4>
+            {certifications.map((cert, i) => (
+              <p key={i} className="text-slate-300">{cert.name}<span className="text-slate-500">{[cert.issuer, cert.date].filter(Boolean).map(part => ` · ${part}`).join('')}</span></p>
+            ))}
+          </div>
+        )}
+
+        {projects.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500">Projects</h4>
+            {projects.map((project, i) => (
+              <p key={i} className="text-slate-300">
+                {project.url ? <a href={webUrl(project.url)} target="_blank" rel="noopener noreferrer" className="text-brand-400 hover:text-brand-300">{project.name}</a> : project.name}
+                {project.description && <span className="text-slate-500"> – {project.description}</span>}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResumeReview;
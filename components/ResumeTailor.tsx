@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Wand2, Loader2, Check, X, ArrowRight, FileCheck, AlertCircle } from 'lucide-react';
+import { Job, ResumeAnalysis, ResumeDraft, SavedResume } from '../types';
+import { Button, Badge } from './ui/DesignSystem';
+import { createDraft, draftToText } from '../lib/resumeDocument';
+import { exportResumePdf } from '../lib/resumeExport';
+import { TailoredResume, applyTailoring } from '../lib/resumeTailoring';
+import { ChangedItem } from '../lib/resumeVersions';
+import { analyzeResumeText, tailorResume, toAiError, AI_ERROR_TITLES, AiError } from '../services/gemini';
+
+interface ResumeTailorProps {
+  job: Job;
+  // The resume the variant is made from
+  baseResume?: SavedResume;
+  missingKeywords: string[];
+  // The newest variant already saved for this job
+  tailoredResume?: SavedResume;
+  onSave: (job: Job, analysis: ResumeAnalysis, draft: ResumeDraft, pdf: Blob) => void;
+}
+
+const Change: React.FC<{ change: ChangedItem }> = ({ change }) => (
+  <div className="space-y-1">
+    {change.before && <p className="text-slate-500 line-through decoration-slate-300">{change.before}</p>}
+    <p className="text-slate-900 flex gap-2"><ArrowRight className="w-4 h-4 text-emerald-500 flex-none mt-0.5" /> {change.after}</p>
+  </div>
+);
+
+// Tailors the candidate's resume to one job and shows every change before it's saved
+const ResumeTailor: React.FC<ResumeTailorProps> = ({ job, baseResume, missingKeywords, tailoredResume, onSave }) => {
+  const [tailored, setTailored] = useState<TailoredResume | null>(null);
+  const [status, setStatus] = useState<'idle' | 'tailoring' | 'saving'>('idle');
+  const [error, setError] = useState<AiError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (step: 'tailoring' | 'saving', work: (signal: AbortSignal) => Promise<void>) => {
+    setStatus(step);
+    setError(null);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      await work(controller.signal);
+    } catch (err) {
+      const aiError = toAiError(err);
+      if (aiError.kind !== 'cancelled') setError(aiError);
+    } finally {
+      if (!controller.signal.aborted) setStatus('idle');
+    }
+  };
+
+  const handleTailor = () => baseResume && run('tailoring', async signal => {
+    const base = baseResume.draft ?? createDraft(baseResume.data);
+    const tailoring = await tailorResume(base, job, missingKeywords, { signal, privacy: job.privacyRequired });
+    setTailored(applyTailoring(base, tailoring, missingKeywords));
+  });
+
+  // The variant is scored like any other version, and its PDF is what applications send
+  const handleApprove = () => tailored && run('saving', async signal => {
+    const analysis = await analyzeResumeText(draftToText(tailored.draft), { signal, privacy: job.privacyRequired });
+    onSave(job, analysis, tailored.draft, exportResumePdf(tailored.draft));
+    setTailored(null);
+  });
+
+  if (!baseResume) return null;
+
+  if (!tailored) {
+    return (
+      <div className="mt-4 pt-4 border-t border-slate-200 flex flex-wrap items-center gap-3 text-sm">
+        {tailoredResume && (
+          <span className="flex items-center gap-2 text-emerald-700">
+            <FileCheck className="w-4 h-4" /> A tailored resume (scored {tailoredResume.data.score}/100) goes with your application
+          </span>
+        )}
+        <Button type="button" size="sm" variant={tailoredResume ? 'ghost' : 'outline'} onClick={handleTailor} disabled={status === 'tailoring'}>
+          {status === 'tailoring' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+          {tailoredResume ? 'Tailor again' : 'Tailor resume for this job'}
+        </Button>
+        {error && (
+          <span className="text-red-600 flex items-center gap-1"><AlertCircle className="w-4 h-4" /> {AI_ERROR_TITLES[error.kind]}: {error.message}</span>
+        )}
+      </div>
+    );
+  }
+
+  const { changes } = tailored;
+  const unchanged = !changes.summary && changes.skillsAdded.length === 0 && !changes.skillsReordered && changes.roles.length === 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200 space-y-4 text-sm">
+      <h4 className="font-bold text-slate-900 text-xs uppercase tracking-wide">Tailored for {job.title}: review the changes</h4>
+
+      {unchanged && <p className="text-slate-500">Your resume already fits this job; nothing needed rewording or reordering.</p>}
+
+      {changes.summary && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">Summary</p>
+          <Change change={changes.summary} />
+        </div>
+      )}
+
+      {(changes.skillsReordered || changes.skillsAdded.length > 0) && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">Skills</p>
+          {changes.skillsReordered && <p className="text-slate-700">Now led by {tailored.draft.skills.slice(0, 4).join(', ')}</p>}
+          {changes.skillsAdded.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {changes.skillsAdded.map(skill => <Badge key={skill} variant="success">+ {skill}</Badge>)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {changes.roles.map(role => (
+        <div key={role.name} className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">{role.name}</p>
+          {role.reordered && <p className="text-slate-700">Bullets reordered, most relevant first</p>}
+          {role.reworded.map((change, i) => <Change key={i} change={change} />)}
+        </div>
+      ))}
+
+      {(changes.keywordsUsed.length > 0 || changes.keywordsSkipped.length > 0) && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500">Missing keywords</p>
+          <div className="flex flex-wrap gap-2">
+            {changes.keywordsUsed.map(keyword => <Badge key={keyword} variant="success">{keyword}</Badge>)}
+            {changes.keywordsSkipped.map(keyword => <Badge key={keyword} variant="neutral" className="line-through">{keyword}</Badge>)}
+          </div>
+          {changes.keywordsSkipped.length > 0 && (
+            <p className="text-xs text-slate-500">Struck-through keywords were left out: nothing in your resume backs them up.</p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-600 flex items-center gap-1"><AlertCircle className="w-4 h-4" /> {AI_ERROR_TITLES[error.kind]}: {error.message}</p>
+      )}
+      <div className="flex gap-3">
+        <Button type="button" size="sm" onClick={handleApprove} disabled={status === 'saving'}>
+          {status === 'saving' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />} Approve & Save
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setTailored(null)} disabled={status === 'saving'}>
+          <X className="w-4 h-4 mr-2" /> Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeTailor;
@@ -1,21 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { User, Mail, Shield, Save, Loader2, Lock, Bell, Moon } from 'lucide-react';
+import { User, Mail, Shield, Save, Loader2, Lock, Bell, Moon, EyeOff } from 'lucide-react';
 import { Card, Button, Input, Badge } from './ui/DesignSystem';
 import { motion } from 'framer-motion';
 import { supabase } from '../lib/supabaseClient';
 import { UserRole } from '../types';
 import { containerVariants, itemVariants } from '../lib/utils';
+import CacheSettings from './settings/CacheSettings';
+import UsageSettings from './settings/UsageSettings';
+import StorageDiagnostics from './settings/StorageDiagnostics';
+import AccountData from './settings/AccountData';
+import { setPrivacyMode as applyPrivacyMode } from '../services/ai/redaction';
 
 interface SettingsProps {
-  user: { name: string; email: string; role?: UserRole };
+  user: { name: string; email: string; role?: UserRole; id: string };
   onUpdateProfile: (name: string) => void;
+  onAccountDeleted: () => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
+const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile, onAccountDeleted }) => {
   const [name, setName] = useState(user.name);
   const [password, setPassword] = useState('');
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [marketingEmails, setMarketingEmails] = useState(false);
+  const [privacyMode, setPrivacyMode] = useState(false);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
@@ -30,6 +37,9 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
         if (currentUser.user_metadata.marketing_emails !== undefined) {
           setMarketingEmails(currentUser.user_metadata.marketing_emails);
         }
+        if (currentUser.user_metadata.privacy_mode !== undefined) {
+          setPrivacyMode(currentUser.user_metadata.privacy_mode);
+        }
       }
     };
     loadPreferences();
@@ -45,7 +55,8 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
         data: { 
             full_name: name,
             email_notifications: emailNotifications,
-            marketing_emails: marketingEmails
+            marketing_emails: marketingEmails,
+            privacy_mode: privacyMode
         }
       };
 
@@ -58,6 +69,7 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
       if (error) throw error;
 
       onUpdateProfile(name);
+      applyPrivacyMode(privacyMode, [name]);
       setMessage({ type: 'success', text: 'Profile updated successfully' });
       setPassword('');
     } catch (err: any) {
@@ -188,6 +200,33 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
             </Card>
           </motion.div>
 
+          {/* Privacy Section */}
+          <motion.div variants={itemVariants}>
+            <Card className="p-0 overflow-hidden border-slate-200">
+              <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+                <div className="w-10 h-10 rounded-full bg-sky-100 flex items-center justify-center text-sky-600">
+                   <EyeOff className="w-5 h-5" />
+                </div>
+                <div>
+                  <h3 className="font-bold text-slate-900">Privacy</h3>
+                  <p className="text-xs text-slate-500">Control what personal information reaches the AI.</p>
+                </div>
+              </div>
+              <div className="p-6 space-y-6 bg-white">
+                 <div className="flex items-center justify-between gap-6 p-2 rounded-lg hover:bg-slate-50 transition-colors">
+                    <div>
+                        <span className="text-sm font-medium text-slate-900 block">Privacy Mode</span>
+                        <span className="text-xs text-slate-500">
+                          Mask your name, email, phone number and street address before resumes and other text are sent for AI analysis.
+                          Resumes must be PDF or text files; voice answers in interview practice are not masked.
+                        </span>
+                    </div>
+                    <Toggle checked={privacyMode} onChange={setPrivacyMode} />
+                 </div>
+              </div>
+            </Card>
+          </motion.div>
+
           {/* Notifications Section */}
            <motion.div variants={itemVariants}>
             <Card className="p-0 overflow-hidden border-slate-200">
@@ -233,6 +272,14 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateProfile }) => {
           </motion.div>
         </div>
       </form>
+
+      <UsageSettings userId={user.id} />
+
+      <CacheSettings />
+
+      <StorageDiagnostics />
+
+      <AccountData user={user} onAccountDeleted={onAccountDeleted} />
     </motion.div>
   );
 };
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
-import { LayoutDashboard, Mic, FileText, TrendingUp, Briefcase, LogOut, Mail, Command, ChevronRight, GraduationCap, Users, UserCheck, Settings, Bookmark, FolderOpen, Calendar } from 'lucide-react';
+import { LayoutDashboard, Mic, FileText, TrendingUp, Briefcase, LogOut, Mail, Command, ChevronRight, GraduationCap, Users, UserCheck, Settings, Bookmark, FolderOpen, Calendar, Cloud, CloudOff, RefreshCw, AlertTriangle, History, GitCompare, PenLine } from 'lucide-react';
 import { AppView, UserRole, Application } from '../types';
 import { motion } from 'framer-motion';
 import { cn } from '../lib/utils';
 import { Button } from './ui/DesignSystem';
+import { SyncStatus } from '../services/data';
 
 interface SidebarProps {
   currentView: AppView;
@@ -12,9 +13,11 @@ interface SidebarProps {
   user: { name: string; email: string; role?: UserRole };
   onLogout: () => void;
   applications?: Application[];
+  syncStatus?: SyncStatus | null;
+  onOpenConflicts?: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen, user, onLogout, applications = [] }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen, user, onLogout, applications = [], syncStatus, onOpenConflicts }) => {
   const isEmployer = user.role === 'employer';
 
   const NavItem = ({ view, icon: Icon, label }: { view: AppView; icon: any; label: string }) => {
@@ -76,6 +79,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
                   <NavItem view={AppView.APPLICANTS} icon={Users} label="Applicants" />
                   <NavItem view={AppView.SHORTLISTED} icon={Bookmark} label="Shortlisted" />
                   <NavItem view={AppView.CALENDAR} icon={Calendar} label="Calendar" />
+                  <NavItem view={AppView.ACTIVITY} icon={History} label="Activity" />
                 </div>
               </div>
               <div>
@@ -94,6 +98,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
                   <NavItem view={AppView.DASHBOARD} icon={LayoutDashboard} label="Overview" />
                   <NavItem view={AppView.MY_APPLICATIONS} icon={FolderOpen} label="My Applications" />
                   <NavItem view={AppView.RESUME} icon={FileText} label="Resume Analyzer" />
+                  <NavItem view={AppView.RESUME_HISTORY} icon={GitCompare} label="Resume History" />
+                  <NavItem view={AppView.RESUME_BUILDER} icon={PenLine} label="Resume Builder" />
                   <NavItem view={AppView.JOBS} icon={Briefcase} label="Job Matches" />
                 </div>
               </div>
@@ -106,6 +112,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
                   <NavItem view={AppView.INTERVIEW} icon={Mic} label="Interview Prep" />
                   <NavItem view={AppView.INSIGHTS} icon={TrendingUp} label="Market Data" />
                   <NavItem view={AppView.CALENDAR} icon={Calendar} label="Calendar" />
+                  <NavItem view={AppView.ACTIVITY} icon={History} label="Activity" />
                 </div>
               </div>
 
@@ -121,6 +128,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
       </div>
 
       <div className="mt-auto p-4 border-t border-slate-100 bg-slate-50/50">
+        {syncStatus && <SyncIndicator status={syncStatus} onOpenConflicts={onOpenConflicts} />}
         <div className="flex items-center gap-3 mb-4 px-2">
           <div className={cn("w-9 h-9 rounded-full border flex items-center justify-center font-bold shadow-sm", isEmployer ? "bg-purple-50 border-purple-200 text-purple-700" : "bg-white border-slate-200 text-brand-700")}>
             {user.name.charAt(0).toUpperCase()}
@@ -144,4 +152,34 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
   );
 };
 
+const SyncIndicator = ({ status, onOpenConflicts }: { status: SyncStatus; onOpenConflicts?: () => void }) => {
+  const conflicts = status.conflicts.length;
+  if (conflicts > 0) {
+    return (
+      <button
+        onClick={onOpenConflicts}
+        className="w-full flex items-center gap-2 mb-3 px-3 py-2 rounded-lg text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 hover:bg-amber-100 transition-colors"
+      >
+        <AlertTriangle className="w-3.5 h-3.5" />
+        {conflicts} {conflicts === 1 ? 'conflict' : 'conflicts'} to review
+        <ChevronRight className="w-3.5 h-3.5 ml-auto" />
+      </button>
+    );
+  }
+
+  const { icon: Icon, label, className } =
+    status.state === 'offline' || status.state === 'error'
+      ? { icon: CloudOff, label: status.pending > 0 ? `Offline · ${status.pending} pending` : 'Offline', className: 'text-slate-500' }
+      : status.state === 'syncing' || status.pending > 0
+        ? { icon: RefreshCw, label: `Syncing ${status.pending} ${status.pending === 1 ? 'change' : 'changes'}…`, className: 'text-brand-600' }
+        : { icon: Cloud, label: 'All changes synced', className: 'text-emerald-600' };
+
+  return (
+    <div className={cn("flex items-center gap-2 mb-3 px-3 text-xs font-medium", className)} title={status.lastError}>
+      <Icon className={cn("w-3.5 h-3.5", Icon === RefreshCw && "animate-spin")} />
+      {label}
+    </div>
+  );
+};
+
 export default Sidebar;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { GraduationCap, ExternalLink, Loader2, BookOpen, Search, ArrowRight, Zap, Target, PlayCircle } from 'lucide-react';
-import { ResumeAnalysis, SkillSuggestion } from '../types';
+import { ActivityKind, ActivityMetadata, ResumeAnalysis, SkillSuggestion } from '../types';
 import { suggestSkills } from '../services/gemini';
 import { motion } from 'framer-motion';
 import { Card, Button, Badge, Input } from './ui/DesignSystem';
@@ -8,7 +8,7 @@ import { containerVariants, itemVariants, cn } from '../lib/utils';
 
 interface SkillSuggestionsProps {
   resumeAnalysis: ResumeAnalysis | null;
-  onActivity: (title: string, meta: string) => void;
+  onActivity: (kind: ActivityKind, meta: string, metadata?: ActivityMetadata) => void;
 }
 
 const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ resumeAnalysis, onActivity }) => {
@@ -29,7 +29,7 @@ const SkillSuggestions: React.FC<SkillSuggestionsProps> = ({ resumeAnalysis, onA
       const suggestions = await suggestSkills(currentSkills, context);
       setSkills(suggestions);
       setHasGenerated(true);
-      onActivity("Skill Suggestions", `Found ${suggestions.length} new skills to learn`);
+      onActivity('skills_suggested', `Found ${suggestions.length} new skills to learn`, { count: suggestions.length });
     } catch (error) {
       console.error(error);
     } finally {
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { Application, ApplicationStatusChange } from '../types';
+import { getRepositories, reportRepositoryError } from '../services/data';
+import { cn } from '../lib/utils';
+
+interface StatusHistoryProps {
+  application: Application;
+  className?: string;
+}
+
+// The application's moves through the pipeline, as recorded by the employer
+const StatusHistory: React.FC<StatusHistoryProps> = ({ application, className }) => {
+  const [changes, setChanges] = useState<ApplicationStatusChange[]>([]);
+
+  // Reloads whenever the application is saved again (its version changes)
+  useEffect(() => {
+    let cancelled = false;
+    getRepositories().applications.history(application.id)
+      .then(loaded => { if (!cancelled) setChanges(loaded); })
+      .catch(reportRepositoryError);
+    return () => { cancelled = true; };
+  }, [application.id, application.version]);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <p className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+        <History className="w-3.5 h-3.5" /> History
+      </p>
+      <ol className="relative border-l border-slate-200 ml-1.5 space-y-2">
+        <li className="pl-4 text-xs text-slate-500">
+          <span className="absolute -left-[4px] mt-1 w-2 h-2 rounded-full bg-slate-300" />
+          Applied · {new Date(application.timestamp).toLocaleDateString()}
+        </li>
+        {changes.map(change => (
+          <li key={change.id} className="pl-4 text-xs text-slate-500">
+            <span className="absolute -left-[4px] mt-1 w-2 h-2 rounded-full bg-slate-400" />
+            <span className="font-semibold text-slate-700">{change.status}</span>
+            {change.interviewDate && ` for ${change.interviewDate.toLocaleDateString()}`}
+            {change.changedByName && ` by ${change.changedByName}`} · {change.changedAt.toLocaleDateString()}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default StatusHistory;
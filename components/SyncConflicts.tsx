@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Application, Job } from '../types';
+import { SyncConflict } from '../services/data';
+import { Button } from './ui/DesignSystem';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: 'mine' | 'theirs') => Promise<void>;
+  onClose: () => void;
+}
+
+// Bookkeeping fields differ on every edit and mean nothing to the user
+const IGNORED_FIELDS = new Set(['version', 'updatedAt', 'resumeFile', 'injectionWarning']);
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  interviewDate: 'Interview',
+  meetingLink: 'Meeting link',
+  title: 'Title',
+  salary: 'Salary',
+  location: 'Location',
+  description: 'Description'
+};
+
+const describe = (conflict: SyncConflict) => {
+  if (conflict.collection === 'applications') {
+    const app = conflict.mine as Application;
+    return `${app.candidateName} · ${app.jobTitle}`;
+  }
+  if (conflict.collection === 'jobs') {
+    const job = conflict.mine as Job;
+    return `${job.title} at ${job.company}`;
+  }
+  return conflict.mine.id;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleString();
+  if (value instanceof Date) return value.toLocaleString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// The fields the two edits disagree on, status first since that's what usually clashes
+const changedFields = (mine: Record<string, unknown>, theirs: Record<string, unknown>) =>
+  Array.from(new Set([...Object.keys(mine), ...Object.keys(theirs)]))
+    .filter(key => !IGNORED_FIELDS.has(key) && JSON.stringify(mine[key]) !== JSON.stringify(theirs[key]))
+    .sort((a, b) => (a === 'status' ? -1 : b === 'status' ? 1 : 0));
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, onResolve, onClose }) => {
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const resolve = async (conflict: SyncConflict, keep: 'mine' | 'theirs') => {
+    setResolving(conflict.id);
+    try {
+      await onResolve(conflict, keep);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Edited Elsewhere</h2>
+            <p className="text-sm text-slate-500">These changes clashed with an edit made on another device or tab. Choose which one to keep.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {conflicts.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-8">No conflicts left. Everything is in sync.</p>
+          )}
+          {conflicts.map(conflict => {
+            const fields = conflict.theirs ? changedFields(conflict.mine, conflict.theirs) : [];
+            return (
+              <div key={conflict.id} className="border border-slate-200 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-amber-500" />
+                  <p className="font-semibold text-slate-900 text-sm">{describe(conflict)}</p>
+                  <span className="ml-auto text-xs text-slate-400">{new Date(conflict.detectedAt).toLocaleString()}</span>
+                </div>
+
+                {conflict.theirs ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                        <th className="text-left font-semibold pb-1"></th>
+                        <th className="text-left font-semibold pb-1">Your change</th>
+                        <th className="text-left font-semibold pb-1">Current</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map(field => (
+                        <tr key={field} className="border-t border-slate-100">
+                          <td className="py-1.5 pr-3 text-slate-500">{FIELD_LABELS[field] || field}</td>
+                          <td className="py-1.5 pr-3 font-medium text-slate-900">{formatValue(conflict.mine[field])}</td>
+                          <td className="py-1.5 font-medium text-slate-900">{formatValue(conflict.theirs![field])}</td>
+                        </tr>
+                      ))}
+                      {fields.length === 0 && (
+                        <tr><td colSpan={3} className="py-1.5 text-slate-500">Both edits ended up the same.</td></tr>
+                      )}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-slate-500">This was deleted elsewhere after you edited it.</p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" disabled={resolving === conflict.id} onClick={() => resolve(conflict, 'theirs')}>
+                    {conflict.theirs ? 'Keep current' : 'Accept deletion'}
+                  </Button>
+                  <Button size="sm" disabled={resolving === conflict.id} onClick={() => resolve(conflict, 'mine')}>
+                    Keep mine
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Cpu, Loader2 } from 'lucide-react';
+import { Card } from '../ui/DesignSystem';
+import { AI_FEATURE_LABELS } from '../../services/ai/types';
+import { UsageRecord, UsageQuota, listUsage, summarizeUsage, groupUsage, getQuota, startOfMonth } from '../../services/ai/usage';
+import { formatTokens, formatCost } from '../settings/UsageSettings';
+
+interface AiUsageOverviewProps {
+  currentUserId: string;
+}
+
+// Aggregate AI spend across the employer and the members of their organizations, plus the
+// monthly quota applied to each user. Quotas are set in the database (ai_quota), not here.
+const AiUsageOverview: React.FC<AiUsageOverviewProps> = ({ currentUserId }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [quota, setQuota] = useState<UsageQuota>({ monthlyTokens: null, monthlyRequests: null });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([listUsage({ since: startOfMonth() }), getQuota()])
+      .then(([usage, limits]) => {
+        if (cancelled) return;
+        setRecords(usage);
+        setQuota(limits);
+      })
+      .catch((err: any) => { if (!cancelled) setError(err.message || "Could not load AI usage."); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [currentUserId]);
+
+  const totals = summarizeUsage(records);
+  const byFeature = groupUsage(records, r => r.feature);
+  const byUser = groupUsage(records, r => r.userId);
+  const maxFeatureTokens = Math.max(1, ...byFeature.map(f => f.inputTokens + f.outputTokens));
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-900 font-display">AI Usage This Month</h3>
+        <span className="text-sm text-slate-500">
+          {totals.requests} requests · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens · <span className="font-semibold text-slate-900">{formatCost(totals.costUsd)}</span>
+        </span>
+      </div>
+      <Card className="p-0 overflow-hidden">
+        {error ? (
+          <p className="p-5 text-sm text-red-600">{error}</p>
+        ) : loading ? (
+          <div className="p-5 flex items-center gap-2 text-sm text-slate-500"><Loader2 className="w-4 h-4 animate-spin" /> Loading usage...</div>
+        ) : records.length === 0 ? (
+          <div className="p-8 text-center text-slate-500">
+            <div className="w-12 h-12 bg-slate-50 rounded-full flex items-center justify-center mx-auto mb-3">
+              <Cpu className="w-6 h-6 text-slate-300" />
+            </div>
+            <p>No AI usage recorded this month.</p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-100">
+            <div className="p-5 space-y-3">
+              <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide">By Feature</h4>
+              {byFeature.map(row => {
+                const tokens = row.inputTokens + row.outputTokens;
+                return (
+                  <div key={row.key}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-900">{AI_FEATURE_LABELS[row.key] || row.key}</span>
+                      <span className="text-xs text-slate-500">{formatTokens(tokens)} · {formatCost(row.costUsd)}</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                      <div className="h-full rounded-full bg-purple-500" style={{ width: `${(tokens / maxFeatureTokens) * 100}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="p-5 space-y-3">
+              <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide">By User</h4>
+              <div className="divide-y divide-slate-100">
+                {byUser.slice(0, 8).map(row => (
+                  <div key={row.key} className="py-2 flex items-center justify-between text-sm">
+                    <span className="font-mono text-xs text-slate-600">
+                      {row.key === currentUserId ? 'You' : `${row.key.slice(0, 8)}…`}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {row.requests} req · {formatTokens(row.inputTokens + row.outputTokens)} · <span className="font-semibold text-slate-700">{formatCost(row.costUsd)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="p-5 bg-slate-50 border-t border-slate-100 flex flex-col sm:flex-row gap-4 text-sm">
+          <div className="flex-1">
+            <p className="text-xs font-semibold text-slate-600 mb-1">Monthly tokens per user</p>
+            <p className="text-slate-900">{quota.monthlyTokens ? formatTokens(quota.monthlyTokens) : 'Unlimited'}</p>
+          </div>
+          <div className="flex-1">
+            <p className="text-xs font-semibold text-slate-600 mb-1">Monthly requests per user</p>
+            <p className="text-slate-900">{quota.monthlyRequests ? quota.monthlyRequests.toLocaleString() : 'Unlimited'}</p>
+          </div>
+        </div>
+      </Card>
+    </section>
+  );
+};
+
+export default AiUsageOverview;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Download, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Card, Button, Input } from '../ui/DesignSystem';
+import { itemVariants } from '../../lib/utils';
+import { createZip } from '../../lib/zip';
+import { blobToBase64 } from '../../lib/files';
+import { supabase } from '../../lib/supabaseClient';
+import { UserRole } from '../../types';
+import { clearQuarantine, collectAccountData, eraseAccountData, getRepositories, isRepositoryError, REPOSITORY_ERROR_TITLES } from '../../services/data';
+import { clearCache } from '../../services/ai/cache';
+
+interface AccountDataProps {
+  user: { id: string; name: string; email: string; role?: UserRole };
+  // Called once the account is gone; signs out
+  onAccountDeleted: () => void;
+}
+
+const CONFIRM_TEXT = 'DELETE';
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const describeError = (err: any) =>
+  isRepositoryError(err) ? `${REPOSITORY_ERROR_TITLES[err.kind]}: ${err.message}` : err?.message || String(err);
+
+// Export everything stored about the user, or erase it along with the account
+const AccountData: React.FC<AccountDataProps> = ({ user, onAccountDeleted }) => {
+  const [exporting, setExporting] = useState<'zip' | 'json' | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const viewer = { id: user.id, email: user.email, role: user.role ?? 'candidate' };
+
+  const handleExport = async (format: 'zip' | 'json') => {
+    setExporting(format);
+    setError(null);
+    try {
+      const { data: { user: authUser } } = await supabase.auth.getUser();
+      const profile = authUser
+        ? { id: authUser.id, email: authUser.email, phone: authUser.phone, createdAt: authUser.created_at, metadata: authUser.user_metadata }
+        : { ...user };
+      const { data, files } = await collectAccountData(getRepositories(), viewer, profile);
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      if (format === 'zip') {
+        const entries = [
+          { path: 'data.json', data: JSON.stringify(data, null, 2) },
+          ...await Promise.all(files.map(async ({ path, blob }) => ({ path, data: new Uint8Array(await blob.arrayBuffer()) })))
+        ];
+        download(createZip(entries), `carrerx-export-${stamp}.zip`);
+      } else {
+        // One file; the uploads are embedded as base64
+        const contents = Object.fromEntries(await Promise.all(files.map(async ({ path, blob }) => [path, await blobToBase64(blob)])));
+        const bundle = { ...data, files: data.files.map(file => ({ ...file, data: contents[file.path] })) };
+        download(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), `carrerx-export-${stamp}.json`);
+      }
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError(null);
+    const repositories = getRepositories();
+    try {
+      await eraseAccountData(repositories, viewer);
+      // The erasures must reach the server while the account can still write there
+      if (repositories.sync) {
+        await repositories.sync.flush();
+        if (repositories.sync.getStatus().pending > 0) {
+          throw new Error("Some of your data is still waiting to sync. Check your connection and try again.");
+        }
+      }
+      // Anonymizes anything the app couldn't reach and deletes the sign-in itself
+      const { error: rpcError } = await supabase.rpc('delete_account');
+      if (rpcError) throw rpcError;
+
+      // What's left in this browser: unreadable records kept aside, and cached AI results,
+      // which can contain resume text. AI usage rows go with the account.
+      clearQuarantine();
+      localStorage.removeItem('carrerx_pending_role');
+      await clearCache().catch(() => undefined);
+      onAccountDeleted();
+    } catch (err) {
+      setError(describeError(err));
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <motion.div variants={itemVariants}>
+      <Card className="p-0 overflow-hidden border-slate-200">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center text-brand-600">
+             <ShieldCheck className="w-5 h-5" />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-bold text-slate-900">Your Data</h3>
+            <p className="text-xs text-slate-500">Download everything CarrerX stores about you, or delete your account and your data with it.</p>
+          </div>
+        </div>
+        <div className="p-6 space-y-6 bg-white">
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              The export has your profile, saved resumes and their original files, {user.role === 'employer' ? 'the jobs you posted' : 'your applications and their status history'} and your activity. Chat and interview practice transcripts are never saved.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <Button type="button" variant="outline" size="sm" onClick={() => handleExport('zip')} disabled={!!exporting || deleting}>
+                {exporting === 'zip' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />} Download ZIP
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => handleExport('json')} disabled={!!exporting || deleting}>
+                {exporting === 'json' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />} Download JSON
+              </Button>
+            </div>
+          </div>
+
+          {confirming && (
+            <div className="p-4 rounded-lg border border-red-200 bg-red-50 space-y-3">
+              <p className="text-sm text-red-800 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-none" />
+                <span>
+                  This permanently deletes your account, resumes, files and activity{user.role === 'employer' ? ', and the jobs you posted' : ''}.
+                  {user.role !== 'employer' && ' Employers keep the applications you sent, without your name, contact details or resume.'} It can't be undone.
+                </span>
+              </p>
+              <Input
+                value={confirmText}
+                onChange={e => setConfirmText(e.target.value)}
+                placeholder={`Type ${CONFIRM_TEXT} to confirm`}
+                disabled={deleting}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+          {confirming ? (
+            <>
+              <Button type="button" variant="ghost" size="sm" onClick={() => { setConfirming(false); setConfirmText(''); }} disabled={deleting}>
+                Cancel
+              </Button>
+              <Button type="button" variant="danger" size="sm" onClick={handleDelete} disabled={confirmText !== CONFIRM_TEXT || deleting}>
+                {deleting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />} Delete My Account
+              </Button>
+            </>
+          ) : (
+            <Button type="button" variant="danger" size="sm" onClick={() => setConfirming(true)} disabled={!!exporting}>
+              <Trash2 className="w-4 h-4 mr-2" /> Delete Account
+            </Button>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default AccountData;
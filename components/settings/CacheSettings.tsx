@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Database, Trash2, Loader2, RefreshCw } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Card, Button, Badge } from '../ui/DesignSystem';
+import { itemVariants } from '../../lib/utils';
+import { CacheEntry, listCacheEntries, deleteCacheEntry, clearCache, pruneExpiredEntries } from '../../services/ai/cache';
+import { AI_FEATURE_LABELS } from '../../services/ai/types';
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const CacheSettings: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await listCacheEntries());
+    } catch (err: any) {
+      setError(err.message || "Could not read the AI cache.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    setEntries(prev => prev.filter(e => e.key !== key));
+  };
+
+  const handlePrune = async () => {
+    await pruneExpiredEntries();
+    loadEntries();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Clear all cached AI results? Future analyses will call the AI again.")) return;
+    await clearCache();
+    setEntries([]);
+  };
+
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+  const now = Date.now();
+
+  return (
+    <motion.div variants={itemVariants}>
+      <Card className="p-0 overflow-hidden border-slate-200">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-emerald-100 flex items-center justify-center text-emerald-600">
+             <Database className="w-5 h-5" />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-bold text-slate-900">AI Result Cache</h3>
+            <p className="text-xs text-slate-500">Repeat analyses of the same resume or job are served from this browser to save quota and keep scores stable.</p>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={loadEntries} disabled={loading}>
+            <RefreshCw className={loading ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+          </Button>
+        </div>
+        <div className="p-6 space-y-4 bg-white">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : loading ? (
+            <div className="flex items-center gap-2 text-sm text-slate-500"><Loader2 className="w-4 h-4 animate-spin" /> Loading cache...</div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-slate-500">No cached results yet.</p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-600">
+                <span className="font-semibold text-slate-900">{entries.length}</span> cached results, {formatBytes(totalSize)} total.
+              </p>
+              <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg max-h-64 overflow-y-auto">
+                {entries.map(entry => (
+                  <div key={entry.key} className="flex items-center gap-3 p-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-900">{AI_FEATURE_LABELS[entry.feature] || entry.feature}</span>
+                        {entry.expiresAt < now && <Badge variant="warning">Expired</Badge>}
+                        {entry.provider !== 'gemini' && <Badge variant="neutral">{entry.provider}</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">
+                        {new Date(entry.createdAt).toLocaleString()} · {entry.model} · {formatBytes(entry.size)} · expires {new Date(entry.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button type="button" onClick={() => handleDelete(entry.key)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md" title="Remove entry">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+          <Button type="button" variant="outline" size="sm" onClick={handlePrune} disabled={loading || entries.length === 0}>
+            Remove Expired
+          </Button>
+          <Button type="button" variant="danger" size="sm" onClick={handleClear} disabled={loading || entries.length === 0}>
+            <Trash2 className="w-4 h-4 mr-2" /> Clear Cache
+          </Button>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default CacheSettings;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { HardDrive, Trash2, Download, CheckCircle, Circle, RefreshCw } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Card, Button, Badge } from '../ui/DesignSystem';
+import { itemVariants } from '../../lib/utils';
+import { getSchemaStatus, discardQuarantined, clearQuarantine, QuarantinedRecord } from '../../services/data';
+
+const preview = (record: unknown) => {
+  const text = typeof record === 'string' ? record : JSON.stringify(record);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+const downloadJson = (records: QuarantinedRecord[]) => {
+  const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `carrerx-quarantine-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Shows the local storage schema version and the records its migrations couldn't repair
+const StorageDiagnostics: React.FC = () => {
+  const [status, setStatus] = useState(() => getSchemaStatus());
+  const refresh = () => setStatus(getSchemaStatus());
+
+  const handleDiscard = (id: string) => {
+    discardQuarantined(id);
+    refresh();
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Permanently delete all quarantined records? Download them first if you may need them.")) return;
+    clearQuarantine();
+    refresh();
+  };
+
+  const { version, latestVersion, isNewer, migrations, quarantined } = status;
+
+  return (
+    <motion.div variants={itemVariants}>
+      <Card className="p-0 overflow-hidden border-slate-200">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center text-slate-600">
+             <HardDrive className="w-5 h-5" />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-bold text-slate-900">Storage Diagnostics</h3>
+            <p className="text-xs text-slate-500">Data saved in this browser is upgraded when the app changes. Records that couldn't be upgraded are set aside here.</p>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={refresh}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="p-6 space-y-6 bg-white">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-600">Schema version</span>
+              <span className="font-semibold text-slate-900">v{version}</span>
+              {isNewer ? (
+                <Badge variant="warning">Newer than this app (v{latestVersion})</Badge>
+              ) : version === latestVersion ? (
+                <Badge variant="success">Up to date</Badge>
+              ) : (
+                <Badge variant="warning">v{latestVersion} pending</Badge>
+              )}
+            </div>
+            <ul className="space-y-1">
+              {migrations.map(migration => (
+                <li key={migration.version} className="flex items-center gap-2 text-xs text-slate-500">
+                  {migration.applied ? <CheckCircle className="w-3.5 h-3.5 text-emerald-500" /> : <Circle className="w-3.5 h-3.5 text-slate-300" />}
+                  v{migration.version} · {migration.description}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {quarantined.length === 0 ? (
+            <p className="text-sm text-slate-500">No quarantined records.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-600">
+                <span className="font-semibold text-slate-900">{quarantined.length}</span> quarantined {quarantined.length === 1 ? 'record' : 'records'}. They no longer appear in the app.
+              </p>
+              <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg max-h-64 overflow-y-auto">
+                {quarantined.map(record => (
+                  <div key={record.id} className="flex items-start gap-3 p-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-900">{record.reason}</span>
+                        {record.collection && <Badge variant="neutral">{record.collection}</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">
+                        {record.key} · v{record.schemaVersion} · {new Date(record.quarantinedAt).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-slate-400 font-mono break-all mt-1">{preview(record.record)}</p>
+                    </div>
+                    <button type="button" onClick={() => handleDiscard(record.id)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md" title="Delete record">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+          <Button type="button" variant="outline" size="sm" onClick={() => downloadJson(quarantined)} disabled={quarantined.length === 0}>
+            <Download className="w-4 h-4 mr-2" /> Download
+          </Button>
+          <Button type="button" variant="danger" size="sm" onClick={handleClear} disabled={quarantined.length === 0}>
+            <Trash2 className="w-4 h-4 mr-2" /> Delete All
+          </Button>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default StorageDiagnostics;
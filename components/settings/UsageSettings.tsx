@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, RefreshCw, Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Card, Button, Badge } from '../ui/DesignSystem';
+import { itemVariants, cn } from '../../lib/utils';
+import { AI_FEATURE_LABELS } from '../../services/ai/types';
+import { UsageRecord, UsageQuota, listUsage, summarizeUsage, groupUsage, getQuota, startOfMonth } from '../../services/ai/usage';
+
+export const formatTokens = (tokens: number) =>
+  tokens < 1000 ? `${tokens}` : tokens < 1_000_000 ? `${(tokens / 1000).toFixed(1)}k` : `${(tokens / 1_000_000).toFixed(2)}M`;
+
+export const formatCost = (usd: number) => usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+interface UsageSettingsProps {
+  userId: string;
+}
+
+const UsageSettings: React.FC<UsageSettingsProps> = ({ userId }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [quota, setQuota] = useState<UsageQuota>({ monthlyTokens: null, monthlyRequests: null });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Recorded by the AI API; refresh to see calls made in another view
+  const loadUsage = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [usage, limits] = await Promise.all([listUsage({ userId, since: startOfMonth() }), getQuota()]);
+      setRecords(usage);
+      setQuota(limits);
+    } catch (err: any) {
+      setError(err.message || "Could not load your AI usage.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, [userId]);
+
+  const totals = summarizeUsage(records);
+  const byFeature = groupUsage(records, r => r.feature);
+  const tokensUsed = totals.inputTokens + totals.outputTokens;
+  const tokenShare = quota.monthlyTokens ? Math.min(100, Math.round((tokensUsed / quota.monthlyTokens) * 100)) : null;
+  const requestShare = quota.monthlyRequests ? Math.min(100, Math.round((totals.requests / quota.monthlyRequests) * 100)) : null;
+
+  return (
+    <motion.div variants={itemVariants}>
+      <Card className="p-0 overflow-hidden border-slate-200">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center text-blue-600">
+             <BarChart3 className="w-5 h-5" />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-bold text-slate-900">AI Usage This Month</h3>
+            <p className="text-xs text-slate-500">Tokens and estimated cost of the AI features you used since {new Date(startOfMonth()).toLocaleDateString(undefined, { timeZone: 'UTC' })}.</p>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={loadUsage} disabled={loading}>
+            <RefreshCw className={loading ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+          </Button>
+        </div>
+        <div className="p-6 space-y-6 bg-white">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : loading ? (
+            <div className="flex items-center gap-2 text-sm text-slate-500"><Loader2 className="w-4 h-4 animate-spin" /> Loading usage...</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <UsageStat label="Requests" value={totals.requests.toLocaleString()} />
+                <UsageStat label="Input Tokens" value={formatTokens(totals.inputTokens)} />
+                <UsageStat label="Output Tokens" value={formatTokens(totals.outputTokens)} />
+                <UsageStat label="Est. Cost" value={formatCost(totals.costUsd)} />
+              </div>
+
+              {(tokenShare !== null || requestShare !== null) && (
+                <div className="space-y-3">
+                  {tokenShare !== null && (
+                    <QuotaBar label="Monthly token quota" used={formatTokens(tokensUsed)} limit={formatTokens(quota.monthlyTokens!)} percent={tokenShare} />
+                  )}
+                  {requestShare !== null && (
+                    <QuotaBar label="Monthly request quota" used={totals.requests.toLocaleString()} limit={quota.monthlyRequests!.toLocaleString()} percent={requestShare} />
+                  )}
+                </div>
+              )}
+
+              {byFeature.length === 0 ? (
+                <p className="text-sm text-slate-500">No AI usage recorded this month.</p>
+              ) : (
+                <div className="border border-slate-100 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wide">
+                      <tr>
+                        <th className="text-left font-semibold p-3">Feature</th>
+                        <th className="text-right font-semibold p-3">Requests</th>
+                        <th className="text-right font-semibold p-3">Tokens</th>
+                        <th className="text-right font-semibold p-3 hidden sm:table-cell">Avg. Latency</th>
+                        <th className="text-right font-semibold p-3">Est. Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {byFeature.map(row => (
+                        <tr key={row.key}>
+                          <td className="p-3 font-medium text-slate-900">{AI_FEATURE_LABELS[row.key] || row.key}</td>
+                          <td className="p-3 text-right text-slate-600">{row.requests}</td>
+                          <td className="p-3 text-right text-slate-600">{formatTokens(row.inputTokens + row.outputTokens)}</td>
+                          <td className="p-3 text-right text-slate-600 hidden sm:table-cell">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                          <td className="p-3 text-right text-slate-600">{formatCost(row.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
+
+const UsageStat = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-3 rounded-lg bg-slate-50 border border-slate-100">
+    <p className="text-xs text-slate-500">{label}</p>
+    <p className="text-lg font-bold text-slate-900 mt-1">{value}</p>
+  </div>
+);
+
+const QuotaBar = ({ label, used, limit, percent }: { label: string; used: string; limit: string; percent: number }) => (
+  <div>
+    <div className="flex items-center justify-between text-xs mb-1.5">
+      <span className="font-medium text-slate-700">{label}</span>
+      <span className="text-slate-500">
+        {used} / {limit}
+        {percent >= 100 && <Badge variant="error" className="ml-2">Limit reached</Badge>}
+      </span>
+    </div>
+    <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+      <div
+        className={cn("h-full rounded-full", percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-500" : "bg-brand-500")}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  </div>
+);
+
+export default UsageSettings;
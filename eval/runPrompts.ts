@@ -0,0 +1,150 @@
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, extname, basename } from 'node:path';
+import { loadEnv } from 'vite';
+
+// Offline A/B evaluation of prompt versions.
+//
+//   npm run eval:prompts -- --prompt resumeAnalysis --a 1 --b 2
+//   npm run eval:prompts -- --prompt jobMatch --a 1 --b 2 --provider mock --out report.json
+//
+// Runs every resume in <samples>/resumes (and, for jobMatch, every job description in
+// <samples>/jobs) through both versions and prints the score differences.
+
+const args = process.argv.slice(2);
+const flag = (name: string, fallback?: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const promptName = flag('prompt', 'resumeAnalysis');
+const versionA = flag('a', '1')!;
+const versionB = flag('b', '2')!;
+const samplesDir = flag('samples', 'eval/samples')!;
+const providerName = flag('provider', 'gemini');
+const outFile = flag('out');
+
+// Same env handling as vite.config.ts, before any module reads process.env
+Object.assign(process.env, loadEnv('development', process.cwd(), ''));
+
+const { analyzeResume, analyzeJobMatch } = await import('../services/gemini');
+const { setAiProvider } = await import('../services/ai/provider');
+const { createGeminiProvider } = await import('../services/ai/geminiProvider');
+const { createMockProvider } = await import('../services/ai/mockProvider');
+const { setPromptVersion } = await import('../services/ai/prompts');
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.rtf': 'application/rtf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+interface Sample {
+  name: string;
+  data: string;
+  mimeType: string;
+}
+
+interface Row {
+  sample: string;
+  scoreA: number;
+  scoreB: number;
+  delta: number;
+}
+
+const readSamples = (dir: string): Sample[] =>
+  readdirSync(dir)
+    .filter(file => MIME_TYPES[extname(file).toLowerCase()])
+    .sort()
+    .map(file => ({
+      name: basename(file),
+      data: readFileSync(join(dir, file)).toString('base64'),
+      mimeType: MIME_TYPES[extname(file).toLowerCase()],
+    }));
+
+const withVersion = async <T>(version: string, fn: () => Promise<T>): Promise<T> => {
+  setPromptVersion(promptName as 'resumeAnalysis' | 'jobMatch', version);
+  try {
+    return await fn();
+  } finally {
+    setPromptVersion(promptName as 'resumeAnalysis' | 'jobMatch', null);
+  }
+};
+
+const evaluateResumes = async (resumes: Sample[]): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for (const resume of resumes) {
+    const a = await withVersion(versionA, () => analyzeResume(resume.data, resume.mimeType));
+    const b = await withVersion(versionB, () => analyzeResume(resume.data, resume.mimeType));
+    rows.push({ sample: resume.name, scoreA: a.score, scoreB: b.score, delta: b.score - a.score });
+  }
+  return rows;
+};
+
+const evaluateJobMatches = async (resumes: Sample[], jobs: { name: string; text: string }[]): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for (const resume of resumes) {
+    // The resume profile comes from the active analysis prompt so only the match prompt varies
+    const profile = await analyzeResume(resume.data, resume.mimeType);
+    for (const job of jobs) {
+      const a = await withVersion(versionA, () => analyzeJobMatch(profile.summary, profile.skills, job.text));
+      const b = await withVersion(versionB, () => analyzeJobMatch(profile.summary, profile.skills, job.text));
+      rows.push({ sample: `${resume.name} × ${job.name}`, scoreA: a.matchScore, scoreB: b.matchScore, delta: b.matchScore - a.matchScore });
+    }
+  }
+  return rows;
+};
+
+const main = async () => {
+  if (promptName !== 'resumeAnalysis' && promptName !== 'jobMatch') {
+    throw new Error(`Only "resumeAnalysis" and "jobMatch" produce scores; got "${promptName}".`);
+  }
+  setAiProvider(providerName === 'mock' ? createMockProvider({ latencyMs: 0 }) : createGeminiProvider());
+
+  const resumes = readSamples(join(samplesDir, 'resumes'));
+  if (resumes.length === 0) throw new Error(`No resumes found in ${join(samplesDir, 'resumes')}.`);
+
+  console.log(`Evaluating ${promptName}@${versionA} vs @${versionB} on ${resumes.length} resumes (${providerName})\n`);
+
+  let rows: Row[];
+  if (promptName === 'jobMatch') {
+    const jobs = readdirSync(join(samplesDir, 'jobs'))
+      .filter(file => extname(file) === '.txt' || extname(file) === '.md')
+      .sort()
+      .map(file => ({ name: file, text: readFileSync(join(samplesDir, 'jobs', file), 'utf8') }));
+    rows = await evaluateJobMatches(resumes, jobs);
+  } else {
+    rows = await evaluateResumes(resumes);
+  }
+
+  const width = Math.max(6, ...rows.map(r => r.sample.length));
+  console.log(`${'Sample'.padEnd(width)}  ${`v${versionA}`.padStart(5)}  ${`v${versionB}`.padStart(5)}  Delta`);
+  rows.forEach(r => {
+    const delta = r.delta > 0 ? `+${r.delta}` : `${r.delta}`;
+    console.log(`${r.sample.padEnd(width)}  ${String(r.scoreA).padStart(5)}  ${String(r.scoreB).padStart(5)}  ${delta.padStart(5)}`);
+  });
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+  const summary = {
+    meanA: mean(rows.map(r => r.scoreA)),
+    meanB: mean(rows.map(r => r.scoreB)),
+    meanDelta: mean(rows.map(r => r.delta)),
+    meanAbsDelta: mean(rows.map(r => Math.abs(r.delta))),
+    changedOver5: rows.filter(r => Math.abs(r.delta) > 5).length,
+  };
+  console.log(`\nMean: v${versionA} ${summary.meanA.toFixed(1)}, v${versionB} ${summary.meanB.toFixed(1)} (Δ ${summary.meanDelta.toFixed(1)}, |Δ| ${summary.meanAbsDelta.toFixed(1)}); ${summary.changedOver5}/${rows.length} moved more than 5 points.`);
+
+  if (outFile) {
+    writeFileSync(outFile, JSON.stringify({ prompt: promptName, versionA, versionB, provider: providerName, rows, summary }, null, 2));
+    console.log(`Report written to ${outFile}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
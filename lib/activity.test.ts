@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { ACTIVITY_KIND_LIST } from '../types';
+import { ACTIVITY_KINDS, kindFromTitle } from './activity';
+
+const MIGRATIONS = new URL('../supabase/migrations/', import.meta.url);
+
+// The kinds the activities table accepts: its kind check, as last defined by the migrations
+const kindsInSql = () => {
+  const checks = readdirSync(MIGRATIONS)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .flatMap(file => [...readFileSync(new URL(file, MIGRATIONS), 'utf8').matchAll(/check \(kind in \(([^)]*)\)/g)].map(match => match[1]));
+  assert.ok(checks.length > 0, 'no kind check found in supabase/migrations');
+  return [...checks[checks.length - 1].matchAll(/'([a-z_]+)'/g)].map(match => match[1]);
+};
+
+test('the activities table accepts exactly the kinds in ACTIVITY_KIND_LIST', () => {
+  assert.deepEqual([...kindsInSql()].sort(), [...ACTIVITY_KIND_LIST].sort());
+});
+
+test('every kind has a title, and titles map back to their kind', () => {
+  assert.deepEqual(Object.keys(ACTIVITY_KINDS).sort(), [...ACTIVITY_KIND_LIST].sort());
+  for (const kind of ACTIVITY_KIND_LIST) {
+    assert.equal(kindFromTitle(ACTIVITY_KINDS[kind].title), kind);
+  }
+});
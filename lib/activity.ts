@@ -0,0 +1,44 @@
+import { ActivityCategory, ActivityKind } from "../types";
+
+// Title shown for each kind, and the category it's filtered and coloured by
+export const ACTIVITY_KINDS: Record<ActivityKind, { title: string; category: ActivityCategory }> = {
+  resume_analyzed: { title: 'Resume Analysis', category: 'resume' },
+  resume_loaded: { title: 'Resume Loaded', category: 'resume' },
+  resume_tailored: { title: 'Resume Tailored', category: 'resume' },
+  jobs_generated: { title: 'Job Search', category: 'job_match' },
+  job_analyzed: { title: 'Job Analysis', category: 'job_match' },
+  job_applied: { title: 'Job Application', category: 'job_match' },
+  job_posted: { title: 'Job Posted', category: 'recruitment' },
+  job_drafted: { title: 'Job Draft Saved', category: 'recruitment' },
+  job_updated: { title: 'Job Updated', category: 'recruitment' },
+  application_status_changed: { title: 'Application Update', category: 'recruitment' },
+  cover_letter_generated: { title: 'Cover Letter', category: 'cover_letter' },
+  skills_suggested: { title: 'Skill Suggestions', category: 'skills' },
+};
+
+export const ACTIVITY_CATEGORY_LABELS: Record<ActivityCategory, string> = {
+  resume: 'Resumes',
+  job_match: 'Jobs',
+  recruitment: 'Recruitment',
+  cover_letter: 'Cover letters',
+  skills: 'Skills',
+  interview: 'Interviews',
+};
+
+export const ACTIVITY_CATEGORY_COLORS: Record<ActivityCategory, string> = {
+  resume: 'bg-emerald-500',
+  interview: 'bg-purple-500',
+  job_match: 'bg-brand-500',
+  recruitment: 'bg-blue-500',
+  cover_letter: 'bg-pink-500',
+  skills: 'bg-amber-500',
+};
+
+export const activityCategory = (kind: ActivityKind) => ACTIVITY_KINDS[kind]?.category ?? 'resume';
+
+export const kindsInCategory = (category: ActivityCategory) =>
+  (Object.keys(ACTIVITY_KINDS) as ActivityKind[]).filter(kind => ACTIVITY_KINDS[kind].category === category);
+
+// Activities saved before kinds existed only have their title
+export const kindFromTitle = (title: string): ActivityKind =>
+  (Object.keys(ACTIVITY_KINDS) as ActivityKind[]).find(kind => ACTIVITY_KINDS[kind].title === title) ?? 'resume_analyzed';
@@ -0,0 +1,136 @@
+import { readZipEntry } from './zip';
+
+// Client-side text extraction for uploaded documents
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// pdf.js is large, so it is only loaded the first time a PDF needs extracting
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+};
+
+const extractPdfText = async (base64: string): Promise<string> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: base64ToBytes(base64) }).promise;
+  const pages: string[] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const content = await page.getTextContent();
+    // Rebuild lines from the text runs; hasEOL marks the end of a visual line
+    pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+  }
+  await pdf.destroy();
+  return pages.join('\n\n').replace(/[ \t]+\n/g, '\n').trim();
+};
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|(lt|gt|amp|quot|apos));/gi, (_, hex, dec, name) =>
+    hex ? String.fromCodePoint(parseInt(hex, 16))
+      : dec ? String.fromCodePoint(parseInt(dec, 10))
+      : ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[name.toLowerCase()]);
+
+// The body of a Word document is word/document.xml inside the .docx (a ZIP). Each <w:p>
+// is a paragraph; list items get a bullet, since their numbering lives in another part.
+const extractDocxText = async (base64: string): Promise<string> => {
+  const xml = await readZipEntry(base64ToBytes(base64), 'word/document.xml');
+  if (!xml) throw new Error("This isn't a Word document.");
+  return new TextDecoder().decode(xml)
+    .split('</w:p>')
+    .map(paragraph => {
+      const text = paragraph
+        // Tracked deletions and field codes aren't part of the visible text
+        .replace(/<w:(delText|instrText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+        .replace(/<w:tab\/>/g, '\t')
+        .replace(/<w:(br|cr)\b[^>]*\/>/g, '\n')
+        .replace(/<[^>]+>/g, '');
+      return (/<w:numPr>/.test(paragraph) && text.trim() ? '• ' : '') + decodeXmlEntities(text);
+    })
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Groups that hold formatting tables, metadata or embedded objects rather than text
+const RTF_SKIPPED_GROUPS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'rsidtbl', 'info', 'pict', 'object',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'xmlnstbl', 'generator'
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', row: '\n', page: '\n', sect: '\n', tab: '\t', cell: '\t',
+  bullet: '•', emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”'
+};
+
+const rtfToText = (rtf: string) => {
+  // Bytes written as \'hh are in the document's code page, almost always Windows-1252
+  const codePage = new TextDecoder('windows-1252');
+  const groups: { skip: boolean; uc: number }[] = [];
+  let skip = false;
+  // After \uN, the next uc characters are a fallback for readers without Unicode
+  let uc = 1;
+  let fallback = 0;
+  let out = '';
+  const emit = (text: string) => {
+    if (skip) return;
+    const dropped = Math.min(fallback, text.length);
+    fallback -= dropped;
+    out += text.slice(dropped);
+  };
+
+  const tokens = /\\([a-z]+)(-?\d+)? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|([^\\{}\r\n]+)|[\r\n]+/gi;
+  for (const [, word, param, hex, symbol, brace, run] of rtf.matchAll(tokens)) {
+    if (brace === '{') {
+      groups.push({ skip, uc });
+    } else if (brace === '}') {
+      ({ skip, uc } = groups.pop() ?? { skip: false, uc: 1 });
+    } else if (word) {
+      fallback = 0;
+      if (RTF_SKIPPED_GROUPS.has(word)) skip = true;
+      else if (word === 'uc') uc = Number(param ?? 1);
+      else if (word === 'u' && param) {
+        emit(String.fromCharCode(Number(param) < 0 ? Number(param) + 65536 : Number(param)));
+        fallback = uc;
+      } else if (RTF_SYMBOLS[word]) emit(RTF_SYMBOLS[word]);
+    } else if (hex) {
+      emit(codePage.decode(new Uint8Array([parseInt(hex, 16)])));
+    } else if (symbol) {
+      // \* marks a group that readers may ignore when they don't know it
+      if (symbol === '*') skip = true;
+      else if (symbol === '\n' || symbol === '\r') emit('\n');
+      else if (symbol === '~') emit(' ');
+      else if (symbol === '_') emit('-');
+      else if (symbol !== '-') emit(symbol);
+    } else if (run) {
+      emit(run);
+    }
+  }
+  return out.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const isRtf = (mimeType: string) => mimeType.includes('rtf');
+
+export const canExtractText = (mimeType: string) =>
+  mimeType.includes('pdf') || mimeType === DOCX_MIME_TYPE || isRtf(mimeType) || mimeType.startsWith('text/');
+
+// Returns the document's plain text. Throws for formats that need OCR (images).
+export const extractText = async (base64: string, mimeType: string): Promise<string> => {
+  if (mimeType.includes('pdf')) return extractPdfText(base64);
+  if (mimeType === DOCX_MIME_TYPE) return extractDocxText(base64);
+  // RTF is 7-bit text with escapes for everything else
+  if (isRtf(mimeType)) return rtfToText(new TextDecoder('latin1').decode(base64ToBytes(base64)));
+  if (mimeType.startsWith('text/')) return new TextDecoder().decode(base64ToBytes(base64));
+  throw new Error(`Cannot extract text from ${mimeType || 'this file type'}.`);
+};
@@ -0,0 +1,44 @@
+// Minimal promise wrappers around IndexedDB
+
+const connections: Record<string, Promise<IDBDatabase>> = {};
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  if (!connections[name]) {
+    connections[name] = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    connections[name].catch(() => delete connections[name]);
+  }
+  return connections[name];
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs a single request against one object store
+export const withStore = async <T>(
+  db: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const transaction = (await db).transaction(storeName, mode);
+  return requestToPromise(fn(transaction.objectStore(storeName)));
+};
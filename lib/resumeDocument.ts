@@ -0,0 +1,165 @@
+import { ParsedResume, ResumeAnalysis, ResumeDraft, ResumeSection, ResumeTemplate } from '../types';
+
+// The resume builder's document model: a draft is laid out as a flat list of blocks,
+// which the preview, the PDF and DOCX exports and the plain text for scoring all share.
+
+export const RESUME_SECTIONS: Record<ResumeSection, { title: string }> = {
+  summary: { title: 'Summary' },
+  experience: { title: 'Experience' },
+  education: { title: 'Education' },
+  skills: { title: 'Skills' },
+  projects: { title: 'Projects' },
+  certifications: { title: 'Certifications' }
+};
+
+export const DEFAULT_SECTION_ORDER: ResumeSection[] = ['summary', 'experience', 'skills', 'education', 'projects', 'certifications'];
+
+// All single column, standard headings and plain text, so applicant tracking systems
+// read them in order; they differ in type and spacing only
+export interface TemplateSpec {
+  label: string;
+  description: string;
+  font: 'sans' | 'serif';
+  // In points
+  sizes: { name: number; heading: number; body: number; detail: number };
+  nameAlign: 'left' | 'center';
+  uppercaseHeadings: boolean;
+  // A line under each heading
+  headingRule: boolean;
+  lineHeight: number;
+  sectionGap: number;
+  margin: number;
+}
+
+export const RESUME_TEMPLATES: Record<ResumeTemplate, TemplateSpec> = {
+  classic: {
+    label: 'Classic',
+    description: 'Serif type, centered name. Suits traditional industries.',
+    font: 'serif',
+    sizes: { name: 20, heading: 11, body: 10.5, detail: 10 },
+    nameAlign: 'center',
+    uppercaseHeadings: true,
+    headingRule: true,
+    lineHeight: 1.25,
+    sectionGap: 12,
+    margin: 54
+  },
+  modern: {
+    label: 'Modern',
+    description: 'Clean sans-serif with roomier spacing.',
+    font: 'sans',
+    sizes: { name: 22, heading: 12, body: 10, detail: 9.5 },
+    nameAlign: 'left',
+    uppercaseHeadings: false,
+    headingRule: true,
+    lineHeight: 1.3,
+    sectionGap: 14,
+    margin: 54
+  },
+  compact: {
+    label: 'Compact',
+    description: 'Smaller type and margins to fit more on one page.',
+    font: 'sans',
+    sizes: { name: 16, heading: 10, body: 9, detail: 9 },
+    nameAlign: 'left',
+    uppercaseHeadings: true,
+    headingRule: false,
+    lineHeight: 1.2,
+    sectionGap: 8,
+    margin: 40
+  }
+};
+
+export type ResumeBlockKind = 'name' | 'contact' | 'heading' | 'entry' | 'detail' | 'paragraph' | 'bullet';
+
+export interface ResumeBlock {
+  kind: ResumeBlockKind;
+  text: string;
+  // Right-aligned on entry lines: dates, or a project's URL
+  aside?: string;
+}
+
+export const emptyParsedResume = (): ParsedResume => ({
+  contact: { name: '', headline: '', email: '', phone: '', location: '' },
+  experience: [],
+  education: [],
+  certifications: [],
+  projects: [],
+  links: []
+});
+
+// Seeded from the resume's parsed details and the skills the analysis found
+export const createDraft = (analysis: ResumeAnalysis): ResumeDraft => {
+  const { promptVersion, reviewedAt, ...content } = analysis.parsed ?? emptyParsedResume();
+  return {
+    content: structuredClone(content),
+    summary: '',
+    skills: [...analysis.skills],
+    sectionOrder: [...DEFAULT_SECTION_ORDER],
+    template: 'classic',
+    updatedAt: new Date().toISOString()
+  };
+};
+
+const dateRange = (start: string, end: string) =>
+  start || end ? `${start || '?'} – ${end || 'Present'}` : '';
+
+const joined = (parts: string[], separator: string) => parts.map(part => part.trim()).filter(Boolean).join(separator);
+
+export const resumeBlocks = (draft: ResumeDraft): ResumeBlock[] => {
+  const { content, summary, skills, sectionOrder, template } = draft;
+  const { contact } = content;
+  const heading = (section: ResumeSection): ResumeBlock => {
+    const title = RESUME_SECTIONS[section].title;
+    return { kind: 'heading', text: RESUME_TEMPLATES[template].uppercaseHeadings ? title.toUpperCase() : title };
+  };
+
+  const blocks: ResumeBlock[] = [{ kind: 'name', text: contact.name.trim() || 'Your Name' }];
+  if (contact.headline.trim()) blocks.push({ kind: 'contact', text: contact.headline.trim() });
+  const contactLine = joined([contact.email, contact.phone, contact.location, ...content.links.map(link => link.url)], ' | ');
+  if (contactLine) blocks.push({ kind: 'contact', text: contactLine });
+
+  sectionOrder.forEach(section => {
+    const body: ResumeBlock[] = [];
+    if (section === 'summary' && summary.trim()) {
+      body.push({ kind: 'paragraph', text: summary.trim() });
+    } else if (section === 'experience') {
+      content.experience.forEach(role => {
+        body.push({ kind: 'entry', text: role.title, aside: dateRange(role.startDate, role.endDate) });
+        const detail = joined([role.company, role.location], ' | ');
+        if (detail) body.push({ kind: 'detail', text: detail });
+        role.bullets.filter(bullet => bullet.trim()).forEach(bullet => body.push({ kind: 'bullet', text: bullet.trim() }));
+      });
+    } else if (section === 'education') {
+      content.education.forEach(school => {
+        body.push({ kind: 'entry', text: school.institution, aside: dateRange(school.startDate, school.endDate) });
+        const detail = joined([school.degree, school.field], ', ');
+        if (detail) body.push({ kind: 'detail', text: detail });
+      });
+    } else if (section === 'skills' && skills.some(skill => skill.trim())) {
+      body.push({ kind: 'paragraph', text: joined(skills, ', ') });
+    } else if (section === 'projects') {
+      content.projects.forEach(project => {
+        body.push({ kind: 'entry', text: project.name, aside: project.url });
+        if (project.description.trim()) body.push({ kind: 'paragraph', text: project.description.trim() });
+      });
+    } else if (section === 'certifications') {
+      content.certifications.forEach(cert => {
+        body.push({ kind: 'entry', text: cert.name, aside: cert.date });
+        if (cert.issuer.trim()) body.push({ kind: 'detail', text: cert.issuer.trim() });
+      });
+    }
+    // Sections without anything in them are left out
+    if (body.length > 0) blocks.push(heading(section), ...body);
+  });
+  return blocks;
+};
+
+// What gets scored: the same content in reading order, as plain text
+export const draftToText = (draft: ResumeDraft) =>
+  resumeBlocks(draft).map(block => {
+    if (block.kind === 'heading') return `\n${block.text.toUpperCase()}`;
+    if (block.kind === 'bullet') return `- ${block.text}`;
+    if (block.kind === 'entry') return block.aside ? `${block.text} (${block.aside})` : block.text;
+    return block.text;
+  }).join('\n').trim();
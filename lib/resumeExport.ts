@@ -0,0 +1,264 @@
+import { ResumeDraft } from '../types';
+import { DOCX_MIME_TYPE } from './extractText';
+import { RESUME_TEMPLATES, ResumeBlock, TemplateSpec, resumeBlocks } from './resumeDocument';
+import { createZip } from './zip';
+
+// Client-side PDF and Word exports of a builder draft. Both are written by hand: the PDF
+// uses the standard fonts every reader has, so nothing is embedded, and the .docx is the
+// three parts Word needs. Text stays real text, which is what applicant tracking systems read.
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const BULLET_INDENT = 12;
+
+// Advance widths of characters 32-126 in the standard fonts, in 1/1000 of the font size
+const WIDTHS = {
+  'Helvetica': '278 278 355 556 556 889 667 191 333 333 389 584 278 333 278 278 556 556 556 556 556 556 556 556 556 556 278 278 584 584 584 556 1015 667 667 722 722 667 611 778 722 278 500 667 556 833 722 778 667 778 722 667 611 722 667 944 667 667 611 278 278 278 469 556 333 556 556 500 556 556 278 556 556 222 222 500 222 833 556 556 556 556 333 500 278 556 500 722 500 500 500 334 260 334 584',
+  'Helvetica-Bold': '278 333 474 556 556 889 722 238 333 333 389 584 278 333 278 278 556 556 556 556 556 556 556 556 556 556 333 333 584 584 584 611 975 722 722 722 722 667 611 778 722 278 556 722 611 833 722 778 667 778 722 667 611 722 667 944 667 667 611 333 278 333 584 556 333 556 611 556 611 556 333 611 611 278 278 556 278 889 611 611 611 611 389 556 333 611 556 778 556 556 500 389 280 389 584',
+  'Times-Roman': '250 333 408 500 500 833 778 180 333 333 500 564 250 333 250 278 500 500 500 500 500 500 500 500 500 500 278 278 564 564 564 444 921 722 667 667 722 611 556 722 722 333 389 722 611 889 722 722 556 722 667 556 611 722 722 944 722 722 611 333 278 333 469 500 333 444 500 444 500 444 333 500 500 278 278 500 278 778 500 500 500 500 333 389 278 500 500 722 500 500 444 480 200 480 541',
+  'Times-Bold': '250 333 555 500 500 1000 833 278 333 333 500 570 250 333 250 278 500 500 500 500 500 500 500 500 500 500 333 333 570 570 570 500 930 722 667 722 722 667 611 778 778 389 500 778 667 944 722 778 611 778 722 556 667 722 722 1000 722 722 667 333 278 333 581 500 333 500 556 444 556 444 333 500 556 278 333 556 278 833 556 500 556 556 444 389 333 556 500 722 500 500 444 394 220 394 520'
+};
+
+type PdfFont = keyof typeof WIDTHS;
+
+const WIDTH_TABLES = Object.fromEntries(
+  Object.entries(WIDTHS).map(([font, widths]) => [font, widths.split(' ').map(Number)])
+) as Record<PdfFont, number[]>;
+
+// The standard fonts use WinAnsi (Windows-1252); anything outside it becomes "?"
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text.replace(/\s+/g, ' '), char => {
+    const code = char.charCodeAt(0);
+    if ((code >= 32 && code < 127) || (code >= 0xa0 && code <= 0xff)) return char;
+    return String.fromCharCode(WIN_ANSI[char] ?? 63);
+  }).join('');
+
+const textWidth = (text: string, font: PdfFont, size: number) => {
+  const table = WIDTH_TABLES[font];
+  let width = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    width += code >= 32 && code <= 126 ? table[code - 32] : code === 0x97 ? 1000 : table[16];
+  }
+  return (width * size) / 1000;
+};
+
+// Greedy word wrap; words longer than a line (long URLs) are broken anywhere
+const wrap = (text: string, font: PdfFont, size: number, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      return;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (textWidth(line, font, size) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const pdfString = (text: string) => `(${text.replace(/[\\()]/g, match => `\\${match}`)})`;
+
+const fontsFor = (template: TemplateSpec): { regular: PdfFont; bold: PdfFont } =>
+  template.font === 'serif' ? { regular: 'Times-Roman', bold: 'Times-Bold' } : { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+// Lays the blocks out into pages of PDF drawing operators
+const layoutPages = (blocks: ResumeBlock[], template: TemplateSpec) => {
+  const fonts = fontsFor(template);
+  const resource = (font: PdfFont) => font === fonts.bold ? '/F2' : '/F1';
+  const { margin, sizes, lineHeight } = template;
+  const width = PAGE_WIDTH - margin * 2;
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - margin;
+
+  const page = () => pages[pages.length - 1];
+  const ensureRoom = (height: number) => {
+    if (y - height < margin && page().length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - margin;
+    }
+  };
+  const text = (value: string, x: number, font: PdfFont, size: number) =>
+    page().push(`BT ${resource(font)} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(value)} Tj ET`);
+  const lines = (value: string, font: PdfFont, size: number, options: { indent?: number; align?: 'left' | 'center' } = {}) => {
+    const indent = options.indent ?? 0;
+    wrap(toWinAnsi(value), font, size, width - indent).forEach(line => {
+      ensureRoom(size * lineHeight);
+      y -= size * lineHeight;
+      const x = options.align === 'center' ? margin + (width - textWidth(line, font, size)) / 2 : margin + indent;
+      text(line, x, font, size);
+    });
+  };
+
+  blocks.forEach((block, index) => {
+    switch (block.kind) {
+      case 'name':
+        lines(block.text, fonts.bold, sizes.name, { align: template.nameAlign });
+        y -= 2;
+        break;
+      case 'contact':
+        lines(block.text, fonts.regular, sizes.detail, { align: template.nameAlign });
+        break;
+      case 'heading':
+        // Keep a heading on the same page as the first line under it
+        ensureRoom(template.sectionGap + (sizes.heading + sizes.body * 2) * lineHeight);
+        y -= template.sectionGap;
+        lines(block.text, fonts.bold, sizes.heading);
+        if (template.headingRule) {
+          page().push(`0.5 w ${margin} ${(y - 3).toFixed(2)} m ${PAGE_WIDTH - margin} ${(y - 3).toFixed(2)} l S`);
+        }
+        y -= 5;
+        break;
+      case 'entry': {
+        const aside = block.aside ? toWinAnsi(block.aside) : '';
+        const asideWidth = aside ? textWidth(aside, fonts.regular, sizes.detail) + 12 : 0;
+        // A little space between one entry and the next
+        if (blocks[index - 1]?.kind !== 'heading') y -= sizes.body * 0.4;
+        const [first, ...rest] = wrap(toWinAnsi(block.text), fonts.bold, sizes.body, width - asideWidth);
+        ensureRoom(sizes.body * lineHeight);
+        y -= sizes.body * lineHeight;
+        text(first ?? '', margin, fonts.bold, sizes.body);
+        if (aside) text(aside, PAGE_WIDTH - margin - textWidth(aside, fonts.regular, sizes.detail), fonts.regular, sizes.detail);
+        if (rest.length > 0) lines(rest.join(' '), fonts.bold, sizes.body);
+        break;
+      }
+      case 'detail':
+        lines(block.text, fonts.regular, sizes.detail);
+        break;
+      case 'paragraph':
+        lines(block.text, fonts.regular, sizes.body);
+        break;
+      case 'bullet':
+        // The bullet sits beside the first line, which ensureRoom keeps on this page
+        ensureRoom(sizes.body * lineHeight);
+        page().push(`BT ${resource(fonts.regular)} ${sizes.body} Tf ${(margin + 2).toFixed(2)} ${(y - sizes.body * lineHeight).toFixed(2)} Td ${pdfString('\x95')} Tj ET`);
+        lines(block.text, fonts.regular, sizes.body, { indent: BULLET_INDENT });
+        break;
+    }
+  });
+  return pages;
+};
+
+const toBytes = (binary: string) => {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const exportResumePdf = (draft: ResumeDraft): Blob => {
+  const template = RESUME_TEMPLATES[draft.template];
+  const fonts = fontsFor(template);
+  const pages = layoutPages(resumeBlocks(draft), template);
+
+  // Objects 1-4 are fixed; each page then adds a page object and its content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${fonts.regular} /Encoding /WinAnsiEncoding >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${fonts.bold} /Encoding /WinAnsiEncoding >>`
+  ];
+  pages.forEach((operators, i) => {
+    const stream = operators.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+  objects.push(`<< /Title ${pdfString(toWinAnsi(draft.content.contact.name || 'Resume'))} /Producer (CarrerX) >>`);
+
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new Blob([toBytes(pdf)], { type: 'application/pdf' });
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+
+// Sizes in WordprocessingML are half-points, distances twentieths of a point
+const DOCX_FONTS = { sans: 'Arial', serif: 'Times New Roman' };
+
+export const exportResumeDocx = (draft: ResumeDraft): Blob => {
+  const template = RESUME_TEMPLATES[draft.template];
+  const { sizes, margin } = template;
+  const font = DOCX_FONTS[template.font];
+  const rightTab = (PAGE_WIDTH - margin * 2) * 20;
+  const line = Math.round(240 * template.lineHeight);
+
+  const run = (text: string, size: number, bold = false) =>
+    `<w:r><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>${bold ? '<w:b/>' : ''}<w:sz w:val="${Math.round(size * 2)}"/></w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+  const paragraph = (runs: string, properties = '', spaceBefore = 0) =>
+    `<w:p><w:pPr>${properties}<w:spacing w:before="${Math.round(spaceBefore * 20)}" w:after="0" w:line="${line}" w:lineRule="auto"/></w:pPr>${runs}</w:p>`;
+  const align = template.nameAlign === 'center' ? '<w:jc w:val="center"/>' : '';
+
+  const blocks = resumeBlocks(draft);
+  const body = blocks.map((block, index) => {
+    switch (block.kind) {
+      case 'name':
+        return paragraph(run(block.text, sizes.name, true), align);
+      case 'contact':
+        return paragraph(run(block.text, sizes.detail), align);
+      case 'heading':
+        return paragraph(
+          run(block.text, sizes.heading, true),
+          `<w:keepNext/>${template.headingRule ? '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="000000"/></w:pBdr>' : ''}`,
+          template.sectionGap
+        );
+      case 'entry':
+        return paragraph(
+          run(block.text, sizes.body, true) + (block.aside ? `<w:r><w:tab/></w:r>${run(block.aside, sizes.detail)}` : ''),
+          `<w:keepNext/><w:tabs><w:tab w:val="right" w:pos="${rightTab}"/></w:tabs>`,
+          blocks[index - 1]?.kind === 'heading' ? 4 : sizes.body * 0.4
+        );
+      case 'detail':
+        return paragraph(run(block.text, sizes.detail));
+      case 'paragraph':
+        return paragraph(run(block.text, sizes.body));
+      case 'bullet':
+        return paragraph(run(`•\t${block.text}`, sizes.body), `<w:tabs><w:tab w:val="left" w:pos="${BULLET_INDENT * 20}"/></w:tabs><w:ind w:left="${BULLET_INDENT * 20}" w:hanging="${BULLET_INDENT * 20}"/>`);
+    }
+  }).join('');
+
+  const margins = margin * 20;
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH * 20}" w:h="${PAGE_HEIGHT * 20}"/><w:pgMar w:top="${margins}" w:right="${margins}" w:bottom="${margins}" w:left="${margins}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = createZip([
+    {
+      path: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>'
+    },
+    {
+      path: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>'
+    },
+    { path: 'word/document.xml', data: documentXml }
+  ]);
+  return new Blob([zip], { type: DOCX_MIME_TYPE });
+};
+
+// A file name from the candidate's name, e.g. "Alex-Morgan-Resume.pdf"
+export const resumeFileName = (draft: ResumeDraft, extension: 'pdf' | 'docx') => {
+  const name = draft.content.contact.name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return `${name ? `${name}-Resume` : 'Resume'}.${extension}`;
+};
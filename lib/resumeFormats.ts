@@ -0,0 +1,68 @@
+import { DOCX_MIME_TYPE } from './extractText';
+
+// The resume files candidates can upload, and what each one may be
+
+export interface ResumeFormat {
+  label: string;
+  // The type the file is stored and analyzed as
+  mimeType: string;
+  // Other types browsers report for the same files
+  aliases: string[];
+  extensions: string[];
+  maxBytes: number;
+  // The AI reads these as text extracted in the browser; it can't take the file itself
+  textOnly: boolean;
+}
+
+const MB = 1024 * 1024;
+
+export const RESUME_FORMATS: ResumeFormat[] = [
+  { label: 'PDF', mimeType: 'application/pdf', aliases: [], extensions: ['.pdf'], maxBytes: 5 * MB, textOnly: false },
+  { label: 'Word', mimeType: DOCX_MIME_TYPE, aliases: [], extensions: ['.docx'], maxBytes: 5 * MB, textOnly: true },
+  // RTF files carry their formatting (and any pictures) as text, so they run larger
+  { label: 'RTF', mimeType: 'application/rtf', aliases: ['text/rtf'], extensions: ['.rtf'], maxBytes: 5 * MB, textOnly: true },
+  { label: 'Markdown', mimeType: 'text/markdown', aliases: ['text/x-markdown'], extensions: ['.md', '.markdown'], maxBytes: 1 * MB, textOnly: true },
+  { label: 'Text', mimeType: 'text/plain', aliases: [], extensions: ['.txt'], maxBytes: 1 * MB, textOnly: true },
+  { label: 'PNG', mimeType: 'image/png', aliases: [], extensions: ['.png'], maxBytes: 5 * MB, textOnly: false },
+  { label: 'JPEG', mimeType: 'image/jpeg', aliases: ['image/jpg'], extensions: ['.jpg', '.jpeg'], maxBytes: 5 * MB, textOnly: false }
+];
+
+// For the file input's accept attribute
+export const RESUME_ACCEPT = RESUME_FORMATS.flatMap(format => [...format.extensions, format.mimeType]).join(',');
+
+export const RESUME_FORMAT_SUMMARY = RESUME_FORMATS.map(format => format.label).join(', ');
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+export const resumeFormatForType = (mimeType: string) =>
+  RESUME_FORMATS.find(format => format.mimeType === mimeType || format.aliases.includes(mimeType));
+
+// By extension first: browsers report Markdown and RTF files as all sorts of types, or none
+export const resumeFormatOf = (file: { name: string; type: string }) =>
+  RESUME_FORMATS.find(format => format.extensions.includes(extensionOf(file.name))) ?? resumeFormatForType(file.type);
+
+const formatSize = (bytes: number) =>
+  bytes >= MB ? `${(bytes / MB).toFixed(bytes % MB ? 1 : 0)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+
+// Why the file can't be used, or null when it can
+export const validateResumeFile = (file: { name: string; type: string; size: number }): string | null => {
+  const extension = extensionOf(file.name);
+  if (extension === '.doc') {
+    return "Older Word (.doc) files aren't supported. Save the resume as .docx or PDF in Word and upload that.";
+  }
+  if (extension === '.pages' || extension === '.odt') {
+    return `${extension} files aren't supported. Export the resume as PDF or Word (.docx) and upload that.`;
+  }
+  const format = resumeFormatOf(file);
+  if (!format) {
+    return `${file.name} isn't a supported resume format. Upload one of: ${RESUME_FORMAT_SUMMARY}.`;
+  }
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > format.maxBytes) {
+    return `${format.label} resumes can be up to ${formatSize(format.maxBytes)}; this one is ${formatSize(file.size)}.`;
+  }
+  return null;
+};
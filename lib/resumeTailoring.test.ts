@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResumeDraft, ResumeTailoring } from '../types';
+import { applyTailoring } from './resumeTailoring';
+
+const base: ResumeDraft = {
+  content: {
+    contact: { name: 'Alex Doe', headline: 'Backend Engineer', email: '', phone: '', location: '' },
+    experience: [
+      {
+        title: 'Engineer',
+        company: 'Acme',
+        location: '',
+        startDate: '2021',
+        endDate: '',
+        bullets: ['Built billing APIs in Go', 'Cut deploy time by 40%', 'Mentored 3 engineers']
+      },
+      {
+        title: 'Intern',
+        company: 'Initech',
+        location: '',
+        startDate: '2020',
+        endDate: '2020',
+        bullets: ['Wrote internal tools']
+      }
+    ],
+    education: [],
+    certifications: [],
+    projects: [],
+    links: []
+  },
+  summary: 'Backend engineer.',
+  skills: ['Go', 'SQL', 'Docker'],
+  sectionOrder: ['summary', 'experience', 'skills'],
+  template: 'classic',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+const tailoring = (overrides: Partial<ResumeTailoring> = {}): ResumeTailoring => ({
+  summary: '',
+  skills: [],
+  experience: [],
+  keywordsUsed: [],
+  keywordsSkipped: [],
+  ...overrides
+});
+
+test('bullets are reordered and reworded within their role', () => {
+  const { draft, changes } = applyTailoring(base, tailoring({
+    experience: [{
+      bullets: [
+        { from: 1, text: 'Cut deploy time by 40% with CI pipelines' },
+        { from: 0, text: 'Built billing APIs in Go' },
+        { from: 2, text: 'Mentored 3 engineers' }
+      ]
+    }]
+  }), []);
+
+  assert.deepEqual(draft.content.experience[0].bullets, ['Cut deploy time by 40% with CI pipelines', 'Built billing APIs in Go', 'Mentored 3 engineers']);
+  assert.deepEqual(draft.content.experience[1], base.content.experience[1]);
+  assert.deepEqual(changes.roles, [{
+    name: 'Engineer at Acme',
+    reordered: true,
+    reworded: [{ before: 'Cut deploy time by 40%', after: 'Cut deploy time by 40% with CI pipelines' }]
+  }]);
+});
+
+test('rewordings that bring in new figures keep the original bullet', () => {
+  const { draft, changes } = applyTailoring(base, tailoring({
+    experience: [{
+      bullets: [
+        { from: 0, text: 'Built billing APIs in Go serving 2M users' },
+        { from: 1, text: 'Cut deploy time by 60%' },
+        { from: 2, text: 'Mentored and onboarded 3 engineers' }
+      ]
+    }]
+  }), []);
+
+  assert.deepEqual(draft.content.experience[0].bullets, ['Built billing APIs in Go', 'Cut deploy time by 40%', 'Mentored and onboarded 3 engineers']);
+  assert.deepEqual(changes.roles[0].reworded, [{ before: 'Mentored 3 engineers', after: 'Mentored and onboarded 3 engineers' }]);
+  assert.equal(changes.roles[0].reordered, false);
+});
+
+test('roles with missing, repeated or unknown bullets are left as they were', () => {
+  const partial = [{ from: 1, text: 'Cut deploy time by 40%' }, { from: 0, text: 'Built billing APIs' }];
+  const repeated = [...partial, { from: 0, text: 'Built billing APIs again' }];
+  const unknown = [...partial, { from: 5, text: 'Invented a bullet' }];
+
+  for (const bullets of [partial, repeated, unknown]) {
+    const { draft, changes } = applyTailoring(base, tailoring({ experience: [{ bullets }] }), []);
+    assert.deepEqual(draft.content.experience, base.content.experience);
+    assert.deepEqual(changes.roles, []);
+  }
+});
+
+test('skills are reordered, never dropped, and only gain the job\'s missing keywords', () => {
+  const { draft, changes } = applyTailoring(base, tailoring({
+    skills: ['docker', 'Kubernetes', 'Go', 'Rust']
+  }), ['Kubernetes']);
+
+  // Base spelling wins; Rust isn't one of the job's missing keywords
+  assert.deepEqual(draft.skills, ['Docker', 'Kubernetes', 'Go', 'SQL']);
+  assert.deepEqual(changes.skillsAdded, ['Kubernetes']);
+  assert.equal(changes.skillsReordered, true);
+
+  const unchanged = applyTailoring(base, tailoring({ skills: ['Go', 'SQL'] }), []);
+  assert.deepEqual(unchanged.draft.skills, base.skills);
+  assert.equal(unchanged.changes.skillsReordered, false);
+});
+
+test('the summary is replaced only by a different, non-empty one', () => {
+  const kept = applyTailoring(base, tailoring({ summary: '   ' }), []);
+  assert.equal(kept.draft.summary, base.summary);
+  assert.equal(kept.changes.summary, null);
+
+  const same = applyTailoring(base, tailoring({ summary: 'backend engineer.' }), []);
+  assert.equal(same.changes.summary, null);
+
+  const { draft, changes } = applyTailoring(base, tailoring({
+    summary: 'Backend engineer focused on payments.',
+    keywordsUsed: ['payments'],
+    keywordsSkipped: ['Rust']
+  }), []);
+  assert.equal(draft.summary, 'Backend engineer focused on payments.');
+  assert.deepEqual(changes.summary, { before: 'Backend engineer.', after: 'Backend engineer focused on payments.' });
+  assert.deepEqual([changes.keywordsUsed, changes.keywordsSkipped], [['payments'], ['Rust']]);
+  // The rest of the draft is carried over
+  assert.equal(draft.template, base.template);
+  assert.deepEqual(draft.content.contact, base.content.contact);
+  assert.notEqual(draft.updatedAt, base.updatedAt);
+});
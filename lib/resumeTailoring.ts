@@ -0,0 +1,89 @@
+import { ResumeDraft, ResumeTailoring } from '../types';
+import { ChangedItem } from './resumeVersions';
+
+// Turning a tailoring from the AI into a draft, and what changed, for the candidate to
+// approve. Whatever the tailoring can't back up is left as it was in the base draft.
+
+export interface TailoredRole {
+  name: string;
+  reordered: boolean;
+  reworded: ChangedItem[];
+}
+
+export interface TailoringChanges {
+  summary: ChangedItem | null;
+  skillsAdded: string[];
+  skillsReordered: boolean;
+  // Only roles with changes
+  roles: TailoredRole[];
+  keywordsUsed: string[];
+  keywordsSkipped: string[];
+}
+
+export interface TailoredResume {
+  draft: ResumeDraft;
+  changes: TailoringChanges;
+}
+
+const key = (text: string) => text.trim().toLowerCase();
+
+const numbers = (text: string) => text.match(/\d+(?:[.,]\d+)*/g) ?? [];
+
+// A rewording may not bring in figures the original doesn't have
+const keepsFacts = (original: string, reworded: string) => {
+  const known = new Set(numbers(original));
+  return numbers(reworded).every(n => known.has(n));
+};
+
+export const applyTailoring = (base: ResumeDraft, tailoring: ResumeTailoring, missingKeywords: string[]): TailoredResume => {
+  const roles: TailoredRole[] = [];
+  const experience = base.content.experience.map((role, i) => {
+    const bullets = tailoring.experience[i]?.bullets ?? [];
+    const froms = new Set(bullets.map(bullet => bullet.from));
+    // Only a reordering of the role's own bullets is taken
+    const complete = bullets.length === role.bullets.length && froms.size === bullets.length && bullets.every(bullet => bullet.from < role.bullets.length);
+    if (!complete) return role;
+
+    const reworded: ChangedItem[] = [];
+    const texts = bullets.map(({ from, text }) => {
+      const original = role.bullets[from];
+      if (key(text) === key(original) || !keepsFacts(original, text)) return original;
+      reworded.push({ before: original, after: text });
+      return text;
+    });
+    const reordered = bullets.some((bullet, index) => bullet.from !== index);
+    if (reordered || reworded.length > 0) {
+      roles.push({ name: [role.title, role.company].filter(Boolean).join(' at '), reordered, reworded });
+    }
+    return { ...role, bullets: texts };
+  });
+
+  // Skills are reordered, never dropped, and only gain keywords the job asked for
+  const baseSkills = new Map(base.skills.filter(skill => skill.trim()).map(skill => [key(skill), skill]));
+  const missing = new Set(missingKeywords.map(key));
+  const ordered = tailoring.skills.filter(skill => baseSkills.has(key(skill)) || missing.has(key(skill)));
+  const listed = new Set(ordered.map(key));
+  const skills = [...ordered.map(skill => baseSkills.get(key(skill)) ?? skill), ...[...baseSkills].filter(([k]) => !listed.has(k)).map(([, skill]) => skill)];
+  const skillsAdded = skills.filter(skill => !baseSkills.has(key(skill)));
+  const baseOrder = [...baseSkills.keys()];
+  const skillsReordered = skills.filter(skill => baseSkills.has(key(skill))).some((skill, index) => key(skill) !== baseOrder[index]);
+
+  const summary = tailoring.summary.trim() || base.summary;
+  return {
+    draft: {
+      ...base,
+      content: { ...base.content, experience },
+      summary,
+      skills,
+      updatedAt: new Date().toISOString()
+    },
+    changes: {
+      summary: key(summary) === key(base.summary) ? null : { before: base.summary, after: summary },
+      skillsAdded,
+      skillsReordered,
+      roles,
+      keywordsUsed: tailoring.keywordsUsed,
+      keywordsSkipped: tailoring.keywordsSkipped
+    }
+  };
+};
@@ -0,0 +1,92 @@
+import { ResumeAnalysis, SavedResume } from '../types';
+
+// Comparing saved resumes. Each analysis words its findings afresh, so weaknesses and
+// improvements are matched by the words they share rather than exact text.
+
+export interface ChangedItem {
+  before: string;
+  after: string;
+}
+
+export interface ResumeComparison {
+  scoreDelta: number;
+  skillsAdded: string[];
+  skillsRemoved: string[];
+  // Weaknesses of the older version the newer one no longer has
+  weaknessesResolved: string[];
+  weaknessesNew: string[];
+  weaknessesRemaining: string[];
+  improvementsAdded: string[];
+  improvementsDropped: string[];
+  improvementsChanged: ChangedItem[];
+}
+
+// Share of words two findings have in common before they count as the same one
+const SAME_FINDING = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'with', 'your', 'more']);
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9+#.]+/).map(word => word.replace(/\.+$/, '')).filter(word => word && !STOP_WORDS.has(word)));
+
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// Pairs each newer finding with the most similar older one, each used at most once
+const matchFindings = (older: string[], newer: string[]) => {
+  const olderWords = older.map(words);
+  const used = new Set<number>();
+  const pairs: ChangedItem[] = [];
+  const added: string[] = [];
+  newer.forEach(after => {
+    const afterWords = words(after);
+    let best = -1;
+    let bestScore = SAME_FINDING;
+    olderWords.forEach((candidate, index) => {
+      const score = overlap(candidate, afterWords);
+      if (!used.has(index) && score >= bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    if (best === -1) {
+      added.push(after);
+    } else {
+      used.add(best);
+      pairs.push({ before: older[best], after });
+    }
+  });
+  return { pairs, added, removed: older.filter((_, index) => !used.has(index)) };
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const compareResumes = (older: ResumeAnalysis, newer: ResumeAnalysis): ResumeComparison => {
+  const olderSkills = new Set(older.skills.map(normalize));
+  const newerSkills = new Set(newer.skills.map(normalize));
+  const weaknesses = matchFindings(older.weaknesses, newer.weaknesses);
+  const improvements = matchFindings(older.improvements, newer.improvements);
+  return {
+    scoreDelta: newer.score - older.score,
+    skillsAdded: newer.skills.filter(skill => !olderSkills.has(normalize(skill))),
+    skillsRemoved: older.skills.filter(skill => !newerSkills.has(normalize(skill))),
+    weaknessesResolved: weaknesses.removed,
+    weaknessesNew: weaknesses.added,
+    weaknessesRemaining: weaknesses.pairs.map(pair => pair.after),
+    improvementsAdded: improvements.added,
+    improvementsDropped: improvements.removed,
+    // Rewordings that keep every meaningful word aren't changes
+    improvementsChanged: improvements.pairs.filter(pair => overlap(words(pair.before), words(pair.after)) < 1)
+  };
+};
+
+export const resumeVersionName = (resume: SavedResume) =>
+  resume.label?.trim() || resume.data.file?.name || `Resume from ${new Date(resume.created_at).toLocaleDateString()}`;
+
+// The pinned resume; without one, the newest that isn't tailored to a job
+export const defaultResume = (resumes: SavedResume[]) =>
+  resumes.find(resume => resume.pinned) ?? resumes.find(resume => !resume.jobId) ?? resumes[0];
@@ -0,0 +1,62 @@
+import { AppView, UserRole } from '../types';
+
+// A place in the app, as kept in the URL hash: "#/jobs/<job id>", "#/applicants/<application id>"
+export interface Route {
+  view: AppView;
+  // The job, application or saved resume the view opens on, for views that take one
+  id?: string;
+}
+
+interface RouteSpec {
+  path: string;
+  // Who may open it; everyone else is sent to their dashboard
+  roles: UserRole[];
+  // Whether the path takes an id after it
+  param?: boolean;
+}
+
+const BOTH: UserRole[] = ['candidate', 'employer'];
+
+export const ROUTES: Record<AppView, RouteSpec> = {
+  [AppView.DASHBOARD]: { path: '/dashboard', roles: ['candidate'] },
+  [AppView.MY_APPLICATIONS]: { path: '/applications', roles: ['candidate'] },
+  [AppView.RESUME]: { path: '/resumes', roles: ['candidate'], param: true },
+  [AppView.RESUME_HISTORY]: { path: '/resume-history', roles: ['candidate'] },
+  [AppView.RESUME_BUILDER]: { path: '/resume-builder', roles: ['candidate'], param: true },
+  [AppView.SKILLS]: { path: '/skills', roles: ['candidate'] },
+  [AppView.COVER_LETTER]: { path: '/cover-letter', roles: ['candidate'] },
+  [AppView.INTERVIEW]: { path: '/interview', roles: ['candidate'] },
+  [AppView.INSIGHTS]: { path: '/insights', roles: ['candidate'] },
+  [AppView.EMPLOYER_DASHBOARD]: { path: '/employer', roles: ['employer'] },
+  [AppView.APPLICANTS]: { path: '/applicants', roles: ['employer'], param: true },
+  [AppView.SHORTLISTED]: { path: '/shortlisted', roles: ['employer'], param: true },
+  [AppView.JOBS]: { path: '/jobs', roles: BOTH, param: true },
+  [AppView.CALENDAR]: { path: '/calendar', roles: BOTH },
+  [AppView.ACTIVITY]: { path: '/activity', roles: BOTH },
+  [AppView.SETTINGS]: { path: '/settings', roles: BOTH }
+};
+
+// Null for anything that isn't one of ours, including the tokens Supabase puts in the
+// hash after a sign-in or password reset
+export const parseRoute = (hash: string): Route | null => {
+  const [path, id, ...rest] = hash.replace(/^#/, '').split('/').filter(Boolean);
+  if (!path || rest.length > 0) return null;
+  const view = (Object.keys(ROUTES) as AppView[]).find(v => ROUTES[v].path === `/${path}`);
+  if (!view) return null;
+  if (id === undefined) return { view };
+  if (!ROUTES[view].param) return null;
+  try {
+    return { view, id: decodeURIComponent(id) };
+  } catch {
+    return null;
+  }
+};
+
+export const routeHash = ({ view, id }: Route) =>
+  `#${ROUTES[view].path}${id && ROUTES[view].param ? `/${encodeURIComponent(id)}` : ''}`;
+
+export const canOpen = (view: AppView, role: UserRole) => ROUTES[view].roles.includes(role);
+
+export const homeRoute = (role: UserRole): Route => ({
+  view: role === 'employer' ? AppView.EMPLOYER_DASHBOARD : AppView.DASHBOARD
+});
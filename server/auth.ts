@@ -0,0 +1,39 @@
+import { supabaseUrl, supabaseAnonKey } from '../lib/supabaseConfig';
+import { ApiRequest, HttpError } from './http';
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+  role?: string;
+}
+
+// Verifies the Supabase access token sent as `Authorization: Bearer <jwt>`.
+// Asks Supabase Auth directly so the server stays stateless and doesn't need the realtime client.
+export const authenticate = async (req: ApiRequest): Promise<AuthenticatedUser> => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token) {
+    throw new HttpError(401, "Missing access token. Please sign in again.");
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: { apikey: supabaseAnonKey, Authorization: `Bearer ${token}` }
+    });
+  } catch (e) {
+    console.error("Supabase auth check failed:", e);
+    throw new HttpError(503, "Could not verify your session. Please try again.");
+  }
+
+  if (!response.ok) {
+    throw new HttpError(401, "Your session has expired. Please sign in again.");
+  }
+
+  const user = await response.json();
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.user_metadata?.role
+  };
+};
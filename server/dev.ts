@@ -0,0 +1,33 @@
+import { createServer } from 'node:http';
+import { loadEnv } from 'vite';
+import { ApiRequest, sendJson } from './http';
+
+// Local stand-in for the Vercel functions in /api. Vite proxies /api here.
+// Load .env the same way vite.config.ts does, before the handler reads it.
+Object.assign(process.env, loadEnv('development', process.cwd(), ''));
+const { default: aiHandler } = await import('../api/ai/[feature]');
+
+const PORT = Number(process.env.API_PORT) || 3001;
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/api\/ai\/([^/]+)$/);
+
+  if (!match) {
+    return sendJson(res, 404, { error: "Not found." });
+  }
+
+  const apiReq = req as ApiRequest;
+  apiReq.query = { ...Object.fromEntries(url.searchParams), feature: decodeURIComponent(match[1]) };
+  aiHandler(apiReq, res);
+});
+
+server.listen(PORT, () => {
+  console.log(`CarrerX API listening on http://localhost:${PORT}`);
+  if (!process.env.API_KEY) {
+    console.warn("⚠️  WARNING: API_KEY is not set. AI requests will fail.");
+  }
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn("⚠️  WARNING: SUPABASE_SERVICE_ROLE_KEY is not set. AI usage can't be recorded, so AI requests will fail.");
+  }
+});
@@ -0,0 +1,61 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// Vercel pre-parses `body` and `query`; the local dev server fills them in itself
+export type ApiRequest = IncomingMessage & {
+  body?: unknown;
+  query?: Record<string, string | string[] | undefined>;
+};
+
+export type ApiResponse = ServerResponse;
+
+export class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export const sendJson = (res: ApiResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+  res.end(JSON.stringify(body));
+};
+
+// Resumes arrive as base64. Vercel refuses requests over 4.5 MB before they get here, so
+// the dev server does the same.
+const MAX_BODY_BYTES = 4.5 * 1024 * 1024;
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text || '{}');
+  } catch (e) {
+    throw new HttpError(400, "Request body must be valid JSON.");
+  }
+};
+
+export const readJsonBody = async (req: ApiRequest): Promise<any> => {
+  if (req.body !== undefined) {
+    return typeof req.body === 'string' ? parseJson(req.body) : req.body;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body is too large.");
+    chunks.push(chunk as Buffer);
+  }
+
+  return parseJson(Buffer.concat(chunks).toString('utf8'));
+};
+
+export const getQueryParam = (req: ApiRequest, name: string): string | undefined => {
+  const value = req.query?.[name];
+  return Array.isArray(value) ? value[0] : value;
+};
@@ -0,0 +1,90 @@
+import { supabaseUrl } from '../lib/supabaseConfig';
+import { AiFeature, AiUsage } from '../services/ai/types';
+import { estimateCost, startOfNextMonth } from '../services/ai/usage';
+import { HttpError } from './http';
+
+// Usage and quotas live in Supabase (ai_usage, ai_quota; see supabase/migrations), so every
+// instance sees the same totals. Clients can only read them; the API writes with the
+// service role key, which must never reach the browser.
+const serviceRoleKey = () => process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const rest = (path: string, init: { method: string; body: unknown; prefer?: string }) => {
+  const key = serviceRoleKey();
+  return fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    method: init.method,
+    headers: {
+      apikey: key,
+      Authorization: `Bearer ${key}`,
+      'Content-Type': 'application/json',
+      ...(init.prefer ? { Prefer: init.prefer } : {})
+    },
+    body: JSON.stringify(init.body)
+  });
+};
+
+interface QuotaStatus {
+  requests: number;
+  tokens: number;
+  monthly_requests: number | null;
+  monthly_tokens: number | null;
+}
+
+// Fails closed: without the key, or when Supabase can't be reached, nobody's usage can be counted
+export const enforceMonthlyQuota = async (userId: string) => {
+  if (!serviceRoleKey()) {
+    console.error("SUPABASE_SERVICE_ROLE_KEY is not set; AI usage can't be recorded.");
+    throw new HttpError(503, "AI features aren't available right now. Please try again later.");
+  }
+
+  let status: QuotaStatus | undefined;
+  try {
+    const response = await rest('rpc/ai_quota_status', { method: 'POST', body: { target: userId } });
+    if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);
+    [status] = await response.json();
+  } catch (e) {
+    console.error("AI quota check failed:", e);
+    throw new HttpError(503, "Could not check your AI quota. Please try again.");
+  }
+  if (!status) return;
+
+  // No Retry-After: the client should not retry until the month rolls over
+  const resets = startOfNextMonth().toLocaleDateString('en-US', { timeZone: 'UTC', month: 'long', day: 'numeric' });
+  const tokens = Number(status.tokens);
+  if (status.monthly_requests !== null && Number(status.requests) >= status.monthly_requests) {
+    throw new HttpError(429, `You've used all ${status.monthly_requests.toLocaleString()} AI requests in your monthly quota. It resets on ${resets}.`);
+  }
+  if (status.monthly_tokens !== null && tokens >= Number(status.monthly_tokens)) {
+    throw new HttpError(429, `You've used ${tokens.toLocaleString()} of your ${Number(status.monthly_tokens).toLocaleString()} monthly AI tokens. Your quota resets on ${resets}.`);
+  }
+};
+
+// Called once per call that reached the model, including streams the browser stopped early.
+// A failed write is logged rather than failing a call that has already been answered.
+export const recordUsage = async (entry: {
+  userId: string;
+  feature: AiFeature;
+  provider: string;
+  usage: AiUsage;
+  latencyMs: number;
+}) => {
+  const { userId, feature, provider, usage, latencyMs } = entry;
+  try {
+    const response = await rest('ai_usage', {
+      method: 'POST',
+      prefer: 'return=minimal',
+      body: {
+        user_id: userId,
+        feature,
+        provider,
+        model: usage.model,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        latency_ms: Math.round(latencyMs),
+        cost_usd: estimateCost(usage.model, usage.inputTokens, usage.outputTokens)
+      }
+    });
+    if (!response.ok) throw new Error(`${response.status} ${await response.text()}`);
+  } catch (e) {
+    console.error("Could not record AI usage:", e);
+  }
+};
@@ -0,0 +1,35 @@
+import { HttpError } from './http';
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+const LIMIT_PER_MINUTE = Number(process.env.AI_RATE_LIMIT_PER_MINUTE) || 20;
+
+// In-memory fixed window per user. Each serverless instance keeps its own
+// counters, so this bounds bursts rather than enforcing an exact global limit.
+const windows = new Map<string, Window>();
+
+const pruneExpired = (now: number) => {
+  windows.forEach((window, userId) => {
+    if (now - window.startedAt >= WINDOW_MS) windows.delete(userId);
+  });
+};
+
+export const enforceRateLimit = (userId: string, now = Date.now()) => {
+  if (windows.size > 1000) pruneExpired(now);
+
+  let window = windows.get(userId);
+  if (!window || now - window.startedAt >= WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    windows.set(userId, window);
+  }
+
+  if (window.count >= LIMIT_PER_MINUTE) {
+    const retryAfter = Math.ceil((window.startedAt + WINDOW_MS - now) / 1000);
+    throw new HttpError(429, `Too many AI requests. Please wait ${retryAfter}s and try again.`, { 'Retry-After': String(retryAfter) });
+  }
+  window.count++;
+};
@@ -0,0 +1,84 @@
+import { AiProvider, AiRequest, AiResponse, AiStreamChunk } from "./types";
+import { AiError } from "./errors";
+
+// Calls the server-side proxy in /api so the Gemini key never reaches the browser
+export const createApiProvider = (baseUrl = process.env.AI_API_URL || ''): AiProvider => {
+  const post = async (request: AiRequest, query = '') => {
+    // Imported on demand so Node scripts (eval/) can load the provider layer
+    // without constructing the browser Supabase client
+    const { supabase } = await import("../../lib/supabaseClient");
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new AiError('auth', "Please sign in to use AI features.");
+    }
+
+    // The server builds the prompt itself from the feature's input
+    const { feature, signal, source } = request;
+    if (!source) throw new Error(`The ${feature} request has no input to send.`);
+    const response = await fetch(`${baseUrl}/api/ai/${feature}${query}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify(source),
+      signal
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      const message = payload.error || `AI request failed (${response.status})`;
+      if (response.status === 401) {
+        throw new AiError('auth', message, { status: 401 });
+      }
+      if (response.status === 429) {
+        // Rate limits send Retry-After; an exhausted monthly quota does not
+        throw new AiError('quota', message, { status: 429, retryable: response.headers.has('Retry-After') });
+      }
+      if (response.status === 400) {
+        // e.g. "Invalid input for analyzeResume: ...", which says more than a generic message
+        throw new AiError('invalid-input', message, { status: 400 });
+      }
+      // Let toAiError classify the rest by status
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return response;
+  };
+
+  const generate = async (request: AiRequest): Promise<AiResponse> => {
+    const payload = await (await post(request)).json();
+    return { text: payload.text || "", sources: payload.sources || [], usage: payload.usage };
+  };
+
+  // The server answers ?stream=1 with newline-delimited JSON chunks
+  const stream = async function* (request: AiRequest): AsyncGenerator<AiStreamChunk> {
+    const response = await post(request, '?stream=1');
+    if (!response.body) throw new Error("Streaming is not supported by this browser.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split('\n');
+        buffered = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const chunk = JSON.parse(line);
+          // Errors after the response started arrive in-band
+          if (chunk.error) {
+            throw Object.assign(new Error(chunk.error), { status: chunk.status });
+          }
+          yield chunk as AiStreamChunk;
+        }
+        if (done) return;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  };
+
+  return { name: 'api', generate, stream };
+};
@@ -0,0 +1,89 @@
+import { openDatabase, withStore, isIndexedDbAvailable } from "../../lib/idb";
+import { AiFeature, AiRequest, AiResponse } from "./types";
+
+const DB_NAME = 'carrerx_ai_cache';
+const STORE = 'responses';
+
+const HOUR = 60 * 60 * 1000;
+
+// Only deterministic, expensive analyses are cached. Creative outputs
+// (cover letters, chat, job generation) should differ on every call.
+export const CACHE_TTLS: Partial<Record<AiFeature, number>> = {
+  analyzeResume: 7 * 24 * HOUR,
+  parseResume: 7 * 24 * HOUR,
+  analyzeJobMatch: 7 * 24 * HOUR,
+};
+
+export interface CacheEntry {
+  key: string;
+  feature: AiFeature;
+  model: string;
+  provider: string;
+  createdAt: number;
+  expiresAt: number;
+  size: number;
+  response: AiResponse;
+}
+
+const getDb = () => openDatabase(DB_NAME, 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) {
+    db.createObjectStore(STORE, { keyPath: 'key' });
+  }
+});
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Content-addressed key: the same inputs (including file bytes) always hash the same.
+// Returns null where WebCrypto or IndexedDB is unavailable (non-secure origins, Node scripts),
+// which disables caching.
+export const hashRequest = async (request: AiRequest, model: string, provider: string): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle || !isIndexedDbAvailable()) return null;
+  const { feature, contents, systemInstruction, responseSchema, useSearch } = request;
+  const payload = JSON.stringify({ feature, model, provider, contents, systemInstruction, responseSchema, useSearch });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return toHex(digest);
+};
+
+export const getCachedResponse = async (key: string): Promise<AiResponse | null> => {
+  try {
+    const entry = await withStore<CacheEntry | undefined>(getDb(), STORE, 'readonly', store => store.get(key));
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      await deleteCacheEntry(key);
+      return null;
+    }
+    return entry.response;
+  } catch (e) {
+    // The cache is an optimization; never fail a request because of it
+    console.warn("AI cache read failed:", e);
+    return null;
+  }
+};
+
+export const putCachedResponse = async (entry: Omit<CacheEntry, 'size'>) => {
+  try {
+    const size = entry.response.text.length;
+    await withStore(getDb(), STORE, 'readwrite', store => store.put({ ...entry, size }));
+  } catch (e) {
+    console.warn("AI cache write failed:", e);
+  }
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>(getDb(), STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string) =>
+  withStore(getDb(), STORE, 'readwrite', store => store.delete(key));
+
+export const clearCache = () =>
+  withStore(getDb(), STORE, 'readwrite', store => store.clear());
+
+export const pruneExpiredEntries = async (): Promise<number> => {
+  const now = Date.now();
+  const expired = (await listCacheEntries()).filter(entry => entry.expiresAt < now);
+  await Promise.all(expired.map(entry => deleteCacheEntry(entry.key)));
+  return expired.length;
+};
@@ -0,0 +1,74 @@
+export type AiErrorKind =
+  | 'quota'
+  | 'auth'
+  | 'unsupported-file'
+  // The API proxy refused the feature's input; its message says why
+  | 'invalid-input'
+  | 'unavailable'
+  | 'timeout'
+  | 'cancelled'
+  | 'invalid-response'
+  | 'unknown';
+
+export class AiError extends Error {
+  kind: AiErrorKind;
+  // Whether repeating the same request might succeed
+  retryable: boolean;
+  status?: number;
+
+  constructor(kind: AiErrorKind, message: string, { retryable = false, status, cause }: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+    if (cause !== undefined) (this as any).cause = cause;
+  }
+}
+
+// Short headings for UI error states
+export const AI_ERROR_TITLES: Record<AiErrorKind, string> = {
+  'quota': 'Usage Limit Reached',
+  'auth': 'API Key Rejected',
+  'unsupported-file': 'Unsupported File',
+  'invalid-input': 'Invalid Request',
+  'unavailable': 'AI Service Unavailable',
+  'timeout': 'Request Timed Out',
+  'cancelled': 'Request Cancelled',
+  'invalid-response': 'Unexpected AI Response',
+  'unknown': 'Something Went Wrong',
+};
+
+export const isAiError = (error: unknown, kind?: AiErrorKind): error is AiError =>
+  error instanceof AiError && (!kind || error.kind === kind);
+
+// Maps SDK, network and abort errors onto the AiError union
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+
+  const err = error as any;
+  const message: string = err?.message || String(error ?? "Unknown error occurred");
+  const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+  const has = (...needles: string[]) => needles.some(n => message.includes(n));
+
+  if (err?.name === 'AbortError') {
+    return new AiError('cancelled', "The request was cancelled.", { cause: error });
+  }
+  if (status === 429 || has("429", "RESOURCE_EXHAUSTED", "quota")) {
+    return new AiError('quota', "The AI usage limit was reached. Please wait a moment and try again.", { retryable: true, status, cause: error });
+  }
+  if (status === 401 || status === 403 || message.toLowerCase().includes("leaked") || has("401", "403", "PERMISSION_DENIED", "permission_denied", "API Key not found")) {
+    return new AiError('auth', "Your API key was rejected (403). Please check your quota or refresh the page.", { status, cause: error });
+  }
+  if (status === 404 || has("404", "not found")) {
+    return new AiError('unavailable', "The AI model is currently unavailable (404). This might be a temporary regional issue.", { status, cause: error });
+  }
+  // The proxy's own 400s keep their message, see apiProvider.ts; the model's are about the file
+  if (status === 400 || has("400", "INVALID_ARGUMENT")) {
+    return new AiError('unsupported-file', "The file format or content is not supported by the AI model. Please try a different file.", { status, cause: error });
+  }
+  if ((status !== undefined && status >= 500) || has("500", "502", "503", "504", "UNAVAILABLE", "INTERNAL", "Failed to fetch", "NetworkError")) {
+    return new AiError('unavailable', "The AI service is temporarily unavailable. Please try again shortly.", { retryable: true, status, cause: error });
+  }
+  return new AiError('unknown', message, { status, cause: error });
+};
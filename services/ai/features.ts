@@ -0,0 +1,299 @@
+import { Type, Schema } from "@google/genai";
+import { AiContent, AiFeature, AiPart, AiRequest } from "./types";
+import { renderPrompt } from "./prompts";
+import { UNTRUSTED_CONTENT_NOTE, fenceUntrusted } from "./injection";
+import { ValidationIssue, Validator, arrayOf, number, object, oneOf, optionalString, string, stringList } from "./validation";
+import { resumeFormatForType } from "../../lib/resumeFormats";
+
+// What each AI feature is built from, and how its request is built. The browser only
+// sends these inputs to the API proxy (api/ai/[feature].ts), which checks them and builds
+// the request itself, so the proxy can't be used to run prompts of the caller's choosing.
+// Direct providers (gemini, mock) get the same request, built in the browser.
+
+// A resume as its file, or as text read from one (privacy mode, Word and text files, drafts)
+export type ResumeSource = { text: string } | { file: { data: string; mimeType: string } };
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface AiInputs {
+  analyzeResume: { resume: ResumeSource };
+  parseResume: { resume: ResumeSource };
+  generateImprovementExample: { improvement: string; resumeSummary: string };
+  rewriteBullet: { bullet: string; improvement: string; role: string };
+  generateInterviewReport: { transcript: string };
+  getMarketInsights: { query: string };
+  generateTailoredJobs: { count: number; resumeSummary: string; skills: string[] };
+  // background: roles and education from the parsed resume, empty when it wasn't parsed
+  analyzeJobMatch: { resumeSummary: string; resumeSkills: string[]; background: string; jobDescription: string };
+  // resume: the draft with each role's bullets numbered
+  tailorResume: { resume: string; jobTitle: string; jobDescription: string; missingKeywords: string[] };
+  generateCoverLetter: { resumeSummary: string; background: string; jobDescription: string };
+  suggestSkills: { roleContext: string; currentSkills: string[] };
+  sendChatMessage: { history: ChatTurn[]; message: string; context: string };
+  generateInterviewResponse: { audio: { data: string; mimeType: string }; resumeContext: string };
+}
+
+// The model's answer to a structured request and what failed validation in it, for asking again
+export interface AiCorrection {
+  response: string;
+  issues: string;
+}
+
+// Everything a request is built from; all the API proxy is sent
+export interface AiRequestSource<F extends AiFeature = AiFeature> {
+  input: AiInputs[F];
+  // Personal details in the input were swapped for placeholders (privacy mode)
+  redacted?: boolean;
+  correction?: AiCorrection;
+}
+
+export const PLACEHOLDER_NOTE = "Values in square brackets such as [NAME_1] or [EMAIL_1] are placeholders for redacted personal details. Keep them exactly as written.";
+
+// --- RESPONSE SCHEMAS ---
+
+const stringSchema: Schema = { type: Type.STRING };
+const stringListSchema: Schema = { type: Type.ARRAY, items: stringSchema };
+
+const entryList = (properties: Record<string, Schema>, required: string[]): Schema => ({
+  type: Type.ARRAY,
+  items: { type: Type.OBJECT, properties, required }
+});
+
+const resumeAnalysisResponse: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    summary: stringSchema,
+    strengths: stringListSchema,
+    weaknesses: stringListSchema,
+    improvements: stringListSchema,
+    skills: stringListSchema,
+  },
+  required: ["score", "summary", "strengths", "weaknesses", "improvements", "skills"]
+};
+
+const parsedResumeResponse: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    contact: {
+      type: Type.OBJECT,
+      properties: { name: stringSchema, headline: stringSchema, email: stringSchema, phone: stringSchema, location: stringSchema },
+      required: ["name", "headline", "email", "phone", "location"]
+    },
+    experience: entryList(
+      { title: stringSchema, company: stringSchema, location: stringSchema, startDate: stringSchema, endDate: stringSchema, bullets: stringListSchema },
+      ["title", "company", "startDate", "endDate", "bullets"]
+    ),
+    education: entryList({ institution: stringSchema, degree: stringSchema, field: stringSchema, startDate: stringSchema, endDate: stringSchema }, ["institution", "degree"]),
+    certifications: entryList({ name: stringSchema, issuer: stringSchema, date: stringSchema }, ["name"]),
+    projects: entryList({ name: stringSchema, description: stringSchema, url: stringSchema }, ["name", "description"]),
+    links: entryList({ label: stringSchema, url: stringSchema }, ["label", "url"]),
+  },
+  required: ["contact", "experience", "education", "certifications", "projects", "links"]
+};
+
+const interviewReportResponse: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overallScore: { type: Type.NUMBER },
+    technicalScore: { type: Type.NUMBER },
+    communicationScore: { type: Type.NUMBER },
+    strengths: stringListSchema,
+    improvements: stringListSchema,
+  },
+  required: ["overallScore", "technicalScore", "communicationScore", "strengths", "improvements"]
+};
+
+const jobListResponse: Schema = entryList(
+  {
+    id: stringSchema,
+    title: stringSchema,
+    company: stringSchema,
+    location: stringSchema,
+    salary: stringSchema,
+    type: stringSchema,
+    description: stringSchema,
+    requirements: stringListSchema,
+    postedAt: stringSchema,
+  },
+  ["id", "title", "company", "location", "salary", "type", "description", "requirements", "postedAt"]
+);
+
+const jobMatchResponse: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    matchScore: { type: Type.NUMBER },
+    summary: stringSchema,
+    missingKeywords: stringListSchema,
+    pros: stringListSchema,
+    cons: stringListSchema,
+  },
+  required: ["matchScore", "summary", "missingKeywords", "pros", "cons"]
+};
+
+const resumeTailoringResponse: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: stringSchema,
+    skills: stringListSchema,
+    experience: entryList({ bullets: entryList({ from: { type: Type.INTEGER }, text: stringSchema }, ["from", "text"]) }, ["bullets"]),
+    keywordsUsed: stringListSchema,
+    keywordsSkipped: stringListSchema
+  },
+  required: ["summary", "skills", "experience", "keywordsUsed", "keywordsSkipped"]
+};
+
+const skillSuggestionListResponse: Schema = entryList(
+  {
+    skill: stringSchema,
+    reason: stringSchema,
+    difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
+    category: { type: Type.STRING, enum: ["Technical", "Soft Skill", "Tool"] },
+    searchQuery: stringSchema
+  },
+  ["skill", "reason", "difficulty", "category", "searchQuery"]
+);
+
+// --- BUILDERS ---
+
+type Built = Pick<AiRequest, 'contents' | 'systemInstruction' | 'responseSchema' | 'useSearch'>;
+
+const userTurn = (...parts: AiPart[]): AiContent[] => [{ role: 'user', parts }];
+
+const resumePart = (resume: ResumeSource): AiPart =>
+  'text' in resume ? { text: fenceUntrusted('RESUME', resume.text) } : { inlineData: resume.file };
+
+const fencedBackground = (background: string) => background ? fenceUntrusted('RESUME BACKGROUND', background) : '';
+
+const toChatContents = (history: ChatTurn[], message: string): AiContent[] => {
+  // Gemini needs the conversation to start with a user turn; empty messages are dropped
+  const turns = history.filter(turn => turn.text.trim() !== "");
+  const firstUserIndex = turns.findIndex(turn => turn.role === 'user');
+  const kept = firstUserIndex === -1 ? [] : turns.slice(firstUserIndex);
+  return [...kept.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })), { role: 'user', parts: [{ text: message }] }];
+};
+
+const BUILDERS: { [F in AiFeature]: (input: AiInputs[F]) => Built } = {
+  analyzeResume: ({ resume }) => ({
+    contents: userTurn(resumePart(resume), { text: renderPrompt('resumeAnalysis', {}).text }),
+    systemInstruction: UNTRUSTED_CONTENT_NOTE,
+    responseSchema: resumeAnalysisResponse
+  }),
+  parseResume: ({ resume }) => ({
+    contents: userTurn(resumePart(resume), { text: renderPrompt('resumeParse', {}).text }),
+    systemInstruction: UNTRUSTED_CONTENT_NOTE,
+    responseSchema: parsedResumeResponse
+  }),
+  generateImprovementExample: ({ improvement, resumeSummary }) => ({
+    contents: userTurn({ text: renderPrompt('improvementExample', { improvement, resumeSummary }).text })
+  }),
+  rewriteBullet: ({ bullet, improvement, role }) => ({
+    contents: userTurn({ text: renderPrompt('bulletRewrite', { bullet: fenceUntrusted('BULLET', bullet), improvement, role }).text }),
+    systemInstruction: UNTRUSTED_CONTENT_NOTE,
+    responseSchema: { type: Type.OBJECT, properties: { bullet: stringSchema }, required: ["bullet"] }
+  }),
+  generateInterviewReport: ({ transcript }) => ({
+    contents: userTurn({ text: renderPrompt('interviewReport', { transcript }).text }),
+    responseSchema: interviewReportResponse
+  }),
+  getMarketInsights: ({ query }) => ({
+    contents: userTurn({ text: renderPrompt('marketInsights', { query }).text }),
+    useSearch: true
+  }),
+  generateTailoredJobs: ({ count, resumeSummary, skills }) => ({
+    contents: userTurn({ text: renderPrompt('tailoredJobs', { count, resumeSummary, skills }).text }),
+    responseSchema: jobListResponse
+  }),
+  analyzeJobMatch: ({ resumeSummary, resumeSkills, background, jobDescription }) => ({
+    contents: userTurn({ text: renderPrompt('jobMatch', { resumeSummary, resumeSkills, background: fencedBackground(background), jobDescription: fenceUntrusted('JOB DESCRIPTION', jobDescription) }).text }),
+    systemInstruction: UNTRUSTED_CONTENT_NOTE,
+    responseSchema: jobMatchResponse
+  }),
+  tailorResume: ({ resume, jobTitle, jobDescription, missingKeywords }) => ({
+    contents: userTurn({ text: renderPrompt('resumeTailoring', { resume: fenceUntrusted('RESUME', resume), jobTitle, jobDescription: fenceUntrusted('JOB DESCRIPTION', jobDescription), missingKeywords }).text }),
+    systemInstruction: UNTRUSTED_CONTENT_NOTE,
+    responseSchema: resumeTailoringResponse
+  }),
+  generateCoverLetter: ({ resumeSummary, background, jobDescription }) => ({
+    contents: userTurn({ text: renderPrompt('coverLetter', { resumeSummary, background: fencedBackground(background), jobDescription: fenceUntrusted('JOB DESCRIPTION', jobDescription) }).text }),
+    systemInstruction: UNTRUSTED_CONTENT_NOTE
+  }),
+  suggestSkills: ({ roleContext, currentSkills }) => ({
+    contents: userTurn({ text: renderPrompt('skillSuggestions', { roleContext, currentSkills }).text }),
+    responseSchema: skillSuggestionListResponse
+  }),
+  sendChatMessage: ({ history, message, context }) => ({
+    contents: toChatContents(history, message),
+    systemInstruction: renderPrompt('chatAssistant', { currentContext: context }).text
+  }),
+  generateInterviewResponse: ({ audio, resumeContext }) => ({
+    contents: userTurn({ inlineData: audio }, { text: "Please respond to the candidate's answer naturally." }),
+    systemInstruction: renderPrompt('interviewer', { resumeContext }).text
+  }),
+};
+
+export const buildAiRequest = <F extends AiFeature>(feature: F, source: AiRequestSource<F>): AiRequest => {
+  const built = (BUILDERS[feature] as (input: AiInputs[F]) => Built)(source.input);
+  const { correction, redacted } = source;
+  const contents: AiContent[] = correction ? [
+    ...built.contents,
+    { role: 'model', parts: [{ text: correction.response }] },
+    { role: 'user', parts: [{ text: `Your previous response failed validation:\n${correction.issues}\nReturn the corrected JSON only.` }] }
+  ] : built.contents;
+  const systemInstruction = [built.systemInstruction, redacted && PLACEHOLDER_NOTE].filter(Boolean).join('\n\n');
+  return { feature, ...built, contents, systemInstruction: systemInstruction || undefined, source };
+};
+
+// --- INPUT VALIDATION ---
+// Used by the API proxy. Unknown fields are dropped; anything that can't be repaired is
+// returned as a fatal issue.
+
+// Only formats the model reads as files; text formats are sent as their text
+const resumeSource: Validator<ResumeSource> = (value, path, issues) => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  if (typeof raw.text === 'string') return { text: raw.text };
+  const file = object<{ data: string; mimeType: string }>({ data: string(), mimeType: string() })(raw.file, `${path}.file`, issues);
+  const format = resumeFormatForType(file.mimeType.toLowerCase());
+  if (!format || format.textOnly) {
+    issues.push({ path: `${path}.file.mimeType`, message: `${file.mimeType || 'missing type'} can't be sent as a file`, fatal: true });
+  }
+  return { file };
+};
+
+const audio: Validator<{ data: string; mimeType: string }> = (value, path, issues) => {
+  const clip = object<{ data: string; mimeType: string }>({ data: string(), mimeType: string({ default: 'audio/webm' }) })(value, path, issues);
+  if (!clip.mimeType.startsWith('audio/')) {
+    issues.push({ path: `${path}.mimeType`, message: `${clip.mimeType} is not audio`, fatal: true });
+  }
+  return clip;
+};
+
+const INPUTS: { [F in AiFeature]: Validator<AiInputs[F]> } = {
+  analyzeResume: object({ resume: resumeSource }),
+  parseResume: object({ resume: resumeSource }),
+  generateImprovementExample: object({ improvement: string(), resumeSummary: optionalString() }),
+  rewriteBullet: object({ bullet: string(), improvement: string(), role: optionalString() }),
+  generateInterviewReport: object({ transcript: string() }),
+  getMarketInsights: object({ query: string() }),
+  generateTailoredJobs: object({ count: number({ min: 1, max: 12, integer: true, default: 8 }), resumeSummary: optionalString(), skills: stringList() }),
+  analyzeJobMatch: object({ resumeSummary: optionalString(), resumeSkills: stringList(), background: optionalString(), jobDescription: string() }),
+  tailorResume: object({ resume: string(), jobTitle: optionalString(), jobDescription: string(), missingKeywords: stringList() }),
+  generateCoverLetter: object({ resumeSummary: optionalString(), background: optionalString(), jobDescription: string() }),
+  suggestSkills: object({ roleContext: optionalString(), currentSkills: stringList() }),
+  sendChatMessage: object({ history: arrayOf(object<ChatTurn>({ role: oneOf(['user', 'model'] as const, 'user'), text: optionalString() })), message: string(), context: optionalString() }),
+  generateInterviewResponse: object({ audio, resumeContext: optionalString() }),
+};
+
+// Reads a request body sent to the API proxy. Issues are the fatal ones only.
+export const readRequestSource = <F extends AiFeature>(feature: F, body: unknown): { source: AiRequestSource<F>; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const input = (INPUTS[feature] as Validator<AiInputs[F]>)(raw.input, 'input', issues);
+  const correction = raw.correction === undefined
+    ? undefined
+    : object<AiCorrection>({ response: string(), issues: string() })(raw.correction, 'correction', issues);
+  return { source: { input, redacted: raw.redacted === true, correction }, issues: issues.filter(issue => issue.fatal) };
+};
@@ -0,0 +1,74 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AiProvider, AiRequest, AiResponse, AiStreamChunk, AiUsage } from "./types";
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const getAiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key not found. Please add 'API_KEY' to your project's .env file or environment variables.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const toParams = (request: AiRequest, model: string) => ({
+  model,
+  contents: request.contents,
+  config: {
+    ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+    ...(request.responseSchema ? { responseMimeType: "application/json", responseSchema: request.responseSchema } : {}),
+    ...(request.useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+    abortSignal: request.signal,
+  }
+});
+
+// Extract sources if available from grounding metadata
+const extractSources = (response: GenerateContentResponse) =>
+  response.candidates?.[0]?.groundingMetadata?.groundingChunks
+    ?.filter(chunk => chunk.web?.uri && chunk.web?.title)
+    .map(chunk => ({
+        uri: chunk.web!.uri!,
+        title: chunk.web!.title!,
+        url: chunk.web!.uri!
+    })) || [];
+
+// Thinking tokens are billed as output
+const extractUsage = (response: GenerateContentResponse, model: string): AiUsage | undefined => {
+  const metadata = response.usageMetadata;
+  return metadata ? {
+    model,
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+  } : undefined;
+};
+
+export const createGeminiProvider = (): AiProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const generate = async (request: AiRequest): Promise<AiResponse> => {
+    if (!client) client = getAiClient();
+
+    const model = request.model || DEFAULT_MODEL;
+    const response = await client.models.generateContent(toParams(request, model));
+
+    return { text: response.text || "", sources: extractSources(response), usage: extractUsage(response, model) };
+  };
+
+  // Usage metadata is cumulative, so the last chunk that carries it is the total
+  const stream = async function* (request: AiRequest): AsyncGenerator<AiStreamChunk> {
+    if (!client) client = getAiClient();
+
+    const model = request.model || DEFAULT_MODEL;
+    const responses = await client.models.generateContentStream(toParams(request, model));
+    for await (const response of responses) {
+      const sources = extractSources(response);
+      yield {
+        text: response.text || "",
+        ...(sources.length > 0 ? { sources } : {}),
+        usage: extractUsage(response, model)
+      };
+    }
+  };
+
+  return { name: 'gemini', generate, stream };
+};
@@ -0,0 +1,65 @@
+import { GroundingSource } from "../../types";
+import { AiFeature, AiProvider, AiRequest, AiResponse, AiStreamChunk } from "./types";
+import { sleep } from "./request";
+import { DEFAULT_MODEL } from "./geminiProvider";
+import defaultFixtures from "./fixtures.json";
+
+export interface MockFixture {
+  // Strings are returned as-is; anything else is serialized as JSON
+  response: unknown;
+  sources?: GroundingSource[];
+}
+
+export type MockFixtures = Partial<Record<AiFeature, MockFixture>>;
+
+interface MockProviderOptions {
+  fixtures?: MockFixtures;
+  // Simulated network latency so loading states are visible in demos
+  latencyMs?: number;
+}
+
+// Rough Gemini tokenizer ratio, good enough to exercise usage accounting offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Offline provider that answers every request from canned fixtures keyed by feature.
+export const createMockProvider = ({
+  fixtures = defaultFixtures as MockFixtures,
+  latencyMs = 400
+}: MockProviderOptions = {}): AiProvider => {
+  const generate = async (request: AiRequest): Promise<AiResponse> => {
+    const fixture = fixtures[request.feature];
+    if (!fixture) {
+      throw new Error(`No mock fixture found for "${request.feature}".`);
+    }
+
+    if (latencyMs > 0) {
+      await sleep(latencyMs, request.signal);
+    }
+
+    const text = typeof fixture.response === 'string'
+      ? fixture.response
+      : JSON.stringify(fixture.response);
+
+    const prompt = request.contents.flatMap(c => c.parts).map(p => p.text || '').join('') + (request.systemInstruction || '');
+    const usage = {
+      model: request.model || DEFAULT_MODEL,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(text)
+    };
+
+    return { text, sources: fixture.sources || [], usage };
+  };
+
+  // Replays the fixture a few words at a time so progressive rendering can be tried offline
+  const stream = async function* (request: AiRequest): AsyncGenerator<AiStreamChunk> {
+    const { text, sources, usage } = await generate(request);
+    const words = text.match(/\S+\s*/g) || [];
+    for (let i = 0; i < words.length; i += 3) {
+      await sleep(40, request.signal);
+      yield { text: words.slice(i, i + 3).join('') };
+    }
+    yield { text: '', sources, usage };
+  };
+
+  return { name: 'mock', generate, stream };
+};
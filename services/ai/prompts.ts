@@ -0,0 +1,362 @@
+// Named, versioned prompt templates used by services/gemini.ts.
+// Add a new version next to the old one instead of editing a template in place,
+// so results stay attributable to the exact prompt that produced them.
+
+export interface PromptVariables {
+  resumeAnalysis: Record<string, never>;
+  resumeParse: Record<string, never>;
+  improvementExample: { improvement: string; resumeSummary: string };
+  bulletRewrite: { bullet: string; improvement: string; role: string };
+  interviewReport: { transcript: string };
+  marketInsights: { query: string };
+  tailoredJobs: { count: number; resumeSummary: string; skills: string[] };
+  // background: experience and education from the parsed resume, empty when it wasn't parsed
+  jobMatch: { resumeSummary: string; resumeSkills: string[]; background: string; jobDescription: string };
+  resumeTailoring: { resume: string; jobTitle: string; jobDescription: string; missingKeywords: string[] };
+  coverLetter: { resumeSummary: string; background: string; jobDescription: string };
+  skillSuggestions: { roleContext: string; currentSkills: string[] };
+  chatAssistant: { currentContext: string };
+  interviewer: { resumeContext: string };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export interface PromptTemplate<N extends PromptName> {
+  version: string;
+  description: string;
+  render: (vars: PromptVariables[N]) => string;
+}
+
+interface PromptEntry<N extends PromptName> {
+  // Version used unless overridden with setPromptVersion
+  active: string;
+  versions: PromptTemplate<N>[];
+}
+
+export interface RenderedPrompt {
+  text: string;
+  // "<name>@<version>", stored with results such as ResumeAnalysis.promptVersion
+  ref: string;
+}
+
+const registry: { [N in PromptName]: PromptEntry<N> } = {
+  resumeAnalysis: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Encouraging ATS consultant with calibrated score bands.",
+        render: () => `Analyze this resume acting as a helpful and encouraging Applicant Tracking System (ATS) consultant. 
+  Identify the candidate's target role based on experience.
+  
+  SCORING RULES:
+  - Be fair and constructive. A good, standard resume should score between 70-85.
+  - Excellent resumes with quantifiable results should score above 85.
+  - Only give low scores (<60) if the resume is very sparse, has major formatting errors, or lacks relevant skills entirely.
+  - Look for transferrable skills and potential, not just perfect keyword matching.
+  `
+      },
+      {
+        version: '2',
+        description: "Weighted rubric; each criterion is scored separately before totalling.",
+        render: () => `Analyze this resume as an Applicant Tracking System (ATS) consultant.
+  Identify the candidate's target role based on their most recent experience.
+
+  SCORING RUBRIC (total 100):
+  - Impact (30): achievements are specific and quantified.
+  - Relevance (25): skills and experience fit the inferred target role.
+  - Clarity (20): concise bullets, consistent tense, logical section order.
+  - ATS formatting (15): standard headings, no tables or graphics hiding text.
+  - Completeness (10): contact details, dates and education are present.
+
+  Score each criterion, then return their sum as the score.
+  Suggest improvements that would raise the lowest-scoring criteria first.
+  `
+      },
+    ]
+  },
+  resumeParse: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Extracts contact details, experience, education, certifications, projects and links verbatim.",
+        render: () => `Extract the structured contents of this resume. Copy what it says; don't improve, summarize or invent anything.
+
+  - contact: the candidate's name, headline (the title under their name, or their most recent job title), email, phone and location.
+  - experience: every role, most recent first, with title, company, location, startDate, endDate and one entry in bullets per bullet point or sentence.
+  - education: institution, degree, field, startDate, endDate.
+  - certifications: name, issuer, date.
+  - projects: name, a one-sentence description and url.
+  - links: profile and portfolio URLs (LinkedIn, GitHub, personal site) with a short label.
+
+  Write dates exactly as they appear (e.g. "Mar 2021", "2019"). Use "" for an ongoing role's endDate and for anything the resume doesn't state.
+  `
+      },
+    ]
+  },
+  improvementExample: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Concrete one-to-two sentence example for a single improvement.",
+        render: ({ improvement, resumeSummary }) => `Context: Resume Summary: "${resumeSummary}". Improvement: "${improvement}".
+  Task: Write a specific, concrete example (1-2 sentences) of how to implement this improvement.`
+      },
+    ]
+  },
+  bulletRewrite: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Rewrites one resume bullet to apply an improvement, without inventing facts.",
+        render: ({ bullet, improvement, role }) => `Rewrite this resume bullet point to apply the improvement below.
+  Role: ${role}
+  Improvement: "${improvement}"
+  ${bullet}
+
+  Keep every fact, number and technology it mentions and don't add any it doesn't. Where the improvement asks for a
+  metric the bullet doesn't have, use a placeholder in square brackets such as [X%] for the candidate to fill in.
+  Start with a strong past-tense verb, keep it to one sentence of at most 30 words, and return it as "bullet".`
+      },
+    ]
+  },
+  interviewReport: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Scores a mock interview transcript.",
+        render: ({ transcript }) => `Analyze this interview transcript.
+  Transcript: ${transcript}
+  Provide JSON assessment: overallScore (0-100), technicalScore, communicationScore, strengths, improvements.`
+      },
+    ]
+  },
+  marketInsights: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Search-grounded salary and trend summary.",
+        render: ({ query }) => `Provide market insights for: ${query}. Include salary ranges and trends.`
+      },
+    ]
+  },
+  tailoredJobs: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Realistic postings mixing best-match and stretch roles.",
+        render: ({ count, resumeSummary, skills }) => `Generate ${count} realistic job postings that are highly relevant to this candidate profile.
+  Candidate Summary: ${resumeSummary}
+  Candidate Skills: ${skills.join(', ')}
+
+  Task:
+  1. Infer the candidate's industry and seniority level.
+  2. Create ${count} diverse job opportunities.
+  3. Ensure the job titles and requirements are realistic.
+  4. Include a mix of "Best Match" and "Stretch" roles.
+  
+  Return valid JSON.`
+      },
+    ]
+  },
+  jobMatch: {
+    active: '3',
+    versions: [
+      {
+        version: '1',
+        description: "Senior recruiter evaluating profile against a job description.",
+        render: ({ resumeSummary, resumeSkills, jobDescription }) => `Role: Senior Recruiter & ATS Specialist.
+  
+  Candidate Profile:
+  Summary: ${resumeSummary}
+  Skills: ${resumeSkills.join(', ')}
+  
+  Job Description:
+  ${jobDescription}
+  
+  Evaluate fit. Provide JSON response.`
+      },
+      {
+        version: '2',
+        description: "Scores must-have requirements before nice-to-haves to reduce inflated matches.",
+        render: ({ resumeSummary, resumeSkills, jobDescription }) => `Role: Senior Recruiter & ATS Specialist.
+
+  Candidate Profile:
+  Summary: ${resumeSummary}
+  Skills: ${resumeSkills.join(', ')}
+
+  Job Description:
+  ${jobDescription}
+
+  Separate the job's must-have requirements from nice-to-haves.
+  Weight must-haves at 70% of the match score and nice-to-haves at 30%.
+  A candidate missing any must-have should not score above 70.
+  List every unmet requirement in missingKeywords. Provide JSON response.`
+      },
+      {
+        version: '3',
+        description: "Also weighs the roles and education from the parsed resume, e.g. for years-of-experience requirements.",
+        render: ({ resumeSummary, resumeSkills, background, jobDescription }) => `Role: Senior Recruiter & ATS Specialist.
+
+  Candidate Profile:
+  Summary: ${resumeSummary}
+  Skills: ${resumeSkills.join(', ')}
+  ${background}
+
+  Job Description:
+  ${jobDescription}
+
+  Separate the job's must-have requirements from nice-to-haves.
+  Weight must-haves at 70% of the match score and nice-to-haves at 30%.
+  Check experience and education requirements (years, seniority, degrees) against the candidate's roles and
+  education when they're listed, not just the summary.
+  A candidate missing any must-have should not score above 70.
+  List every unmet requirement in missingKeywords. Provide JSON response.`
+      },
+    ]
+  },
+  resumeTailoring: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Rewords and reorders a resume for one job without adding anything it doesn't say.",
+        render: ({ resume, jobTitle, jobDescription, missingKeywords }) => `Tailor this resume for a ${jobTitle} application.
+  ${resume}
+
+  ${jobDescription}
+
+  Keywords the job asks for that the resume seems to lack: ${missingKeywords.join(', ') || 'none'}
+
+  Everything must stay true to the resume: never add an employer, tool, skill, number or responsibility it doesn't state.
+  - summary: two or three sentences aimed at this job, built only from what the resume says.
+  - skills: the resume's skills, most relevant to the job first. Add a missing keyword only if the resume shows the
+    candidate has it under another name or in a bullet.
+  - experience: one entry per role, in the resume's order. List every bullet of the role exactly once, most relevant
+    first, as { from: the bullet's number in the resume, text }. Reword a bullet only to use the job's terms for what
+    it already describes; otherwise keep its text.
+  - keywordsUsed: the missing keywords you worked in. keywordsSkipped: the ones the resume gives no evidence for.`
+      },
+    ]
+  },
+  coverLetter: {
+    active: '2',
+    versions: [
+      {
+        version: '1',
+        description: "Professional, confident plain-text cover letter.",
+        render: ({ resumeSummary, jobDescription }) => `Write a professional, persuasive cover letter.
+  
+  Candidate Summary: ${resumeSummary}
+  Job Description: ${jobDescription}
+  
+  Tone: Professional, confident.
+  Return ONLY the cover letter text, no markdown.`
+      },
+      {
+        version: '2',
+        description: "Draws on the candidate's roles and education from the parsed resume, not just the summary.",
+        render: ({ resumeSummary, background, jobDescription }) => `Write a professional, persuasive cover letter.
+
+  Candidate Summary: ${resumeSummary}
+  ${background}
+
+  Job Description: ${jobDescription}
+
+  Back up the candidate's fit with specific roles and achievements from their background when it's given.
+  Never mention an employer, degree or result it doesn't state.
+  Tone: Professional, confident.
+  Return ONLY the cover letter text, no markdown.`
+      },
+    ]
+  },
+  skillSuggestions: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Six high-value skills to learn next.",
+        render: ({ roleContext, currentSkills }) => `Based on the following candidate profile and skills, suggest 6 high-value skills they should learn.
+  
+  Role/Context: ${roleContext}
+  Current Skills: ${currentSkills.join(', ')}
+  `
+      },
+    ]
+  },
+  chatAssistant: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "CarrerBot system instruction with the site knowledge base.",
+        render: ({ currentContext }) => `You are CarrerBot, the intelligent assistant for the CarrerX platform. 
+  Your goal is to help users navigate the website and explain its features.
+  
+  WEBSITE KNOWLEDGE BASE:
+  1. Dashboard: Overview of score and actions.
+  2. Resume Analyzer: Upload PDF for scoring.
+  3. Interview Prep: Voice-based mock interview.
+  4. Job Matches: Tailored jobs.
+  
+  CURRENT CONTEXT: "${currentContext}" page.
+  `
+      },
+    ]
+  },
+  interviewer: {
+    active: '1',
+    versions: [
+      {
+        version: '1',
+        description: "Hiring manager persona for voice interview practice.",
+        render: ({ resumeContext }) => `You are an experienced hiring manager conducting a job interview.
+    Context from resume: ${resumeContext}
+    
+    Goal: Assess their fit for a Senior role.
+    Keep your responses concise and conversational (spoken word style). Do not be too verbose.
+    If the candidate struggles, offer a small hint. Be professional but encouraging.
+  `
+      },
+    ]
+  },
+};
+
+const overrides: Partial<Record<PromptName, string>> = {};
+
+const findTemplate = <N extends PromptName>(name: N, version: string): PromptTemplate<N> => {
+  const entry: PromptEntry<N> = registry[name];
+  const template = entry.versions.find(v => v.version === version);
+  if (!template) {
+    throw new Error(`Unknown version "${version}" for prompt "${name}". Available: ${entry.versions.map(v => v.version).join(', ')}.`);
+  }
+  return template;
+};
+
+export const getPromptVersion = (name: PromptName) => overrides[name] || registry[name].active;
+
+// Pins a prompt to a specific version (used by the evaluation harness). Pass null to restore the default.
+export const setPromptVersion = (name: PromptName, version: string | null) => {
+  if (version === null) {
+    delete overrides[name];
+    return;
+  }
+  findTemplate(name, version);
+  overrides[name] = version;
+};
+
+export const listPromptVersions = <N extends PromptName>(name: N): PromptTemplate<N>[] => registry[name].versions;
+
+// "<name>@<version>" of the version renderPrompt would use now
+export const promptRef = (name: PromptName) => `${name}@${getPromptVersion(name)}`;
+
+export const renderPrompt = <N extends PromptName>(name: N, vars: PromptVariables[N]): RenderedPrompt => {
+  const version = getPromptVersion(name);
+  return { text: findTemplate(name, version).render(vars), ref: promptRef(name) };
+};
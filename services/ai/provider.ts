@@ -0,0 +1,38 @@
+import { AiProvider } from "./types";
+import { createApiProvider } from "./apiProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { AiFeature, AiPart, AiContent, AiRequest, AiResponse, AiStreamChunk, AiUsage, AiProvider } from "./types";
+
+let activeProvider: AiProvider | null = null;
+
+// 'api' (default) goes through the server proxy; 'gemini' calls the SDK directly
+// from the browser and needs API_KEY in the bundle, so it is for local use only.
+const createProvider = (name: string | undefined): AiProvider => {
+  switch ((name || 'api').toLowerCase()) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider();
+    case 'api':
+      return createApiProvider();
+    default:
+      console.warn(`Unknown AI_PROVIDER "${name}", falling back to the API proxy.`);
+      return createApiProvider();
+  }
+};
+
+// Resolved lazily so a missing API key only fails when an AI feature is used
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(process.env.AI_PROVIDER);
+  }
+  return activeProvider;
+};
+
+// Swap the provider at runtime (e.g. to inject custom fixtures). Pass null to
+// go back to the one selected by AI_PROVIDER.
+export const setAiProvider = (provider: AiProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRedactor, detectNames } from './redaction';
+
+test('the name at the top of a resume or in a Name field is detected', () => {
+  assert.deepEqual(detectNames('Jordan Lee\nBackend engineer in Berlin'), ['Jordan Lee']);
+  assert.deepEqual(detectNames('Summary of work\nName: Priya Raman\n'), ['Priya Raman']);
+});
+
+test('headings and job titles at the top aren\'t taken for names', () => {
+  for (const heading of ['Curriculum Vitae', 'Software Engineer', 'Senior Data Analyst', 'Professional Summary']) {
+    assert.deepEqual(detectNames(`${heading}\nJordan Lee has built payment systems.`), [], heading);
+  }
+});
+
+test('a top line sharing a word with a known name is still taken', () => {
+  assert.deepEqual(detectNames('Grace Head\nEngineering lead', ['Grace Head']), ['Grace Head']);
+  assert.deepEqual(detectNames('Grace Head\nEngineering lead'), []);
+});
+
+test('detected names are masked and restored, but a job title is left alone', () => {
+  const text = 'Software Engineer\nName: Jordan Lee\nJordan Lee led the Software Engineer hiring loop.';
+  const redactor = createRedactor(detectNames(text));
+  const masked = redactor.redact(text);
+
+  assert.equal(masked, 'Software Engineer\nName: [NAME_1]\n[NAME_1] led the Software Engineer hiring loop.');
+  assert.equal(redactor.restore(masked), text);
+});
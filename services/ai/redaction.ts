@@ -0,0 +1,155 @@
+// Reversible PII masking for privacy mode. Personal details are swapped for
+// placeholders like [EMAIL_1] before a request leaves the browser, and the
+// placeholders in the model's answer are swapped back afterwards.
+
+export type PiiKind = 'EMAIL' | 'PHONE' | 'ADDRESS' | 'NAME';
+
+export interface Redactor {
+  redact: (text: string) => string;
+  // `json` escapes restored values so they stay valid inside JSON strings
+  restore: (text: string, options?: { json?: boolean }) => string;
+  // Number of distinct values masked so far
+  readonly size: number;
+}
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+// Broad candidate match; digit count is checked separately to skip dates and years
+const PHONE = /\+?\(?\d[\d\s().-]{7,}\d/g;
+const ADDRESS = /\b\d{1,6}\s+(?:[A-Z][A-Za-z.'-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir|Highway|Hwy)\b\.?(?:,?\s+(?:Apt|Suite|Unit|#)\.?\s*[\w-]+)?/g;
+const PLACEHOLDER = /\[(EMAIL|PHONE|ADDRESS|NAME)_(\d+)\]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words that make a capitalized line a heading or a job title rather than a name
+const NOT_NAME_WORDS = new Set([
+  'resume', 'curriculum', 'vitae', 'cv', 'profile', 'summary', 'objective', 'contact', 'experience',
+  'education', 'skills', 'portfolio', 'personal', 'professional', 'details', 'information',
+  'software', 'engineer', 'engineering', 'developer', 'manager', 'designer', 'analyst', 'consultant',
+  'director', 'architect', 'scientist', 'administrator', 'coordinator', 'specialist', 'officer',
+  'assistant', 'associate', 'intern', 'student', 'graduate', 'senior', 'junior', 'lead', 'principal',
+  'head', 'chief', 'product', 'project', 'data', 'web', 'frontend', 'backend', 'full', 'stack',
+  'marketing', 'sales', 'accountant', 'nurse', 'teacher', 'technician', 'executive'
+]);
+
+// Finds likely candidate names in resume text: a "Name:" field, or a short line of
+// capitalized words at the very top, which is where nearly every resume puts it. A top
+// line with heading or job-title words ("Software Engineer", "Curriculum Vitae") is only
+// taken when it shares a word with one of the known names (the user's profile).
+export const detectNames = (text: string, knownNames: string[] = []): string[] => {
+  const names: string[] = [];
+  const labelled = text.match(/^[ \t]*(?:[Ff]ull[ \t]+)?[Nn]ame[ \t]*[:\-][ \t]*([A-Z][\w'.-]+(?:[ \t]+[A-Z][\w'.-]+){0,3})[ \t]*$/m);
+  if (labelled) names.push(labelled[1]);
+
+  const firstLine = text.split('\n').map(line => line.trim()).find(Boolean);
+  if (firstLine && /^[A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z.'-]*){1,3}$/.test(firstLine)) {
+    const words = firstLine.toLowerCase().split(/\s+/);
+    const known = new Set(knownNames.flatMap(name => name.toLowerCase().split(/\s+/)));
+    if (words.some(word => known.has(word)) || !words.some(word => NOT_NAME_WORDS.has(word.replace(/\.$/, '')))) {
+      names.push(firstLine);
+    }
+  }
+  return names;
+};
+
+export const createRedactor = (names: string[] = []): Redactor => {
+  const values = new Map<string, string>(); // placeholder -> original
+  const placeholders = new Map<string, string>(); // kind + original -> placeholder
+  const counters: Record<PiiKind, number> = { EMAIL: 0, PHONE: 0, ADDRESS: 0, NAME: 0 };
+
+  const placeholderFor = (kind: PiiKind, value: string) => {
+    // Names keep their case, so each one is restored as it was written
+    const key = `${kind}:${kind === 'NAME' ? value : value.toLowerCase()}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      placeholder = `[${kind}_${++counters[kind]}]`;
+      placeholders.set(key, placeholder);
+      values.set(placeholder, value);
+    }
+    return placeholder;
+  };
+
+  // Full names first, so "Jordan Lee" masks as one placeholder, then their parts alone.
+  // Both only as written, capitalized or in capitals: "Will Grant" shouldn't take "I will
+  // grant access" with it.
+  const spellings = (word: string) => [word, word[0].toUpperCase() + word.slice(1), word.toUpperCase()];
+  const fullNames = Array.from(new Set(names.map(name => name.trim()).filter(Boolean))).map(name => name.split(/\s+/));
+  const nameVariants = Array.from(new Set(fullNames.flatMap(parts =>
+    [0, 1, 2].map(spelling => parts.map(part => escapeRegExp(spellings(part)[spelling])).join('\\s+'))
+  )));
+  const nameParts = Array.from(new Set(
+    fullNames
+      .flat()
+      .filter(part => part.length >= 3)
+      .flatMap(spellings)
+      .map(escapeRegExp)
+  ));
+  // Longest first, so a name wins over a shorter one inside it
+  const termPattern = (sources: string[]) => sources.length > 0
+    ? new RegExp(`\\b(?:${[...sources].sort((a, b) => b.length - a.length).join('|')})\\b`, 'g')
+    : null;
+  const fullNamePattern = termPattern(nameVariants);
+  const namePartPattern = termPattern(nameParts);
+
+  const redact = (text: string) => {
+    let result = text
+      .replace(EMAIL, match => placeholderFor('EMAIL', match))
+      .replace(ADDRESS, match => placeholderFor('ADDRESS', match))
+      .replace(PHONE, match => {
+        const digits = match.replace(/\D/g, '').length;
+        return digits >= 10 && digits <= 15 ? placeholderFor('PHONE', match.trim()) : match;
+      });
+    for (const pattern of [fullNamePattern, namePartPattern]) {
+      if (pattern) result = result.replace(pattern, match => placeholderFor('NAME', match));
+    }
+    return result;
+  };
+
+  const restore = (text: string, { json = false }: { json?: boolean } = {}) =>
+    text.replace(PLACEHOLDER, placeholder => {
+      const value = values.get(placeholder);
+      if (value === undefined) return placeholder;
+      return json ? JSON.stringify(value).slice(1, -1) : value;
+    });
+
+  return {
+    redact,
+    restore,
+    get size() { return values.size; }
+  };
+};
+
+// Restores placeholders in streamed text. A trailing "[..." is held back until it
+// is complete, so a placeholder split across chunks is still swapped back.
+export const createStreamRestorer = (redactor: Redactor) => {
+  let pending = '';
+  return {
+    push: (text: string) => {
+      pending += text;
+      const open = pending.lastIndexOf('[');
+      const partial = open !== -1 && /^\[[A-Z]*_?\d*$/.test(pending.slice(open));
+      const ready = partial ? pending.slice(0, open) : pending;
+      pending = partial ? pending.slice(open) : '';
+      return redactor.restore(ready);
+    },
+    flush: () => {
+      const rest = redactor.restore(pending);
+      pending = '';
+      return rest;
+    }
+  };
+};
+
+// --- PRIVACY MODE PREFERENCE ---
+
+let privacyModeEnabled = false;
+let knownNames: string[] = [];
+
+// App.tsx sets this from the user's profile; names are masked in addition to detected ones
+export const setPrivacyMode = (enabled: boolean, names: string[] = []) => {
+  privacyModeEnabled = enabled;
+  knownNames = names;
+};
+
+export const isPrivacyModeEnabled = () => privacyModeEnabled;
+
+export const getKnownNames = () => knownNames;
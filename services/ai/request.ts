@@ -0,0 +1,143 @@
+import { AiError, toAiError } from "./errors";
+
+export interface AiCallOptions {
+  // Abort the call, e.g. when the component that started it unmounts
+  signal?: AbortSignal;
+  // Per-attempt time limit
+  timeoutMs?: number;
+  // Extra attempts for retryable failures (rate limits, 5xx)
+  retries?: number;
+  // Skip the response cache and store a fresh result
+  forceRefresh?: boolean;
+  // Mask personal details even if the user hasn't turned on privacy mode
+  // (e.g. the employer requires it for this job)
+  privacy?: boolean;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 800;
+const MAX_BACKOFF_MS = 8000;
+
+const cancelledError = () => new AiError('cancelled', "The request was cancelled.");
+const timeoutError = (timeoutMs: number) =>
+  new AiError('timeout', `The AI took longer than ${Math.max(1, Math.round(timeoutMs / 1000))}s to respond. Please try again.`, { retryable: true });
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own timeout, linked to the caller's signal
+const runAttempt = async <T>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  // Not every provider honours the signal, so race it as well
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(timedOut ? timeoutError(timeoutMs) : cancelledError()), { once: true });
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), aborted]);
+  } catch (error) {
+    if (timedOut) throw timeoutError(timeoutMs);
+    if (signal?.aborted) throw cancelledError();
+    throw toAiError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Wraps an AI call with timeouts, cancellation and exponential backoff.
+// Always rejects with an AiError.
+export const runAiRequest = async <T>(fn: (signal: AbortSignal) => Promise<T>, options: AiCallOptions = {}): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await runAttempt(fn, timeoutMs, signal);
+    } catch (error) {
+      const aiError = toAiError(error);
+      if (!aiError.retryable || attempt >= retries) throw aiError;
+
+      await backoff(attempt, aiError, signal);
+    }
+  }
+};
+
+const backoff = (attempt: number, aiError: AiError, signal?: AbortSignal) => {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  const jitter = Math.random() * delay * 0.2;
+  console.warn(`AI request failed (${aiError.kind}), retrying in ${Math.round(delay + jitter)}ms...`);
+  return sleep(delay + jitter, signal);
+};
+
+// Streaming counterpart of runAiRequest. `timeoutMs` is an idle timeout: the time
+// allowed before the first chunk and between chunks. Failures before any output are
+// retried; once text has been yielded a failure ends the stream, since replaying
+// the request would duplicate it. Always throws AiError.
+export const runAiStream = async function* <T>(fn: (signal: AbortSignal) => AsyncIterable<T>, options: AiCallOptions = {}): AsyncGenerator<T> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(timedOut ? timeoutError(timeoutMs) : cancelledError()), { once: true });
+    });
+    aborted.catch(() => {}); // Also rejects on normal cleanup below
+
+    let started = false;
+    try {
+      resetTimer();
+      const iterator = fn(controller.signal)[Symbol.asyncIterator]();
+      while (true) {
+        const next = await Promise.race([iterator.next(), aborted]);
+        if (next.done) return;
+        started = true;
+        resetTimer();
+        yield next.value;
+      }
+    } catch (error) {
+      const aiError = timedOut ? timeoutError(timeoutMs) : signal?.aborted ? cancelledError() : toAiError(error);
+      if (started || !aiError.retryable || attempt >= retries) throw aiError;
+      await backoff(attempt, aiError, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      // Stops the underlying request if the consumer stopped reading early
+      controller.abort();
+    }
+  }
+};
@@ -0,0 +1,91 @@
+import type { Schema } from "@google/genai";
+import { GroundingSource } from "../../types";
+import type { AiRequestSource } from "./features";
+
+// Every operation exposed by services/gemini.ts. Providers may use this to pick
+// canned responses (mock) or for bookkeeping; it never changes the prompt.
+export const AI_FEATURES = [
+  'analyzeResume',
+  'parseResume',
+  'generateImprovementExample',
+  'rewriteBullet',
+  'generateInterviewReport',
+  'getMarketInsights',
+  'generateTailoredJobs',
+  'analyzeJobMatch',
+  'tailorResume',
+  'generateCoverLetter',
+  'suggestSkills',
+  'sendChatMessage',
+  'generateInterviewResponse',
+] as const;
+
+export type AiFeature = typeof AI_FEATURES[number];
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  analyzeResume: 'Resume Analysis',
+  parseResume: 'Resume Parsing',
+  generateImprovementExample: 'Improvement Examples',
+  rewriteBullet: 'Bullet Rewrites',
+  generateInterviewReport: 'Interview Report',
+  getMarketInsights: 'Market Insights',
+  generateTailoredJobs: 'Job Recommendations',
+  analyzeJobMatch: 'Job Match',
+  tailorResume: 'Resume Tailoring',
+  generateCoverLetter: 'Cover Letter',
+  suggestSkills: 'Skill Suggestions',
+  sendChatMessage: 'Assistant Chat',
+  generateInterviewResponse: 'Interview Practice',
+};
+
+export interface AiPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+export interface AiContent {
+  role: 'user' | 'model';
+  parts: AiPart[];
+}
+
+export interface AiRequest {
+  feature: AiFeature;
+  contents: AiContent[];
+  model?: string;
+  systemInstruction?: string;
+  // When set, the model is asked for JSON matching this schema
+  responseSchema?: Schema;
+  // Ground the answer with web search results
+  useSearch?: boolean;
+  // The feature input the rest was built from (see features.ts); the API proxy is only sent this
+  source?: AiRequestSource;
+  signal?: AbortSignal;
+}
+
+// Token counts as billed by the model. Providers that can't report them omit `usage`.
+export interface AiUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiResponse {
+  text: string;
+  sources: GroundingSource[];
+  usage?: AiUsage;
+}
+
+// One increment of a streamed response. `text` is the new text only; sources and
+// usage arrive on whichever chunk the provider reports them (usually the last).
+export interface AiStreamChunk {
+  text: string;
+  sources?: GroundingSource[];
+  usage?: AiUsage;
+}
+
+export interface AiProvider {
+  name: string;
+  generate: (request: AiRequest) => Promise<AiResponse>;
+  // Optional; callers fall back to a single chunk from generate()
+  stream?: (request: AiRequest) => AsyncIterable<AiStreamChunk>;
+}
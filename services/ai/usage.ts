@@ -0,0 +1,101 @@
+import { AiFeature } from "./types";
+
+// Usage is recorded by the AI API in the ai_usage table and the quota is enforced there
+// (server/quota.ts). This module prices calls and reads the totals for the usage views.
+
+// Usage of one feature by one user, summed over a period
+export interface UsageRecord {
+  userId: string;
+  feature: AiFeature;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number; // Total across the requests
+  costUsd: number;
+}
+
+// null means unlimited
+export interface UsageQuota {
+  monthlyTokens: number | null;
+  monthlyRequests: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+// USD per million tokens (input, output). Unknown models are priced like the default.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number) => {
+  const pricing = MODEL_PRICING[model] || MODEL_PRICING['gemini-2.5-flash'];
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+// Quotas run by calendar month in UTC, like ai_quota_status in the database
+export const startOfMonth = (date = new Date()) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+
+export const startOfNextMonth = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+// Totals per user and feature since the given time. Row-level security decides whose usage
+// comes back: the user's own, plus their organizations' members'.
+export const listUsage = async (filter: { since: number; userId?: string }): Promise<UsageRecord[]> => {
+  const { supabase } = await import("../../lib/supabaseClient");
+  const { data, error } = await supabase.rpc('ai_usage_summary', {
+    since: new Date(filter.since).toISOString(),
+    target: filter.userId ?? null
+  });
+  if (error) throw error;
+  return (data || []).map((row: any) => ({
+    userId: row.user_id,
+    feature: row.feature,
+    requests: Number(row.requests),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    latencyMs: Number(row.latency_ms),
+    costUsd: Number(row.cost_usd),
+  }));
+};
+
+export const getQuota = async (): Promise<UsageQuota> => {
+  const { supabase } = await import("../../lib/supabaseClient");
+  const { data, error } = await supabase.from('ai_quota').select('monthly_tokens, monthly_requests').maybeSingle();
+  if (error) throw error;
+  return {
+    monthlyTokens: data?.monthly_tokens == null ? null : Number(data.monthly_tokens),
+    monthlyRequests: data?.monthly_requests == null ? null : Number(data.monthly_requests),
+  };
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageTotals => {
+  const totals = records.reduce((acc, r) => ({
+    requests: acc.requests + r.requests,
+    inputTokens: acc.inputTokens + r.inputTokens,
+    outputTokens: acc.outputTokens + r.outputTokens,
+    costUsd: acc.costUsd + r.costUsd,
+    avgLatencyMs: acc.avgLatencyMs + r.latencyMs,
+  }), { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: 0 });
+  totals.avgLatencyMs = totals.requests ? Math.round(totals.avgLatencyMs / totals.requests) : 0;
+  return totals;
+};
+
+export const groupUsage = <K extends string>(records: UsageRecord[], keyOf: (r: UsageRecord) => K) => {
+  const groups = {} as Record<K, UsageRecord[]>;
+  records.forEach(r => {
+    const key = keyOf(r);
+    (groups[key] = groups[key] || []).push(r);
+  });
+  return (Object.entries(groups) as [K, UsageRecord[]][])
+    .map(([key, group]) => ({ key, ...summarizeUsage(group) }))
+    .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+};
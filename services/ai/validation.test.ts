@@ -0,0 +1,92 @@
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AiValidationError, jobListSchema, parseStructured, resumeAnalysisSchema, resumeTailoringSchema, skillSuggestionListSchema } from './validation';
+
+// Repairs are logged
+beforeEach(() => { mock.method(console, 'warn', () => undefined); });
+afterEach(() => { mock.restoreAll(); });
+
+const rejects = (text: string, validator: Parameters<typeof parseStructured>[2]) => {
+  try {
+    parseStructured('analyzeResume', text, validator);
+  } catch (error) {
+    assert.ok(error instanceof AiValidationError);
+    return error;
+  }
+  assert.fail('expected an AiValidationError');
+};
+
+test('well-formed responses come back as they are', () => {
+  const payload = { score: 82, summary: 'Strong backend profile', strengths: ['Go'], weaknesses: [], improvements: ['Add metrics'], skills: ['Go', 'SQL'] };
+
+  assert.deepEqual(parseStructured('analyzeResume', JSON.stringify(payload), resumeAnalysisSchema), payload);
+});
+
+test('fences, stray types and duplicates are repaired', () => {
+  const text = '```json\n' + JSON.stringify({
+    score: '91.6',
+    summary: '  Solid  ',
+    strengths: 'Leadership',
+    weaknesses: null,
+    improvements: ['Quantify impact', 'quantify impact', ''],
+    skills: ['Go', 42]
+  }) + '\n```';
+
+  assert.deepEqual(parseStructured('analyzeResume', text, resumeAnalysisSchema), {
+    score: 92,
+    summary: 'Solid',
+    strengths: ['Leadership'],
+    weaknesses: [],
+    // The empty entry is dropped, not the whole list
+    improvements: ['Quantify impact'],
+    skills: ['Go', '42']
+  });
+});
+
+test('scores are clamped to 0-100', () => {
+  const analysis = (score: number) => parseStructured('analyzeResume', JSON.stringify({ score, summary: 'x' }), resumeAnalysisSchema);
+
+  assert.equal(analysis(140).score, 100);
+  assert.equal(analysis(-3).score, 0);
+});
+
+test('enums fall back to a default and lists of jobs get unique ids', () => {
+  const skills = parseStructured('suggestSkills', JSON.stringify([{ skill: 'Kubernetes', difficulty: 'expert', category: 'tool' }]), skillSuggestionListSchema);
+  assert.deepEqual(skills, [{ skill: 'Kubernetes', reason: '', difficulty: 'Intermediate', category: 'Tool', searchQuery: '' }]);
+
+  const jobs = parseStructured('generateTailoredJobs', JSON.stringify([
+    { id: 'j1', title: 'Engineer', company: 'Acme' },
+    { id: 'j1', title: 'Designer', company: 'Acme' },
+    { title: 'Analyst', company: 'Acme' },
+    { title: 'Missing company' }
+  ]), jobListSchema);
+  assert.deepEqual(jobs.map(job => [job.id, job.title, job.location]), [
+    ['j1', 'Engineer', 'Remote'],
+    ['j1-2', 'Designer', 'Remote'],
+    ['ai-job-3', 'Analyst', 'Remote']
+  ]);
+});
+
+test('nested entries that can\'t be repaired are dropped', () => {
+  const tailoring = parseStructured('tailorResume', JSON.stringify({
+    summary: 'Tailored',
+    skills: ['Go'],
+    experience: [{ bullets: [{ from: '1', text: 'Led migration' }, { from: 0 }] }],
+    keywordsUsed: [],
+    keywordsSkipped: ['Rust']
+  }), resumeTailoringSchema);
+
+  assert.deepEqual(tailoring.experience, [{ bullets: [{ from: 1, text: 'Led migration' }] }]);
+});
+
+test('missing required fields and invalid JSON are rejected with the issues', () => {
+  const missing = rejects(JSON.stringify({ strengths: ['Go'] }), resumeAnalysisSchema);
+  assert.deepEqual(missing.issues.filter(issue => issue.fatal).map(issue => issue.path), ['score', 'summary']);
+  assert.equal(missing.feature, 'analyzeResume');
+  assert.equal(missing.kind, 'invalid-response');
+
+  assert.deepEqual(rejects('Sorry, I can only answer in prose.', resumeAnalysisSchema).issues, [
+    { path: '', message: 'response is not valid JSON', fatal: true }
+  ]);
+  assert.deepEqual(rejects('[1, 2]', resumeAnalysisSchema).issues, [{ path: '', message: 'expected an object', fatal: true }]);
+});
@@ -0,0 +1,290 @@
+import { ResumeAnalysis, InterviewReport, JobMatchResult, Job, SkillSuggestion, ParsedResume, ResumeTailoring, TailoredBullet, ResumeContact, ResumeExperience, ResumeEducation, ResumeCertification, ResumeProject, ResumeLink } from "../../types";
+import { AiFeature } from "./types";
+import { AiError } from "./errors";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  // Fatal issues could not be repaired and cause the payload to be rejected
+  fatal: boolean;
+}
+
+export class AiValidationError extends AiError {
+  feature: AiFeature;
+  issues: ValidationIssue[];
+
+  constructor(feature: AiFeature, issues: ValidationIssue[]) {
+    super('invalid-response', "The AI returned an incomplete or malformed response. Please try again.");
+    this.name = 'AiValidationError';
+    this.feature = feature;
+    this.issues = issues;
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+// --- PRIMITIVES ---
+
+export const string = (options: { default?: string } = {}): Validator<string> => (value, path, issues) => {
+  if (typeof value === 'string' && value.trim() !== '') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    issues.push({ path, message: `expected a string, coerced ${typeof value}`, fatal: false });
+    return String(value);
+  }
+  if (options.default !== undefined) {
+    issues.push({ path, message: 'missing, used default', fatal: false });
+    return options.default;
+  }
+  issues.push({ path, message: 'required string is missing', fatal: true });
+  return '';
+};
+
+// Text that may be legitimately empty, such as a resume field the candidate left out
+export const optionalString = (): Validator<string> => (value, path, issues) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value.trim();
+  return string({ default: '' })(value, path, issues);
+};
+
+export const number = (options: { min?: number; max?: number; integer?: boolean; default?: number } = {}): Validator<number> => (value, path, issues) => {
+  let n = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  if (typeof value === 'string' && !isNaN(n)) {
+    issues.push({ path, message: 'expected a number, coerced string', fatal: false });
+  }
+  if (isNaN(n) || !isFinite(n)) {
+    if (options.default !== undefined) {
+      issues.push({ path, message: 'missing or not a number, used default', fatal: false });
+      return options.default;
+    }
+    issues.push({ path, message: 'required number is missing', fatal: true });
+    return 0;
+  }
+  if (options.integer) n = Math.round(n);
+  if (options.min !== undefined && n < options.min) {
+    issues.push({ path, message: `${n} is below ${options.min}, clamped`, fatal: false });
+    n = options.min;
+  }
+  if (options.max !== undefined && n > options.max) {
+    issues.push({ path, message: `${n} is above ${options.max}, clamped`, fatal: false });
+    n = options.max;
+  }
+  return n;
+};
+
+// Scores across the app are whole numbers on a 0-100 scale
+export const score = (options: { default?: number } = {}) => number({ min: 0, max: 100, integer: true, ...options });
+
+export const oneOf = <T extends string>(values: readonly T[], fallback: T): Validator<T> => (value, path, issues) => {
+  if (typeof value === 'string') {
+    const match = values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+    if (match) return match;
+  }
+  issues.push({ path, message: `expected one of ${values.join(', ')}, used "${fallback}"`, fatal: false });
+  return fallback;
+};
+
+export const arrayOf = <T>(item: Validator<T>): Validator<T[]> => (value, path, issues) => {
+  if (value === undefined || value === null) {
+    issues.push({ path, message: 'missing array, used []', fatal: false });
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'expected an array, wrapped value', fatal: false });
+    value = [value];
+  }
+
+  const result: T[] = [];
+  (value as unknown[]).forEach((entry, i) => {
+    const entryIssues: ValidationIssue[] = [];
+    const parsed = item(entry, `${path}[${i}]`, entryIssues);
+    // A broken entry is dropped instead of failing the whole list
+    if (entryIssues.some(issue => issue.fatal)) {
+      issues.push({ path: `${path}[${i}]`, message: 'invalid entry dropped', fatal: false });
+      return;
+    }
+    issues.push(...entryIssues);
+    result.push(parsed);
+  });
+  return result;
+};
+
+// Lists of free text (strengths, skills, ...) are trimmed and de-duplicated
+export const stringList = (): Validator<string[]> => (value, path, issues) => {
+  const seen = new Set<string>();
+  return arrayOf(string())(value, path, issues).filter(entry => {
+    const key = entry.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const object = <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: 'expected an object', fatal: true });
+    return {} as T;
+  }
+  const result = {} as T;
+  (Object.keys(shape) as (keyof T)[]).forEach(key => {
+    result[key] = shape[key]((value as Record<string, unknown>)[key as string], path ? `${path}.${String(key)}` : String(key), issues);
+  });
+  return result;
+};
+
+// --- RESPONSE SCHEMAS ---
+
+export type ResumeAnalysisPayload = Omit<ResumeAnalysis, 'file' | 'promptVersion' | 'injectionWarning' | 'parsed'>;
+export type ParsedResumePayload = Omit<ParsedResume, 'promptVersion' | 'reviewedAt'>;
+export type JobMatchPayload = Omit<JobMatchResult, 'promptVersion' | 'injectionWarning'>;
+
+export const resumeAnalysisSchema: Validator<ResumeAnalysisPayload> = object<ResumeAnalysisPayload>({
+  score: score(),
+  summary: string(),
+  strengths: stringList(),
+  weaknesses: stringList(),
+  improvements: stringList(),
+  skills: stringList(),
+});
+
+export const bulletRewriteSchema: Validator<{ bullet: string }> = object<{ bullet: string }>({
+  bullet: string(),
+});
+
+export const parsedResumeSchema: Validator<ParsedResumePayload> = object<ParsedResumePayload>({
+  contact: object<ResumeContact>({
+    name: optionalString(),
+    headline: optionalString(),
+    email: optionalString(),
+    phone: optionalString(),
+    location: optionalString(),
+  }),
+  experience: arrayOf(object<ResumeExperience>({
+    title: string(),
+    company: optionalString(),
+    location: optionalString(),
+    startDate: optionalString(),
+    endDate: optionalString(),
+    bullets: stringList(),
+  })),
+  education: arrayOf(object<ResumeEducation>({
+    institution: string(),
+    degree: optionalString(),
+    field: optionalString(),
+    startDate: optionalString(),
+    endDate: optionalString(),
+  })),
+  certifications: arrayOf(object<ResumeCertification>({
+    name: string(),
+    issuer: optionalString(),
+    date: optionalString(),
+  })),
+  projects: arrayOf(object<ResumeProject>({
+    name: string(),
+    description: optionalString(),
+    url: optionalString(),
+  })),
+  links: arrayOf(object<ResumeLink>({
+    label: optionalString(),
+    url: string(),
+  })),
+});
+
+export const interviewReportSchema: Validator<InterviewReport> = object<InterviewReport>({
+  overallScore: score(),
+  technicalScore: score({ default: 0 }),
+  communicationScore: score({ default: 0 }),
+  strengths: stringList(),
+  improvements: stringList(),
+});
+
+export const jobMatchSchema: Validator<JobMatchPayload> = object<JobMatchPayload>({
+  matchScore: score(),
+  summary: string({ default: '' }),
+  missingKeywords: stringList(),
+  pros: stringList(),
+  cons: stringList(),
+});
+
+export type ResumeTailoringPayload = Omit<ResumeTailoring, 'promptVersion'>;
+
+export const resumeTailoringSchema: Validator<ResumeTailoringPayload> = object<ResumeTailoringPayload>({
+  summary: string({ default: '' }),
+  skills: stringList(),
+  experience: arrayOf(object<{ bullets: TailoredBullet[] }>({
+    bullets: arrayOf(object<TailoredBullet>({
+      from: number({ min: 0, integer: true }),
+      text: string(),
+    })),
+  })),
+  keywordsUsed: stringList(),
+  keywordsSkipped: stringList(),
+});
+
+// Fields the model generates; employer-only settings are never taken from AI output
+export type JobPayload = Pick<Job, 'id' | 'title' | 'company' | 'location' | 'salary' | 'type' | 'description' | 'requirements' | 'postedAt'>;
+
+const jobSchema: Validator<JobPayload> = object<JobPayload>({
+  id: string({ default: '' }),
+  title: string(),
+  company: string(),
+  location: string({ default: 'Remote' }),
+  salary: string({ default: 'Competitive' }),
+  type: string({ default: 'Full-time' }),
+  description: string({ default: '' }),
+  requirements: stringList(),
+  postedAt: string({ default: 'Recently' }),
+});
+
+// Job ids are used as React keys and match/application lookups, so they must be unique
+export const jobListSchema: Validator<JobPayload[]> = (value, path, issues) => {
+  const seen = new Set<string>();
+  return arrayOf(jobSchema)(value, path, issues).map((job, i) => {
+    let id = job.id || `ai-job-${i + 1}`;
+    while (seen.has(id)) id = `${id}-${i + 1}`;
+    if (id !== job.id) {
+      issues.push({ path: `${path}[${i}].id`, message: job.id ? `duplicate id "${job.id}", renamed` : 'missing id, generated', fatal: false });
+    }
+    seen.add(id);
+    return { ...job, id };
+  });
+};
+
+export const skillSuggestionListSchema: Validator<SkillSuggestion[]> = arrayOf(object<SkillSuggestion>({
+  skill: string(),
+  reason: string({ default: '' }),
+  difficulty: oneOf(['Beginner', 'Intermediate', 'Advanced'] as const, 'Intermediate'),
+  category: oneOf(['Technical', 'Soft Skill', 'Tool'] as const, 'Technical'),
+  searchQuery: string({ default: '' }),
+}));
+
+// --- PARSING ---
+
+const cleanJson = (text: string | undefined) => {
+  if (!text) return "";
+  return text.replace(/```json|```/g, '').trim();
+};
+
+// Parses and validates a model response, repairing what it can.
+// Throws AiValidationError when the payload is unusable.
+export const parseStructured = <T>(feature: AiFeature, text: string, validator: Validator<T>): T => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanJson(text));
+  } catch (e) {
+    throw new AiValidationError(feature, [{ path: '', message: 'response is not valid JSON', fatal: true }]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const value = validator(raw, '', issues);
+
+  if (issues.some(issue => issue.fatal)) {
+    throw new AiValidationError(feature, issues);
+  }
+  if (issues.length > 0) {
+    console.warn(`Repaired AI response for ${feature}:`, issues);
+  }
+  return value;
+};
+
+export const describeIssues = (issues: ValidationIssue[]) =>
+  issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n');
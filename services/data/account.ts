@@ -0,0 +1,121 @@
+import { ActivityLog, Application, ApplicationStatusChange, Job, ResumeFile, SavedResume } from "../../types";
+import { Repositories, Viewer, nextVersion } from "./repositories";
+
+// Everything stored about one user, as handed to them by the data export
+export interface AccountExport {
+  exportedAt: string;
+  profile: Record<string, unknown>;
+  resumes: SavedResume[];
+  applications: (Application & { history: ApplicationStatusChange[] })[];
+  activities: ActivityLog[];
+  postedJobs: Job[];
+  tailoredJobs: Job[];
+  // The original uploads; `path` is where each one is in the ZIP
+  files: (ResumeFile & { path: string })[];
+  notes: string[];
+}
+
+export interface AccountExportFile {
+  path: string;
+  file: ResumeFile;
+  blob: Blob;
+}
+
+export const ANONYMIZED_CANDIDATE_NAME = 'Deleted candidate';
+
+const NOTES = [
+  "Chat and interview practice transcripts are never saved, so there are none to export.",
+  "Applications you sent stay visible to the employer after you delete your account, without your name, contact details or resume.",
+];
+
+// Resume files referenced by the user's records, once each
+const uniqueFiles = (files: (ResumeFile | undefined)[]) => {
+  const byKey = new Map<string, ResumeFile>();
+  files.forEach(file => {
+    if (file) byKey.set(file.id ?? file.hash ?? file.name, file);
+  });
+  return Array.from(byKey.values());
+};
+
+// Files from before separate storage carry their bytes inline; the export has them in files/
+const withoutInlineData = (file?: ResumeFile) => file && { ...file, data: undefined };
+
+const allActivities = async (repositories: Repositories, userId: string) => {
+  const activities: ActivityLog[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await repositories.activities.list(userId, { limit: 200, cursor });
+    activities.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return activities;
+};
+
+// Reads everything the user owns. Files that can't be read any more are listed in the
+// export without their contents.
+export const collectAccountData = async (repositories: Repositories, viewer: Viewer, profile: Record<string, unknown>) => {
+  const [resumes, applications, activities, postedJobs, tailoredJobs] = await Promise.all([
+    repositories.resumes.list(viewer.id),
+    viewer.role === 'candidate' ? repositories.applications.listFor(viewer) : Promise.resolve([]),
+    allActivities(repositories, viewer.id),
+    viewer.role === 'employer'
+      ? repositories.jobs.listPosted(viewer).then(jobs => jobs.filter(job => job.ownerId === viewer.id))
+      : Promise.resolve([]),
+    viewer.role === 'candidate' ? repositories.jobs.listTailored(viewer.id) : Promise.resolve([])
+  ]);
+
+  const withHistory = await Promise.all(applications.map(async app => ({ ...app, history: await repositories.applications.history(app.id) })));
+
+  const files: AccountExportFile[] = [];
+  const fileList: AccountExport['files'] = [];
+  for (const [index, file] of uniqueFiles([...resumes.map(r => r.data.file), ...applications.map(a => a.resumeFile)]).entries()) {
+    const path = `files/${index + 1}-${file.name.replace(/[\\/:*?"<>|]/g, '_')}`;
+    fileList.push({ ...withoutInlineData(file)!, path });
+    try {
+      files.push({ path, file, blob: await repositories.files.read(file) });
+    } catch {
+      // Listed above; the bytes are gone (e.g. browser data was cleared before uploading)
+    }
+  }
+
+  const data: AccountExport = {
+    exportedAt: new Date().toISOString(),
+    profile,
+    resumes: resumes.map(resume => ({ ...resume, data: { ...resume.data, file: withoutInlineData(resume.data.file) } })),
+    applications: withHistory.map(app => ({ ...app, resumeFile: withoutInlineData(app.resumeFile) })),
+    activities,
+    postedJobs,
+    tailoredJobs,
+    files: fileList,
+    notes: NOTES
+  };
+  return { data, files };
+};
+
+// Deletes the user's records from every store the repositories reach. Applications they
+// sent are kept for the employer but anonymized; jobs an employer posted are removed.
+export const eraseAccountData = async (repositories: Repositories, viewer: Viewer) => {
+  const resumes = await repositories.resumes.list(viewer.id);
+
+  if (viewer.role === 'candidate') {
+    const applications = await repositories.applications.listFor(viewer);
+    await Promise.all(applications.map(app => {
+      const { candidatePhone, candidateAddress, resumeFile, injectionWarning, ...rest } = app;
+      return repositories.applications.update(nextVersion<Application>({
+        ...rest,
+        candidateName: ANONYMIZED_CANDIDATE_NAME,
+        candidateEmail: '',
+        candidateDeleted: true
+      }));
+    }));
+    await Promise.all(uniqueFiles([...resumes.map(r => r.data.file), ...applications.map(a => a.resumeFile)]).map(file => repositories.files.remove(file)));
+    await repositories.jobs.saveTailored(viewer.id, []);
+  } else {
+    const ownJobs = (await repositories.jobs.listPosted(viewer)).filter(job => job.ownerId === viewer.id);
+    await Promise.all(ownJobs.map(job => repositories.jobs.remove(job.id)));
+    await Promise.all(uniqueFiles(resumes.map(r => r.data.file)).map(file => repositories.files.remove(file)));
+  }
+
+  await repositories.resumes.clear(viewer.id);
+  await repositories.activities.clear(viewer.id);
+};
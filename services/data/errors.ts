@@ -0,0 +1,127 @@
+import { Collection, CollectionName, Entity, Versioned } from "./types";
+
+export type RepositoryErrorKind =
+  | 'conflict'
+  | 'permission'
+  | 'quota'
+  | 'unavailable'
+  | 'invalid-data'
+  | 'not-found'
+  | 'unknown';
+
+export class RepositoryError extends Error {
+  kind: RepositoryErrorKind;
+  collection: CollectionName;
+  backend: string;
+  // For conflicts: the stored item the write was checked against (null if it was deleted)
+  current?: unknown;
+
+  constructor(kind: RepositoryErrorKind, message: string, { collection, backend, cause, current }: { collection: CollectionName; backend: string; cause?: unknown; current?: unknown }) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.kind = kind;
+    this.collection = collection;
+    this.backend = backend;
+    this.current = current;
+    if (cause !== undefined) (this as any).cause = cause;
+  }
+}
+
+// Thrown by backends when an update's expectedVersion doesn't match the stored item
+export class VersionConflictError extends Error {
+  current: unknown;
+
+  constructor(current: unknown) {
+    super("The item was changed somewhere else.");
+    this.name = 'VersionConflictError';
+    this.current = current;
+  }
+}
+
+export const assertVersion = (stored: Versioned | null | undefined, expectedVersion?: number) => {
+  if (expectedVersion === undefined || !stored) return;
+  if ((stored.version ?? 0) !== expectedVersion) throw new VersionConflictError(stored);
+};
+
+// Short headings for UI error states
+export const REPOSITORY_ERROR_TITLES: Record<RepositoryErrorKind, string> = {
+  'conflict': 'Edited Elsewhere',
+  'permission': 'Not Allowed',
+  'quota': 'Storage Full',
+  'unavailable': 'Storage Unavailable',
+  'invalid-data': 'Unreadable Data',
+  'not-found': 'Not Found',
+  'unknown': 'Could Not Save',
+};
+
+export const isRepositoryError = (error: unknown, kind?: RepositoryErrorKind): error is RepositoryError =>
+  error instanceof RepositoryError && (!kind || error.kind === kind);
+
+// Maps storage, Postgrest and network errors onto RepositoryError
+export const toRepositoryError = (error: unknown, collection: CollectionName, backend: string): RepositoryError => {
+  if (error instanceof RepositoryError) return error;
+
+  const err = error as any;
+  const message: string = err?.message || String(error ?? "Unknown storage error");
+  const code: string = err?.code || '';
+  const context = { collection, backend, cause: error };
+
+  if (error instanceof VersionConflictError) {
+    return new RepositoryError('conflict', `These ${collection} were changed in another tab or device.`, { ...context, current: error.current });
+  }
+  if (err?.name === 'QuotaExceededError' || code === '22' || message.includes('quota')) {
+    return new RepositoryError('quota', "Browser storage is full. Clear some saved data in Settings and try again.", context);
+  }
+  if (code === '42501' || code === 'PGRST301' || err?.status === 401 || err?.status === 403) {
+    return new RepositoryError('permission', `You don't have access to these ${collection}.`, context);
+  }
+  if (code === '42P01' || err?.name === 'TypeError' || message.includes('Failed to fetch') || message.includes('not available')) {
+    return new RepositoryError('unavailable', `${backend} storage is unavailable right now.`, context);
+  }
+  if (err instanceof SyntaxError) {
+    return new RepositoryError('invalid-data', `Saved ${collection} could not be read.`, context);
+  }
+  return new RepositoryError('unknown', message, context);
+};
+
+// --- REPORTING ---
+// Failures that don't stop the user (e.g. a cloud backup that didn't go through)
+// are reported here instead of being thrown, so the UI can surface them in one place.
+
+type Listener = (error: RepositoryError) => void;
+const listeners = new Set<Listener>();
+
+export const onRepositoryError = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const reportRepositoryError = (error: unknown) => {
+  if (!(error instanceof RepositoryError)) {
+    console.error("Unexpected storage error:", error);
+    return;
+  }
+  console.warn(`Storage error (${error.backend} ${error.collection}):`, error.message);
+  listeners.forEach(listener => listener(error));
+};
+
+// Wraps a collection so every failure surfaces as a RepositoryError
+export const withRepositoryErrors = <T extends Entity>(collection: Collection<T>, name: CollectionName, backend: string): Collection<T> => {
+  const guard = <A extends unknown[], R>(fn: (...args: A) => Promise<R>) => async (...args: A): Promise<R> => {
+    try {
+      return await fn(...args);
+    } catch (error) {
+      throw toRepositoryError(error, name, backend);
+    }
+  };
+  return {
+    list: guard(collection.list),
+    put: guard(collection.put),
+    update: guard(collection.update),
+    remove: guard(collection.remove),
+    page: collection.page && guard(collection.page),
+    listByParent: collection.listByParent && guard(collection.listByParent),
+    replace: guard(collection.replace),
+    subscribe: collection.subscribe
+  };
+};
@@ -0,0 +1,53 @@
+import { DataBackend } from "./types";
+import { Repositories, createRepositories } from "./repositories";
+import { createLocalStorageBackend } from "./localStorageBackend";
+import { createIndexedDbBackend, createIndexedDbFileStore } from "./indexedDbBackend";
+import { createSupabaseBackend } from "./supabaseBackend";
+import { createSyncedBackend } from "./sync";
+import { createMemoryBackend } from "./memoryBackend";
+
+export type { Collection, CollectionChange, CollectionName, DataBackend, Entity, FileStore, Versioned, SyncController, SyncConflict, SyncState, SyncStatus } from "./types";
+export type { Repositories, ResumeRepository, JobRepository, ApplicationRepository, ActivityRepository, ActivityQuery, ActivityPage, FileRepository, Viewer } from "./repositories";
+export { createRepositories, nextVersion, applyChange, isPublished, isOwnApplication } from "./repositories";
+export { RepositoryError, REPOSITORY_ERROR_TITLES, isRepositoryError, onRepositoryError, reportRepositoryError } from "./errors";
+export type { RepositoryErrorKind } from "./errors";
+export { collectAccountData, eraseAccountData, ANONYMIZED_CANDIDATE_NAME } from "./account";
+export type { AccountExport, AccountExportFile } from "./account";
+export { LOCAL_SCHEMA_VERSION, getSchemaStatus, discardQuarantined, clearQuarantine } from "./localStorageSchema";
+export type { QuarantinedRecord, SchemaStatus } from "./localStorageSchema";
+export { createLocalStorageBackend, createIndexedDbBackend, createIndexedDbFileStore, createSupabaseBackend, createSyncedBackend, createMemoryBackend };
+
+let activeRepositories: Repositories | null = null;
+
+// localStorage can't hold files, so they go to IndexedDB alongside it
+const createLocalBackend = (): DataBackend => ({ ...createLocalStorageBackend(), files: createIndexedDbFileStore() });
+
+// 'local' (default) keeps data in localStorage and syncs it to Supabase; 'indexeddb'
+// does the same with IndexedDB as the local copy; 'memory' stores nothing between reloads.
+// Resume files are stored separately in each case, see FileStore.
+const createBackend = (name: string | undefined): DataBackend => {
+  switch ((name || 'local').toLowerCase()) {
+    case 'memory':
+      return createMemoryBackend();
+    case 'indexeddb':
+      return createSyncedBackend(createIndexedDbBackend(), createSupabaseBackend());
+    case 'local':
+      return createSyncedBackend(createLocalBackend(), createSupabaseBackend());
+    default:
+      console.warn(`Unknown DATA_BACKEND "${name}", falling back to localStorage.`);
+      return createSyncedBackend(createLocalBackend(), createSupabaseBackend());
+  }
+};
+
+export const getRepositories = (): Repositories => {
+  if (!activeRepositories) {
+    activeRepositories = createRepositories(createBackend(process.env.DATA_BACKEND));
+  }
+  return activeRepositories;
+};
+
+// Swap the storage at runtime (e.g. an in-memory backend in tests). Pass null to go
+// back to the one selected by DATA_BACKEND.
+export const setRepositories = (repositories: Repositories | null) => {
+  activeRepositories = repositories;
+};
@@ -0,0 +1,75 @@
+import { openDatabase, withStore } from "../../lib/idb";
+import { assertVersion } from "./errors";
+import { Collection, CollectionName, DataBackend, Entity, FileStore, Versioned } from "./types";
+
+const DB_NAME = 'carrerx_data';
+const COLLECTIONS: CollectionName[] = ['resumes', 'jobs', 'tailoredJobs', 'applications', 'statusHistory', 'activities'];
+const FILES_STORE = 'files';
+
+interface Stored<T> {
+  id: string;
+  ownerId: string;
+  // Orders lists newest first; kept when an item is replaced
+  savedAt: number;
+  item: T;
+}
+
+// Bump the version when adding a store; the upgrade creates missing ones
+const getDb = () => openDatabase(DB_NAME, 3, (db) => {
+  COLLECTIONS.forEach(name => {
+    if (!db.objectStoreNames.contains(name)) {
+      db.createObjectStore(name, { keyPath: 'id' }).createIndex('ownerId', 'ownerId');
+    }
+  });
+  if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+});
+
+// Blobs keyed by their file key. Also used for files when the collections live in
+// localStorage, which can't hold them.
+export const createIndexedDbFileStore = (): FileStore => ({
+  put: async (key, blob) => {
+    const existing = await withStore<Blob | undefined>(getDb(), FILES_STORE, 'readonly', store => store.get(key));
+    if (!existing) await withStore(getDb(), FILES_STORE, 'readwrite', store => store.put(blob, key));
+  },
+  get: async (key) => (await withStore<Blob | undefined>(getDb(), FILES_STORE, 'readonly', store => store.get(key))) ?? null,
+  remove: async (key) => {
+    await withStore(getDb(), FILES_STORE, 'readwrite', store => store.delete(key));
+  }
+});
+
+// One object store per collection, indexed by owner. Unlike localStorage there is no
+// practical size limit, so large resume files fit.
+export const createIndexedDbBackend = (): DataBackend => {
+  const collection = <T extends Entity>(name: CollectionName): Collection<T> => {
+    const getAll = (ownerId?: string) => withStore<Stored<T>[]>(getDb(), name, 'readonly', store =>
+      ownerId ? store.index('ownerId').getAll(ownerId) : store.getAll()
+    );
+    const get = (id: string) => withStore<Stored<T> | undefined>(getDb(), name, 'readonly', store => store.get(id));
+    const save = (stored: Stored<T>) => withStore(getDb(), name, 'readwrite', store => store.put(stored));
+
+    return {
+      list: async (ownerId) => (await getAll(ownerId)).sort((a, b) => b.savedAt - a.savedAt).map(stored => stored.item),
+      put: async (item, ownerId) => {
+        const existing = await get(item.id);
+        await save({ id: item.id, ownerId: existing?.ownerId ?? ownerId, savedAt: existing?.savedAt ?? Date.now(), item });
+      },
+      update: async (item, { expectedVersion } = {}) => {
+        const existing = await get(item.id);
+        assertVersion(existing?.item as Versioned | undefined, expectedVersion);
+        if (existing) await save({ ...existing, item });
+      },
+      remove: async (id) => {
+        await withStore(getDb(), name, 'readwrite', store => store.delete(id));
+      },
+      replace: async (items, ownerId) => {
+        const existing = await getAll(ownerId);
+        await Promise.all(existing.map(stored => withStore(getDb(), name, 'readwrite', store => store.delete(stored.id))));
+        // Preserve the given order: the first item is the newest
+        const now = Date.now();
+        await Promise.all(items.map((item, index) => save({ id: item.id, ownerId, savedAt: now - index, item })));
+      }
+    };
+  };
+
+  return { name: 'IndexedDB', supports: () => true, collection, files: createIndexedDbFileStore() };
+};
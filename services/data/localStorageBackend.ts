@@ -0,0 +1,58 @@
+import { assertVersion } from "./errors";
+import { KEYS, migrateLocalStorage } from "./localStorageSchema";
+import { Collection, CollectionName, DataBackend, Entity, Versioned } from "./types";
+
+// Arrays of plain items, newest first. Owners are not recorded: user-scoped collections
+// are separated by key, and list(ownerId) on a shared collection returns every item.
+// Data left by older versions of the app is migrated first, see localStorageSchema.ts.
+export const createLocalStorageBackend = (storage: Storage = localStorage): DataBackend => {
+  migrateLocalStorage(storage);
+
+  const collection = <T extends Entity>(name: CollectionName): Collection<T> => {
+    const { shared, key } = KEYS[name];
+
+    const keyFor = (ownerId?: string) => {
+      if (!shared && !ownerId) throw new Error(`Reading ${name} needs an owner.`);
+      return key(ownerId);
+    };
+
+    const read = (ownerId?: string): T[] => {
+      const stored = storage.getItem(keyFor(ownerId));
+      return stored ? parse(stored) : [];
+    };
+
+    const parse = (value: string): T[] => {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.filter(Boolean) : [];
+    };
+
+    const write = (items: T[], ownerId?: string) => storage.setItem(keyFor(ownerId), JSON.stringify(items));
+
+    return {
+      list: async (ownerId) => read(ownerId),
+      put: async (item, ownerId) => {
+        const items = read(ownerId);
+        const exists = items.some(existing => existing.id === item.id);
+        write(exists ? items.map(existing => existing.id === item.id ? item : existing) : [item, ...items], ownerId);
+      },
+      update: async (item, { ownerId, expectedVersion } = {}) => {
+        const items = read(ownerId);
+        // Re-read right before writing, so an edit saved by another tab is noticed
+        const stored = items.find(existing => existing.id === item.id);
+        assertVersion(stored as Versioned | undefined, expectedVersion);
+        if (stored) {
+          write(items.map(existing => existing.id === item.id ? item : existing), ownerId);
+        }
+      },
+      remove: async (id, ownerId) => {
+        write(read(ownerId).filter(existing => existing.id !== id), ownerId);
+      },
+      replace: async (items, ownerId) => {
+        if (shared) throw new Error(`${name} are shared and can't be replaced per owner.`);
+        write(items, ownerId);
+      }
+    };
+  };
+
+  return { name: 'localStorage', supports: () => true, collection };
+};
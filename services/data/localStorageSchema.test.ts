@@ -0,0 +1,117 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearQuarantine, discardQuarantined, getSchemaStatus, LOCAL_SCHEMA_VERSION, migrateLocalStorage } from './localStorageSchema';
+
+const memoryStorage = (values: Record<string, unknown> = {}): Storage => {
+  const stored = new Map(Object.entries(values).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+  return {
+    get length() { return stored.size; },
+    key: index => Array.from(stored.keys())[index] ?? null,
+    getItem: key => stored.get(key) ?? null,
+    setItem: (key, value) => { stored.set(key, String(value)); },
+    removeItem: key => { stored.delete(key); },
+    clear: () => stored.clear()
+  };
+};
+
+const read = (storage: Storage, key: string) => JSON.parse(storage.getItem(key) || 'null');
+
+const resume = (id: unknown, created_at: unknown = '2026-01-01T00:00:00.000Z') => ({ id, created_at, data: { score: 70 } });
+
+test('data from before the schema existed is migrated to the latest version', () => {
+  const storage = memoryStorage({
+    carrerx_global_applications: [{ id: 'a1', jobId: 7, timestamp: 1767225600000 }],
+    carrerx_apps_alice: [{ id: 'a1', jobId: 7, timestamp: 1767225600000 }, { id: 'a2', jobId: '8', timestamp: '2026-01-02' }],
+    carrerx_resumes_alice: [resume(1)]
+  });
+
+  migrateLocalStorage(storage);
+
+  assert.equal(storage.getItem('carrerx_schema_version'), String(LOCAL_SCHEMA_VERSION));
+  // Per-user applications are merged into the shared list without duplicates
+  assert.equal(storage.getItem('carrerx_apps_alice'), null);
+  assert.deepEqual(read(storage, 'carrerx_global_applications'), [
+    { id: 'a1', jobId: '7', timestamp: '2026-01-01T00:00:00.000Z' },
+    { id: 'a2', jobId: '8', timestamp: new Date('2026-01-02').toISOString() }
+  ]);
+  assert.deepEqual(read(storage, 'carrerx_resumes_alice'), [resume('1')]);
+  assert.deepEqual(getSchemaStatus(storage).quarantined, []);
+});
+
+test('records that can\'t be repaired are quarantined, not lost', () => {
+  const storage = memoryStorage({
+    carrerx_resumes_alice: [
+      resume('r1'),
+      resume('r1'),
+      resume('r2', 'not a date'),
+      { id: 'r3', created_at: '2026-01-01', data: {} },
+      'not a record'
+    ],
+    carrerx_activities_alice: '{broken',
+    carrerx_global_applications: [{ id: 'a1', timestamp: '2026-01-01', interviewDate: 'soon' }]
+  });
+
+  migrateLocalStorage(storage);
+
+  assert.deepEqual(read(storage, 'carrerx_resumes_alice'), [resume('r1')]);
+  assert.deepEqual(read(storage, 'carrerx_activities_alice'), []);
+  // A bad optional date is dropped rather than quarantining the record
+  assert.deepEqual(read(storage, 'carrerx_global_applications'), [{ id: 'a1', timestamp: new Date('2026-01-01').toISOString() }]);
+
+  const { quarantined } = getSchemaStatus(storage);
+  assert.deepEqual(quarantined.map(({ key, collection, reason }) => ({ key, collection, reason })), [
+    { key: 'carrerx_resumes_alice', collection: 'resumes', reason: 'Duplicate id r1' },
+    { key: 'carrerx_resumes_alice', collection: 'resumes', reason: 'Not an object' },
+    { key: 'carrerx_activities_alice', collection: 'activities', reason: 'Not a readable list' },
+    { key: 'carrerx_resumes_alice', collection: 'resumes', reason: 'Unreadable created_at: "not a date"' },
+    { key: 'carrerx_resumes_alice', collection: 'resumes', reason: 'Saved without a score' }
+  ]);
+  assert.deepEqual(quarantined[0].record, resume('r1'));
+  assert.equal(quarantined[0].schemaVersion, 1);
+  assert.equal(quarantined[1].record, 'not a record');
+  assert.equal(quarantined[2].record, '{broken');
+
+  discardQuarantined(quarantined[0].id, storage);
+  assert.equal(getSchemaStatus(storage).quarantined.length, 4);
+  clearQuarantine(storage);
+  assert.deepEqual(getSchemaStatus(storage).quarantined, []);
+});
+
+test('migrations only run once', () => {
+  const storage = memoryStorage({ carrerx_resumes_alice: [resume('r1')] });
+  migrateLocalStorage(storage);
+  // Would be quarantined as a duplicate if the migrations ran again
+  storage.setItem('carrerx_resumes_alice', JSON.stringify([resume('r1'), resume('r1')]));
+
+  migrateLocalStorage(storage);
+
+  assert.equal(read(storage, 'carrerx_resumes_alice').length, 2);
+  assert.deepEqual(getSchemaStatus(storage).migrations.map(m => m.applied), Array(LOCAL_SCHEMA_VERSION).fill(true));
+});
+
+test('an interrupted run resumes after the last finished migration', () => {
+  const storage = memoryStorage({
+    carrerx_schema_version: '2',
+    // Migration 2 (string ids) already ran, so this id stays a number
+    carrerx_resumes_alice: [{ id: 5, created_at: 0, data: { score: 1 } }]
+  });
+
+  migrateLocalStorage(storage);
+
+  assert.deepEqual(read(storage, 'carrerx_resumes_alice'), [{ id: 5, created_at: '1970-01-01T00:00:00.000Z', data: { score: 1 } }]);
+});
+
+test('data written by a newer version of the app is left untouched', () => {
+  const warn = mock.method(console, 'warn', () => undefined);
+  const storage = memoryStorage({
+    carrerx_schema_version: String(LOCAL_SCHEMA_VERSION + 1),
+    carrerx_resumes_alice: [resume(1), resume(1)]
+  });
+
+  migrateLocalStorage(storage);
+  warn.mock.restore();
+
+  assert.deepEqual(read(storage, 'carrerx_resumes_alice'), [resume(1), resume(1)]);
+  assert.equal(getSchemaStatus(storage).isNewer, true);
+  assert.equal(warn.mock.callCount(), 1);
+});
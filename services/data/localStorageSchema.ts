@@ -0,0 +1,261 @@
+import { CollectionName } from "./types";
+
+// Keys match what earlier versions of the app wrote, so existing browser data keeps loading.
+// Shared collections live under one "global" key that every account on this browser
+// reads; that's how candidates and employers see each other's data in the demo.
+export const KEYS: Record<CollectionName, { shared: boolean; key: (ownerId?: string) => string }> = {
+  resumes: { shared: false, key: ownerId => `carrerx_resumes_${ownerId}` },
+  tailoredJobs: { shared: false, key: ownerId => `carrerx_jobs_${ownerId}` },
+  activities: { shared: false, key: ownerId => `carrerx_activities_${ownerId}` },
+  jobs: { shared: true, key: () => 'carrerx_global_jobs' },
+  applications: { shared: true, key: () => 'carrerx_global_applications' },
+  statusHistory: { shared: true, key: () => 'carrerx_global_status_history' },
+};
+
+// Candidates' applications were once stored per user, before the global key existed
+const LEGACY_APPLICATIONS_PREFIX = 'carrerx_apps_';
+
+const SCHEMA_VERSION_KEY = 'carrerx_schema_version';
+const QUARANTINE_KEY = 'carrerx_quarantine';
+
+// Records a migration couldn't repair. They're kept here, out of the collections, so
+// nothing is lost and the diagnostics view can show (and export) them.
+export interface QuarantinedRecord {
+  id: string;
+  // Where the record was stored, and the collection that key belongs to
+  key: string;
+  collection: CollectionName | null;
+  reason: string;
+  // The record as it was stored (or the raw string, if it wasn't valid JSON)
+  record: unknown;
+  schemaVersion: number;
+  quarantinedAt: number;
+}
+
+export interface SchemaStatus {
+  version: number;
+  latestVersion: number;
+  // Written by a newer version of the app; left untouched
+  isNewer: boolean;
+  migrations: { version: number; description: string; applied: boolean }[];
+  quarantined: QuarantinedRecord[];
+}
+
+// Thrown by a record step to move the record to quarantine
+class UnrecoverableRecord extends Error {}
+const unrecoverable = (reason: string): never => {
+  throw new UnrecoverableRecord(reason);
+};
+
+interface MigrationContext {
+  storage: Storage;
+  // Rewrites every record in the given collections; return the fixed record, or call
+  // unrecoverable() to quarantine it
+  eachRecord: (collections: CollectionName[], step: (record: any, collection: CollectionName, key: string) => any) => void;
+  quarantine: (key: string, collection: CollectionName | null, record: unknown, reason: string) => void;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  run: (context: MigrationContext) => void;
+}
+
+const collectionForKey = (key: string): CollectionName | null => {
+  for (const [name, { shared, key: keyFor }] of Object.entries(KEYS) as [CollectionName, typeof KEYS[CollectionName]][]) {
+    if (shared ? key === keyFor() : key.startsWith(keyFor(''))) return name;
+  }
+  return null;
+};
+
+const storageKeys = (storage: Storage) =>
+  Array.from({ length: storage.length }, (_, i) => storage.key(i)).filter((key): key is string => !!key);
+
+const toIsoDate = (value: unknown) => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Required and optional date fields, per collection
+const DATE_FIELDS: Partial<Record<CollectionName, { required: string[]; optional: string[] }>> = {
+  applications: { required: ['timestamp'], optional: ['interviewDate'] },
+  activities: { required: ['timestamp'], optional: [] },
+  resumes: { required: ['created_at'], optional: [] },
+};
+
+// In order. Never edit a migration that has shipped; add a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move per-user applications into the shared list',
+    run: ({ storage, quarantine }) => {
+      const globalKey = KEYS.applications.key();
+      const readList = (key: string) => {
+        const raw = storage.getItem(key) || '[]';
+        try {
+          const list = JSON.parse(raw);
+          if (Array.isArray(list)) return list;
+        } catch {
+          // Quarantined below
+        }
+        quarantine(key, 'applications', raw, 'Not a readable list of applications');
+        return [];
+      };
+      const merged: any[] = readList(globalKey);
+      const seen = new Set(merged.map(app => app?.id));
+      storageKeys(storage).filter(key => key.startsWith(LEGACY_APPLICATIONS_PREFIX)).forEach(key => {
+        readList(key).filter(app => app && !seen.has(app.id)).forEach(app => {
+          seen.add(app.id);
+          merged.push(app);
+        });
+        storage.removeItem(key);
+      });
+      storage.setItem(globalKey, JSON.stringify(merged));
+    }
+  },
+  {
+    version: 2,
+    description: 'Store ids as strings and drop duplicates',
+    run: ({ eachRecord }) => {
+      const seenByKey = new Map<string, Set<string>>();
+      eachRecord(['resumes', 'tailoredJobs', 'activities', 'jobs', 'applications'], (record, collection, key) => {
+        if (!record || typeof record !== 'object') unrecoverable('Not an object');
+        if (record.id === undefined || record.id === null || record.id === '') unrecoverable('Missing id');
+        const id = String(record.id);
+        // Lists are newest first, so the newest copy of a duplicate is kept
+        const seen = seenByKey.get(key) ?? new Set<string>();
+        seenByKey.set(key, seen);
+        if (seen.has(id)) unrecoverable(`Duplicate id ${id}`);
+        seen.add(id);
+        return collection === 'applications' && record.jobId !== undefined
+          ? { ...record, id, jobId: String(record.jobId) }
+          : { ...record, id };
+      });
+    }
+  },
+  {
+    version: 3,
+    description: 'Store dates as ISO strings',
+    run: ({ eachRecord }) => {
+      eachRecord(['applications', 'activities', 'resumes'], (record, collection) => {
+        const { required, optional } = DATE_FIELDS[collection]!;
+        const fixed = { ...record };
+        required.forEach(field => {
+          fixed[field] = toIsoDate(record[field]) ?? unrecoverable(`Unreadable ${field}: ${JSON.stringify(record[field])}`);
+        });
+        optional.forEach(field => {
+          if (record[field] === undefined) return;
+          const date = toIsoDate(record[field]);
+          if (date) fixed[field] = date;
+          else delete fixed[field];
+        });
+        return fixed;
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Quarantine resumes saved without an analysis',
+    run: ({ eachRecord }) => {
+      eachRecord(['resumes'], record => {
+        if (!record.data || typeof record.data.score !== 'number') unrecoverable('Saved without a score');
+        return record;
+      });
+    }
+  },
+];
+
+export const LOCAL_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const readVersion = (storage: Storage) => parseInt(storage.getItem(SCHEMA_VERSION_KEY) || '0', 10) || 0;
+
+const readQuarantine = (storage: Storage): QuarantinedRecord[] => {
+  try {
+    return JSON.parse(storage.getItem(QUARANTINE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Brings data written by older versions of the app up to LOCAL_SCHEMA_VERSION. Each
+// migration bumps the stored version as soon as it finishes, so an interrupted run
+// resumes where it stopped.
+export const migrateLocalStorage = (storage: Storage) => {
+  const current = readVersion(storage);
+  if (current >= LOCAL_SCHEMA_VERSION) {
+    if (current > LOCAL_SCHEMA_VERSION) console.warn(`Local data has schema v${current}, newer than this app (v${LOCAL_SCHEMA_VERSION}); not migrating.`);
+    return;
+  }
+
+  for (const migration of MIGRATIONS.filter(m => m.version > current)) {
+    const quarantined: QuarantinedRecord[] = [];
+    const quarantine = (key: string, collection: CollectionName | null, record: unknown, reason: string) => {
+      quarantined.push({
+        id: `${migration.version}-${Date.now().toString(36)}-${quarantined.length}`,
+        key, collection, record, reason,
+        schemaVersion: migration.version - 1,
+        quarantinedAt: Date.now()
+      });
+    };
+
+    const eachRecord: MigrationContext['eachRecord'] = (collections, step) => {
+      storageKeys(storage).forEach(key => {
+        const collection = collectionForKey(key);
+        if (!collection || !collections.includes(collection)) return;
+        const raw = storage.getItem(key) || '';
+        let records: unknown;
+        try {
+          records = JSON.parse(raw);
+        } catch {
+          records = null;
+        }
+        if (!Array.isArray(records)) {
+          quarantine(key, collection, raw, 'Not a readable list');
+          storage.setItem(key, '[]');
+          return;
+        }
+
+        const kept = records.flatMap(record => {
+          try {
+            return [step(record, collection, key)];
+          } catch (error) {
+            if (!(error instanceof UnrecoverableRecord)) throw error;
+            quarantine(key, collection, record, error.message);
+            return [];
+          }
+        });
+        storage.setItem(key, JSON.stringify(kept));
+      });
+    };
+
+    try {
+      migration.run({ storage, eachRecord, quarantine });
+      if (quarantined.length > 0) {
+        storage.setItem(QUARANTINE_KEY, JSON.stringify([...readQuarantine(storage), ...quarantined]));
+      }
+      storage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+    } catch (error) {
+      // Usually a full storage quota; the app still works on the unmigrated data
+      console.warn(`Local data migration to v${migration.version} failed:`, error);
+      return;
+    }
+  }
+};
+
+export const getSchemaStatus = (storage: Storage = localStorage): SchemaStatus => {
+  const version = readVersion(storage);
+  return {
+    version,
+    latestVersion: LOCAL_SCHEMA_VERSION,
+    isNewer: version > LOCAL_SCHEMA_VERSION,
+    migrations: MIGRATIONS.map(({ version: v, description }) => ({ version: v, description, applied: v <= version })),
+    quarantined: readQuarantine(storage)
+  };
+};
+
+export const discardQuarantined = (id: string, storage: Storage = localStorage) => {
+  storage.setItem(QUARANTINE_KEY, JSON.stringify(readQuarantine(storage).filter(record => record.id !== id)));
+};
+
+export const clearQuarantine = (storage: Storage = localStorage) => storage.removeItem(QUARANTINE_KEY);
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryBackend } from './memoryBackend';
+import { CollectionChange } from './types';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+test('list returns the owner\'s items, newest first', async () => {
+  const notes = createMemoryBackend().collection<Note>('resumes');
+  await notes.put({ id: 'a', text: 'first' }, 'alice');
+  await notes.put({ id: 'b', text: 'second' }, 'bob');
+  await notes.put({ id: 'c', text: 'third' }, 'alice');
+
+  assert.deepEqual((await notes.list('alice')).map(note => note.id), ['c', 'a']);
+  assert.deepEqual((await notes.list()).map(note => note.id), ['c', 'b', 'a']);
+});
+
+test('subscribers hear every write with the item\'s owner', async () => {
+  const backend = createMemoryBackend();
+  const notes = backend.collection<Note>('resumes');
+  const changes: CollectionChange<Note>[] = [];
+  notes.subscribe!(change => changes.push(change));
+
+  await notes.put({ id: 'a', text: 'draft' }, 'alice');
+  // Someone else replacing the item doesn't take it over
+  await notes.put({ id: 'a', text: 'edited' }, 'bob');
+  await notes.update({ id: 'a', text: 'final' });
+  await notes.remove('a');
+
+  assert.deepEqual(changes, [
+    { type: 'upsert', item: { id: 'a', text: 'draft' }, ownerId: 'alice' },
+    { type: 'upsert', item: { id: 'a', text: 'edited' }, ownerId: 'alice' },
+    { type: 'upsert', item: { id: 'a', text: 'final' }, ownerId: 'alice' },
+    { type: 'remove', id: 'a', ownerId: 'alice' },
+  ]);
+});
+
+test('subscribers only hear their own collection, until they unsubscribe', async () => {
+  const backend = createMemoryBackend();
+  const heard: string[] = [];
+  const unsubscribe = backend.collection<Note>('jobs').subscribe!(change => heard.push(change.type));
+
+  await backend.collection<Note>('applications').put({ id: 'x', text: '' }, 'alice');
+  await backend.collection<Note>('jobs').put({ id: 'y', text: '' }, 'alice');
+  unsubscribe();
+  await backend.collection<Note>('jobs').remove('y');
+
+  assert.deepEqual(heard, ['upsert']);
+});
+
+test('replace swaps only the owner\'s items and broadcasts each change', async () => {
+  const notes = createMemoryBackend().collection<Note>('activities');
+  await notes.put({ id: 'a', text: '' }, 'alice');
+  await notes.put({ id: 'b', text: '' }, 'bob');
+  const changes: CollectionChange<Note>[] = [];
+  notes.subscribe!(change => changes.push(change));
+
+  await notes.replace([{ id: 'c', text: '' }], 'alice');
+
+  assert.deepEqual((await notes.list()).map(note => note.id).sort(), ['b', 'c']);
+  assert.deepEqual(changes.map(change => [change.type, change.ownerId]), [['remove', 'alice'], ['upsert', 'alice']]);
+});
+
+test('update with a stale expectedVersion is rejected', async () => {
+  const notes = createMemoryBackend().collection<Note & { version?: number }>('jobs');
+  await notes.put({ id: 'a', text: 'v2', version: 2 }, 'alice');
+
+  await assert.rejects(notes.update({ id: 'a', text: 'mine', version: 2 }, { expectedVersion: 1 }), { name: 'VersionConflictError' });
+  assert.equal((await notes.list())[0].text, 'v2');
+});
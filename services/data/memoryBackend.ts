@@ -0,0 +1,76 @@
+import { assertVersion } from "./errors";
+import { Collection, CollectionChange, CollectionName, DataBackend, Entity, FileStore, Versioned } from "./types";
+
+interface Stored<T> {
+  ownerId: string;
+  item: T;
+}
+
+// Keeps everything in memory; used by tests and scripts, and nothing survives a reload.
+// Subscribers hear every write, so clients sharing one memory backend behave like
+// clients of a realtime server (a stand-in for Supabase channels).
+export const createMemoryBackend = (): DataBackend => {
+  const collections = new Map<CollectionName, Map<string, Stored<any>>>();
+  const channels = new Map<CollectionName, Set<(change: CollectionChange<any>) => void>>();
+
+  const collection = <T extends Entity>(name: CollectionName): Collection<T> => {
+    if (!collections.has(name)) collections.set(name, new Map());
+    if (!channels.has(name)) channels.set(name, new Set());
+    const items = collections.get(name)! as Map<string, Stored<T>>;
+    const listeners = channels.get(name)!;
+    const broadcast = (change: CollectionChange<T>) => listeners.forEach(listener => listener(change));
+
+    return {
+      list: async (ownerId) =>
+        Array.from(items.values())
+          .filter(stored => !ownerId || stored.ownerId === ownerId)
+          .map(stored => stored.item)
+          .reverse(),
+      put: async (item, ownerId) => {
+        // Map keeps insertion order, so a replaced item keeps its place
+        const existing = items.get(item.id);
+        items.set(item.id, { ownerId: existing?.ownerId ?? ownerId, item });
+        broadcast({ type: 'upsert', item, ownerId: existing?.ownerId ?? ownerId });
+      },
+      update: async (item, { expectedVersion } = {}) => {
+        const existing = items.get(item.id);
+        assertVersion(existing?.item as Versioned | undefined, expectedVersion);
+        if (existing) {
+          items.set(item.id, { ...existing, item });
+          broadcast({ type: 'upsert', item, ownerId: existing.ownerId });
+        }
+      },
+      remove: async (id) => {
+        const existing = items.get(id);
+        if (existing && items.delete(id)) broadcast({ type: 'remove', id, ownerId: existing.ownerId });
+      },
+      replace: async (next, ownerId) => {
+        Array.from(items.entries())
+          .filter(([, stored]) => stored.ownerId === ownerId)
+          .forEach(([id]) => {
+            items.delete(id);
+            broadcast({ type: 'remove', id, ownerId });
+          });
+        [...next].reverse().forEach(item => {
+          items.set(item.id, { ownerId, item });
+          broadcast({ type: 'upsert', item, ownerId });
+        });
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+      }
+    };
+  };
+
+  const blobs = new Map<string, Blob>();
+  const files: FileStore = {
+    put: async (key, blob) => {
+      if (!blobs.has(key)) blobs.set(key, blob);
+    },
+    get: async (key) => blobs.get(key) ?? null,
+    remove: async (key) => { blobs.delete(key); }
+  };
+
+  return { name: 'memory', supports: () => true, collection, files };
+};
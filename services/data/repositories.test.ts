@@ -0,0 +1,190 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Application, Job, SavedResume } from '../../types';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { createMemoryBackend } from './memoryBackend';
+import { createRepositories, Repositories, Viewer } from './repositories';
+import { CollectionChange, CollectionName, DataBackend, Entity } from './types';
+
+const owner: Viewer = { id: 'employer-1', email: 'owner@acme.test', role: 'employer', orgId: 'acme' };
+const colleague: Viewer = { id: 'employer-2', email: 'colleague@acme.test', role: 'employer', orgId: 'acme' };
+const rival: Viewer = { id: 'employer-3', email: 'hr@rival.test', role: 'employer' };
+const alice: Viewer = { id: 'candidate-1', email: 'alice@mail.test', role: 'candidate' };
+const bob: Viewer = { id: 'candidate-2', email: 'bob@mail.test', role: 'candidate' };
+
+const job = (id: string, overrides: Partial<Job> = {}): Job => ({
+  id,
+  title: 'Engineer',
+  company: 'Acme',
+  location: 'Remote',
+  salary: '',
+  type: 'Full-time',
+  description: '',
+  requirements: [],
+  postedAt: 'Today',
+  status: 'published',
+  ...overrides
+});
+
+const application = (id: string, jobId: string, candidate: Viewer): Application => ({
+  id,
+  jobId,
+  jobTitle: 'Engineer',
+  candidateName: candidate.email,
+  candidateEmail: candidate.email,
+  matchScore: 80,
+  status: 'New',
+  timestamp: new Date('2026-10-01T09:00:00Z')
+});
+
+// Visibility of an application is decided after reading the viewer's jobs
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const setup = async () => {
+  const backend = createMemoryBackend();
+  const repositories = createRepositories(backend);
+  await repositories.jobs.post(job('acme-job', { orgId: 'acme' }), owner.id);
+  await repositories.jobs.post(job('rival-job', { company: 'Rival' }), rival.id);
+  return { backend, repositories };
+};
+
+const listen = (repositories: Repositories, viewer: Viewer) => {
+  const changes: CollectionChange<Application>[] = [];
+  repositories.applications.subscribe(viewer, change => changes.push(change));
+  return changes;
+};
+
+const ids = (changes: CollectionChange<Application>[]) =>
+  changes.map(change => change.type === 'remove' ? `-${change.id}` : change.item.id);
+
+test('candidates only hear about their own applications', async () => {
+  const { repositories } = await setup();
+  const aliceHears = listen(repositories, alice);
+  const bobHears = listen(repositories, bob);
+
+  await repositories.applications.create(application('a1', 'acme-job', alice), alice.id);
+  await repositories.applications.create(application('b1', 'rival-job', bob), bob.id);
+  await settle();
+
+  assert.deepEqual(ids(aliceHears), ['a1']);
+  assert.deepEqual(ids(bobHears), ['b1']);
+});
+
+test('applications from before ownership are matched by email', async () => {
+  const { backend, repositories } = await setup();
+  const aliceHears = listen(repositories, alice);
+  const bobHears = listen(repositories, bob);
+
+  // Older versions of the app saved applications without a candidateId
+  await backend.collection<Application>('applications').put(application('old', 'acme-job', alice), 'unknown');
+  await settle();
+
+  assert.deepEqual(ids(aliceHears), ['old']);
+  assert.deepEqual(ids(bobHears), []);
+});
+
+test('employers hear about applications to jobs their organization manages', async () => {
+  const { repositories } = await setup();
+  const ownerHears = listen(repositories, owner);
+  const colleagueHears = listen(repositories, colleague);
+  const rivalHears = listen(repositories, rival);
+
+  await repositories.applications.create(application('a1', 'acme-job', alice), alice.id);
+  await repositories.applications.create(application('b1', 'rival-job', bob), bob.id);
+  // AI-tailored jobs have no employer
+  await repositories.applications.create(application('c1', 'ai-job-1', alice), alice.id);
+  await settle();
+
+  assert.deepEqual(ids(ownerHears), ['a1']);
+  assert.deepEqual(ids(colleagueHears), ['a1']);
+  assert.deepEqual(ids(rivalHears), ['b1']);
+});
+
+test('an employer\'s jobs are read once and kept current from job changes', async () => {
+  const backend = createMemoryBackend();
+  let jobReads = 0;
+  const counting: DataBackend = {
+    ...backend,
+    collection: <T extends Entity>(name: CollectionName) => {
+      const collection = backend.collection<T>(name);
+      return name === 'jobs' ? { ...collection, list: ownerId => { jobReads++; return collection.list(ownerId); } } : collection;
+    }
+  };
+  const repositories = createRepositories(counting);
+  await repositories.jobs.post(job('acme-job', { orgId: 'acme' }), owner.id);
+  const ownerHears = listen(repositories, owner);
+
+  await repositories.applications.create(application('a1', 'acme-job', alice), alice.id);
+  await settle();
+  await repositories.jobs.post(job('acme-job-2', { orgId: 'acme' }), colleague.id);
+  await repositories.jobs.post(job('rival-job', { company: 'Rival' }), rival.id);
+  await repositories.applications.create(application('a2', 'acme-job-2', alice), alice.id);
+  await repositories.applications.create(application('b1', 'rival-job', bob), bob.id);
+  await settle();
+
+  assert.deepEqual(ids(ownerHears), ['a1', 'a2']);
+  assert.equal(jobReads, 1);
+});
+
+test('changes arrive with dates revived and removals pass through', async () => {
+  const { backend, repositories } = await setup();
+  const ownerHears = listen(repositories, owner);
+
+  // Remote stores send dates as strings
+  await backend.collection<Application>('applications').put(JSON.parse(JSON.stringify(application('a1', 'acme-job', alice))), alice.id);
+  await backend.collection<Application>('applications').remove('a1');
+  await settle();
+
+  assert.equal(ownerHears.length, 2);
+  assert.ok(ownerHears[0].type === 'upsert' && ownerHears[0].item.timestamp instanceof Date);
+  assert.deepEqual(ownerHears[1], { type: 'remove', id: 'a1', ownerId: alice.id });
+});
+
+test('jobs a candidate can no longer see arrive as removals', async () => {
+  const { repositories } = await setup();
+  const heard: string[] = [];
+  repositories.jobs.subscribePosted(alice, change => heard.push(change.type === 'remove' ? `-${change.id}` : change.item.id));
+  const ownerHeard: string[] = [];
+  repositories.jobs.subscribePosted(owner, change => ownerHeard.push(change.type === 'remove' ? `-${change.id}` : change.item.id));
+
+  await repositories.jobs.update({ ...job('acme-job', { orgId: 'acme', ownerId: owner.id, status: 'closed' }), version: 1 });
+  await repositories.jobs.post(job('draft', { status: 'draft' }), owner.id);
+
+  assert.deepEqual(heard, ['-acme-job', '-draft']);
+  assert.deepEqual(ownerHeard, ['acme-job', 'draft']);
+});
+
+const memoryStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    key: index => Array.from(values.keys())[index] ?? null,
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, String(value)); },
+    removeItem: key => { values.delete(key); },
+    clear: () => values.clear()
+  };
+};
+
+const savedResume = (id: string, created_at: string): SavedResume => ({
+  id,
+  created_at,
+  data: { score: 70, summary: '', strengths: [], weaknesses: [], improvements: [], skills: [] }
+});
+
+// localStorage keeps each candidate's resumes under their own key, so every write needs the owner
+test('resume edits and the pinned default are saved on the localStorage backend', async () => {
+  const { resumes } = createRepositories(createLocalStorageBackend(memoryStorage()));
+  await resumes.add(alice.id, savedResume('r1', '2026-10-01T09:00:00.000Z'));
+  await resumes.add(alice.id, savedResume('r2', '2026-10-02T09:00:00.000Z'));
+
+  await resumes.update(alice.id, { ...savedResume('r1', '2026-10-01T09:00:00.000Z'), label: 'Backend v1' });
+  await resumes.setDefault(alice.id, 'r1');
+  await resumes.setDefault(alice.id, 'r2');
+
+  assert.deepEqual((await resumes.list(alice.id)).map(({ id, label, pinned }) => ({ id, label, pinned })), [
+    { id: 'r2', label: undefined, pinned: true },
+    { id: 'r1', label: 'Backend v1', pinned: false }
+  ]);
+  assert.deepEqual(await resumes.list(bob.id), []);
+});
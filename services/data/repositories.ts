@@ -0,0 +1,375 @@
+import { ActivityKind, ActivityLog, Application, ApplicationStatusChange, Job, ResumeFile, SavedResume, UserRole } from "../../types";
+import { kindFromTitle } from "../../lib/activity";
+import { base64ToBlob, sha256Hex } from "../../lib/files";
+import { RepositoryError, reportRepositoryError, toRepositoryError, withRepositoryErrors } from "./errors";
+import { CollectionChange, CollectionName, DataBackend, Entity, SyncController, Versioned } from "./types";
+
+// Every method rejects with a RepositoryError; see errors.ts
+
+export interface ResumeRepository {
+  // Newest first; entries without a score (corrupt saves) are skipped. Local copies of
+  // those are quarantined by the schema migrations instead.
+  list: (userId: string) => Promise<SavedResume[]>;
+  add: (userId: string, resume: SavedResume) => Promise<void>;
+  // Replaces a saved resume, e.g. after the candidate corrected its parsed details
+  update: (userId: string, resume: SavedResume) => Promise<void>;
+  // Pins one resume as the default and unpins the rest; null unpins them all
+  setDefault: (userId: string, resumeId: string | null) => Promise<void>;
+  // Deletes every saved resume (not their files, see FileRepository.remove)
+  clear: (userId: string) => Promise<void>;
+}
+
+export interface JobRepository {
+  // Jobs posted by employers. Employers get the ones they manage, in any status;
+  // candidates get every published job.
+  listPosted: (viewer: Viewer) => Promise<Job[]>;
+  // Records the employer as the job's owner
+  post: (job: Job, employerId: string) => Promise<void>;
+  // Expects a job stamped with nextVersion; rejects with a 'conflict' error if it was
+  // edited elsewhere since
+  update: (job: Job) => Promise<void>;
+  remove: (jobId: string) => Promise<void>;
+  // AI-generated postings kept for one candidate
+  listTailored: (userId: string) => Promise<Job[]>;
+  saveTailored: (userId: string, jobs: Job[]) => Promise<void>;
+  // Live changes to the jobs listPosted would return. A job the viewer can no longer
+  // see (e.g. one that was closed) arrives as a removal. Returns an unsubscribe function.
+  subscribePosted: (viewer: Viewer, onChange: (change: CollectionChange<Job>) => void) => () => void;
+}
+
+// The signed-in user, for deciding which shared records they see
+export interface Viewer {
+  id: string;
+  email: string;
+  role: UserRole;
+  orgId?: string;
+}
+
+export interface ApplicationRepository {
+  // Candidates see their own applications; employers those to the jobs they manage.
+  // Newest first.
+  listFor: (viewer: Viewer) => Promise<Application[]>;
+  // The candidate becomes the application's owner, for good
+  create: (application: Application, candidateId: string) => Promise<void>;
+  // Saves changes (e.g. a status) without touching who owns the application. Expects an
+  // application stamped with nextVersion, like JobRepository.update.
+  update: (application: Application) => Promise<void>;
+  // Status changes of one application, oldest first
+  history: (applicationId: string) => Promise<ApplicationStatusChange[]>;
+  // Written by the employer who made the change, alongside update()
+  recordStatusChange: (change: ApplicationStatusChange) => Promise<void>;
+  // Live changes to the applications listFor would return; returns an unsubscribe function
+  subscribe: (viewer: Viewer, onChange: (change: CollectionChange<Application>) => void) => () => void;
+}
+
+export interface ActivityQuery {
+  kinds?: ActivityKind[];
+  // Inclusive bounds on the activity's timestamp
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string | null;
+}
+
+export interface ActivityPage {
+  items: ActivityLog[];
+  // Pass back as the cursor for the next page; null on the last one
+  nextCursor: string | null;
+}
+
+export interface ActivityRepository {
+  // Most recent first, one page at a time
+  list: (userId: string, query?: ActivityQuery) => Promise<ActivityPage>;
+  // Activities are kept for good; there's no cap
+  add: (userId: string, activity: ActivityLog) => Promise<void>;
+  clear: (userId: string) => Promise<void>;
+}
+
+export interface FileRepository {
+  // Stores an uploaded resume and returns the reference to save in its place. Saving the
+  // same content again reuses the stored copy.
+  saveResume: (ownerId: string, file: Blob, name: string) => Promise<ResumeFile>;
+  read: (file: ResumeFile) => Promise<Blob>;
+  // A URL that downloads the file. Files in this browser get an object URL (revoke it once
+  // used); others a signed URL from the server that expires within a minute.
+  downloadUrl: (file: ResumeFile) => Promise<string>;
+  // Files saved before separate storage have nothing to remove
+  remove: (file: ResumeFile) => Promise<void>;
+}
+
+export interface Repositories {
+  backend: string;
+  resumes: ResumeRepository;
+  jobs: JobRepository;
+  applications: ApplicationRepository;
+  activities: ActivityRepository;
+  files: FileRepository;
+  // Outbox and conflicts when writes are synced to a remote store, otherwise null
+  sync: SyncController | null;
+}
+
+const ACTIVITY_PAGE_SIZE = 20;
+
+const newestFirst = <T>(time: (item: T) => string | number | Date) => (a: T, b: T) =>
+  new Date(time(b)).getTime() - new Date(time(a)).getTime();
+
+// Stamps an edit before it's saved (and shown): the repository checks the store still
+// holds the version before it, so two edits of the same version conflict.
+export const nextVersion = <T extends Versioned>(item: T): T =>
+  ({ ...item, version: (item.version ?? 0) + 1, updatedAt: new Date().toISOString() });
+
+// Stores keep dates as ISO strings
+const reviveApplication = (app: Application): Application => ({
+  ...app,
+  timestamp: new Date(app.timestamp),
+  interviewDate: app.interviewDate ? new Date(app.interviewDate) : undefined
+});
+
+export const isPublished = (job: Job) => (job.status ?? 'published') === 'published';
+
+// Row-level security does this for Supabase; local stores hold everyone's jobs. Jobs
+// without an owner predate ownership and stay visible to every employer.
+const canSeeJob = (job: Job, viewer: Viewer) =>
+  viewer.role === 'employer'
+    ? !job.ownerId || job.ownerId === viewer.id || (!!job.orgId && job.orgId === viewer.orgId)
+    : isPublished(job);
+
+// Applications saved before ownership was recorded are matched by email
+export const isOwnApplication = (app: Application, user: { id: string; email: string }) =>
+  app.candidateId ? app.candidateId === user.id : app.candidateEmail === user.email;
+
+// Without realtime support there's nothing to listen to
+const noSubscription = () => () => {};
+
+// Folds a live change into a list held in state. An older copy of an item (e.g. the echo
+// of a write that has since been edited again) doesn't replace a newer one.
+export const applyChange = <T extends Entity & Versioned>(items: T[], change: CollectionChange<T>): T[] => {
+  if (change.type === 'remove') return items.filter(item => item.id !== change.id);
+  const existing = items.find(item => item.id === change.item.id);
+  if (!existing) return [change.item, ...items];
+  if ((existing.version ?? 0) > (change.item.version ?? 0)) return items;
+  return items.map(item => item.id === change.item.id ? change.item : item);
+};
+
+const reviveStatusChange = (change: ApplicationStatusChange): ApplicationStatusChange => ({
+  ...change,
+  changedAt: new Date(change.changedAt),
+  interviewDate: change.interviewDate ? new Date(change.interviewDate) : undefined
+});
+
+// Activities saved before kinds existed have a title and a type but no kind or metadata
+const reviveActivity = (activity: ActivityLog): ActivityLog => ({
+  ...activity,
+  kind: activity.kind ?? kindFromTitle(activity.title),
+  metadata: activity.metadata ?? {},
+  timestamp: new Date(activity.timestamp)
+});
+
+// A page ends at an activity; the next one starts at whatever is older than it. Ties on
+// the timestamp are broken by id, so new activity doesn't shift later pages.
+const activityCursor = (activity: ActivityLog) => `${activity.timestamp.getTime()}:${activity.id}`;
+const parseCursor = (cursor: string) => {
+  const separator = cursor.indexOf(':');
+  return { timestamp: new Date(Number(cursor.slice(0, separator))), id: cursor.slice(separator + 1) };
+};
+const isOlderThan = (activity: ActivityLog, { timestamp, id }: { timestamp: Date; id: string }) => {
+  const activityTime = activity.timestamp.getTime();
+  return activityTime < timestamp.getTime() || (activityTime === timestamp.getTime() && activity.id < id);
+};
+
+const basedOn = (item: Versioned) => ({ expectedVersion: (item.version ?? 1) - 1 });
+
+export const createRepositories = (backend: DataBackend): Repositories => {
+  const collection = <T extends Entity>(name: CollectionName) =>
+    withRepositoryErrors(backend.collection<T>(name), name, backend.name);
+
+  const resumes = collection<SavedResume>('resumes');
+  const postedJobs = collection<Job>('jobs');
+  const tailoredJobs = collection<Job>('tailoredJobs');
+  const applications = collection<Application>('applications');
+  const statusHistory = collection<ApplicationStatusChange>('statusHistory');
+  const activities = collection<ActivityLog>('activities');
+
+  // Files are resume uploads, so their errors are reported against resumes
+  const fileError = (error: unknown) => toRepositoryError(error, 'resumes', backend.name);
+  const fileStore = () => {
+    if (!backend.files) throw new RepositoryError('unavailable', `${backend.name} storage can't hold files.`, { collection: 'resumes', backend: backend.name });
+    return backend.files;
+  };
+  const readFile = async (file: ResumeFile) => {
+    if (file.data) return base64ToBlob(file.data, file.type);
+    const blob = file.id ? await fileStore().get(file.id) : null;
+    if (!blob) throw new RepositoryError('not-found', `${file.name} is no longer stored.`, { collection: 'resumes', backend: backend.name });
+    return blob;
+  };
+
+  // Ids of the posted jobs an employer manages; applications to other jobs (including
+  // AI-tailored ones, which have no employer) aren't theirs to see
+  const managedJobs = async (viewer: Viewer) =>
+    new Set((await postedJobs.list()).filter(job => canSeeJob(job, viewer)).map(job => job.id));
+
+  return {
+    backend: backend.name,
+    sync: backend.sync ?? null,
+    resumes: {
+      list: async (userId) =>
+        (await resumes.list(userId))
+          .filter(resume => resume.data && resume.data.score !== undefined)
+          .sort(newestFirst(resume => resume.created_at)),
+      add: (userId, resume) => resumes.put(resume, userId),
+      update: (userId, resume) => resumes.update(resume, { ownerId: userId }),
+      setDefault: async (userId, resumeId) => {
+        const changed = (await resumes.list(userId)).filter(resume => !!resume.pinned !== (resume.id === resumeId));
+        // Unpin first, so there's never a moment with two defaults
+        changed.sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+        for (const resume of changed) {
+          await resumes.update({ ...resume, pinned: resume.id === resumeId }, { ownerId: userId });
+        }
+      },
+      clear: (userId) => resumes.replace([], userId)
+    },
+    jobs: {
+      listPosted: async (viewer) => (await postedJobs.list()).filter(job => canSeeJob(job, viewer)),
+      post: (job, employerId) => postedJobs.put({ ...job, ownerId: job.ownerId ?? employerId }, employerId),
+      update: (job) => postedJobs.update(job, basedOn(job)),
+      remove: (jobId) => postedJobs.remove(jobId),
+      listTailored: (userId) => tailoredJobs.list(userId),
+      saveTailored: (userId, jobs) => tailoredJobs.replace(jobs, userId),
+      subscribePosted: (viewer, onChange) => {
+        if (!postedJobs.subscribe) return noSubscription();
+        return postedJobs.subscribe(change =>
+          onChange(change.type === 'upsert' && !canSeeJob(change.item, viewer) ? { type: 'remove', id: change.item.id } : change)
+        );
+      }
+    },
+    applications: {
+      listFor: async (viewer) => {
+        if (viewer.role === 'candidate') {
+          const own = (await applications.list(viewer.id)).filter(app => isOwnApplication(app, viewer));
+          return own.map(reviveApplication).sort(newestFirst(app => app.timestamp));
+        }
+        const [all, managedJobIds] = await Promise.all([applications.list(), managedJobs(viewer)]);
+        return all.filter(app => managedJobIds.has(app.jobId)).map(reviveApplication).sort(newestFirst(app => app.timestamp));
+      },
+      create: (application, candidateId) => applications.put({ ...application, candidateId }, candidateId),
+      update: (application) => applications.update(application, basedOn(application)),
+      // Remote stores read just this application's changes; local ones are filtered here
+      history: async (applicationId) =>
+        (statusHistory.listByParent ? await statusHistory.listByParent(applicationId) : await statusHistory.list())
+          .filter(change => change.applicationId === applicationId)
+          .map(reviveStatusChange)
+          .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime()),
+      recordStatusChange: (change) => statusHistory.put(change, change.changedBy),
+      subscribe: (viewer, onChange) => {
+        if (!applications.subscribe) return noSubscription();
+        // An employer's jobs are read once, on the first change, and then kept current
+        // from the jobs' own changes. A failed read is tried again on the next change.
+        let managedJobIds: Promise<Set<string>> | null = null;
+        const readManagedJobs = () => {
+          if (!managedJobIds) {
+            managedJobIds = managedJobs(viewer).catch(error => {
+              managedJobIds = null;
+              throw error;
+            });
+          }
+          return managedJobIds;
+        };
+        const stopJobs = viewer.role === 'employer' && postedJobs.subscribe
+          ? postedJobs.subscribe(change => {
+            void managedJobIds?.then(ids => {
+              if (change.type === 'upsert' && canSeeJob(change.item, viewer)) ids.add(change.item.id);
+              else ids.delete(change.type === 'upsert' ? change.item.id : change.id);
+            }, () => undefined);
+          })
+          : noSubscription();
+
+        // Checking an employer's jobs may take a read, so changes are passed on one at a
+        // time; otherwise a removal could overtake the upsert before it
+        let delivered = Promise.resolve();
+        const stopApplications = applications.subscribe(change => {
+          delivered = delivered.then(async () => {
+            if (change.type === 'remove') return onChange(change);
+            const visible = viewer.role === 'candidate'
+              ? isOwnApplication(change.item, viewer)
+              : (await readManagedJobs().catch(() => new Set<string>())).has(change.item.jobId);
+            if (visible) onChange({ ...change, item: reviveApplication(change.item) });
+          }).catch(error => reportRepositoryError(error));
+        });
+        return () => {
+          stopApplications();
+          stopJobs();
+        };
+      }
+    },
+    files: {
+      saveResume: async (ownerId, file, name) => {
+        try {
+          const hash = await sha256Hex(file);
+          const id = `${ownerId}/${hash}`;
+          await fileStore().put(id, file);
+          return { id, hash, name, type: file.type, size: file.size };
+        } catch (error) {
+          throw fileError(error);
+        }
+      },
+      read: async (file) => {
+        try {
+          return await readFile(file);
+        } catch (error) {
+          throw fileError(error);
+        }
+      },
+      downloadUrl: async (file) => {
+        try {
+          if (file.data) return `data:${file.type};base64,${file.data}`;
+          const store = fileStore();
+          // Prefer the server's copy when there is one, so the browser streams it instead of
+          // holding the whole file in memory
+          if (store.signedUrl && file.id) {
+            try {
+              return await store.signedUrl(file.id, file.name);
+            } catch (error) {
+              // Not uploaded yet (e.g. saved offline); a local copy still works
+              if (fileError(error).kind === 'permission') throw error;
+            }
+          }
+          return URL.createObjectURL(await readFile(file));
+        } catch (error) {
+          throw fileError(error);
+        }
+      },
+      remove: async (file) => {
+        if (!file.id) return;
+        try {
+          await fileStore().remove(file.id);
+        } catch (error) {
+          throw fileError(error);
+        }
+      }
+    },
+    activities: {
+      list: async (userId, { kinds, from, to, limit = ACTIVITY_PAGE_SIZE, cursor } = {}) => {
+        const before = cursor ? parseCursor(cursor) : undefined;
+        // Remote stores filter and limit themselves (one extra row tells whether there's a
+        // next page); the rest is checked again here, which local stores rely on
+        const stored = activities.page
+          ? await activities.page(userId, { kinds, from, to, before, limit: limit + 1 })
+          : await activities.list(userId);
+        const matching = stored
+          .map(reviveActivity)
+          .filter(activity =>
+            (!kinds || kinds.includes(activity.kind)) &&
+            (!from || activity.timestamp >= from) &&
+            (!to || activity.timestamp <= to) &&
+            (!before || isOlderThan(activity, before))
+          )
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0));
+        const items = matching.slice(0, limit);
+        return { items, nextCursor: matching.length > limit ? activityCursor(items[items.length - 1]) : null };
+      },
+      add: (userId, activity) => activities.put(activity, userId),
+      clear: (userId) => activities.replace([], userId)
+    }
+  };
+};
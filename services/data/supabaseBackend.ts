@@ -0,0 +1,235 @@
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "../../lib/supabaseClient";
+import { ActivityLog, Application, ApplicationStatusChange, Job, SavedResume } from "../../types";
+import { RepositoryError, VersionConflictError, assertVersion } from "./errors";
+import { Collection, CollectionName, DataBackend, Entity, FileStore, Versioned } from "./types";
+
+// Tables store the item as JSON in `data`, next to its owner. Rows don't always mirror
+// the item one to one (a resume row holds the analysis, with the label, pin, builder draft
+// and tailored job beside its fields), hence the mappers.
+interface Row {
+  id: string;
+  data: any;
+  // The owner and timestamp, named by the table's spec, and its other columns
+  [column: string]: any;
+}
+
+interface TableSpec {
+  table: string;
+  timestamp: 'created_at' | 'updated_at';
+  // Column holding the owner's user id
+  owner: 'user_id' | 'owner_id' | 'changed_by';
+  // Columns besides id, owner, data and timestamp that row-level security relies on;
+  // written from the item by toColumns and read back by toItem
+  columns?: string[];
+  // One of columns, referring to the record the item belongs to; see listByParent
+  parent?: string;
+  toColumns?: (item: any) => Record<string, unknown>;
+  toItem: (row: Row) => any;
+  toData: (item: any) => unknown;
+}
+
+const TABLES: Partial<Record<CollectionName, TableSpec>> = {
+  resumes: {
+    table: 'resumes',
+    timestamp: 'created_at',
+    owner: 'user_id',
+    toItem: (row): SavedResume => {
+      const { label, pinned, draft, jobId, ...data } = row.data ?? {};
+      return { id: row.id, created_at: row.created_at, data, promptVersion: data.promptVersion, label, pinned, draft, jobId };
+    },
+    toData: ({ data, label, pinned, draft, jobId }: SavedResume) => ({ ...data, label, pinned, draft, jobId })
+  },
+  // The candidate owns the row; see supabase/migrations for who else may read and update it
+  applications: {
+    table: 'applications',
+    timestamp: 'updated_at',
+    owner: 'user_id',
+    columns: ['job_id', 'status'],
+    toColumns: (app: Application) => ({ job_id: app.jobId, status: app.status }),
+    // The status column is the one the policies guard, so it wins over anything in data
+    toItem: (row): Application => ({ ...row.data, status: row.status, candidateId: row.user_id }),
+    toData: ({ candidateId, status, ...app }: Application) => app
+  },
+  statusHistory: {
+    table: 'application_status_history',
+    timestamp: 'created_at',
+    owner: 'changed_by',
+    columns: ['application_id', 'status'],
+    parent: 'application_id',
+    toColumns: (change: ApplicationStatusChange) => ({ application_id: change.applicationId, status: change.status }),
+    toItem: (row): ApplicationStatusChange => ({ ...row.data, changedBy: row.changed_by }),
+    toData: ({ changedBy, ...change }: ApplicationStatusChange) => change
+  },
+  // See supabase/migrations for the schema and policies
+  jobs: {
+    table: 'jobs',
+    timestamp: 'updated_at',
+    owner: 'owner_id',
+    columns: ['status', 'org_id'],
+    toColumns: (job: Job) => ({ status: job.status ?? 'published', org_id: job.orgId ?? null }),
+    toItem: (row): Job => ({ ...row.data, status: row.status, ownerId: row.owner_id, orgId: row.org_id ?? undefined }),
+    toData: ({ status, ownerId, orgId, ...job }: Job) => job
+  },
+  // created_at is when it happened, so pages line up with the timestamps shown
+  activities: {
+    table: 'activities',
+    timestamp: 'created_at',
+    owner: 'user_id',
+    columns: ['kind'],
+    toColumns: (activity: ActivityLog) => ({ kind: activity.kind, created_at: new Date(activity.timestamp).toISOString() }),
+    toItem: (row): ActivityLog => ({ ...row.data, kind: row.kind, timestamp: row.created_at }),
+    toData: ({ kind, timestamp, ...activity }: ActivityLog) => activity
+  },
+};
+
+// Private bucket; its policies (see supabase/migrations) let owners manage their files and
+// employers read the resumes attached to applications for their jobs
+const FILES_BUCKET = 'resumes';
+// Long enough to start a download, short enough that a leaked link soon stops working
+const SIGNED_URL_SECONDS = 60;
+
+const files: FileStore = {
+  put: async (key, blob) => {
+    const { error } = await supabase.storage.from(FILES_BUCKET).upload(key, blob, { contentType: blob.type, upsert: false });
+    // Already uploaded; the key is the content hash, so it's the same file
+    if (error && error.statusCode !== '409') throw error;
+  },
+  get: async (key) => {
+    const { data, error } = await supabase.storage.from(FILES_BUCKET).download(key);
+    if (error) {
+      if (error.status === 404 || error.statusCode === '404') return null;
+      throw error;
+    }
+    return data;
+  },
+  remove: async (key) => {
+    const { error } = await supabase.storage.from(FILES_BUCKET).remove([key]);
+    if (error) throw error;
+  },
+  signedUrl: async (key, fileName) => {
+    const { data, error } = await supabase.storage.from(FILES_BUCKET).createSignedUrl(key, SIGNED_URL_SECONDS, { download: fileName });
+    if (error) throw error;
+    return data.signedUrl;
+  }
+};
+
+// Each subscription gets its own channel, so unsubscribing one doesn't end the others
+let channelCount = 0;
+
+// Row-level security decides what each user can read; see SUPABASE_SETUP.md
+export const createSupabaseBackend = (): DataBackend => {
+  const collection = <T extends Entity>(name: CollectionName): Collection<T> => {
+    const spec = TABLES[name];
+    if (!spec) throw new Error(`Supabase has no table for ${name}.`);
+    const { table, timestamp, owner, columns = [], parent, toColumns = () => ({}), toItem, toData } = spec;
+    const select = ['id', owner, 'data', timestamp, ...columns].join(', ');
+
+    // created_at belongs to the item (e.g. when the resume was analyzed); updated_at is "now"
+    const stamp = (item: T) =>
+      timestamp === 'created_at' ? { created_at: (item as Partial<SavedResume>).created_at || new Date().toISOString() } : { updated_at: new Date().toISOString() };
+    const toRow = (item: T) => ({ data: toData(item), ...stamp(item), ...toColumns(item) });
+
+    const fetchRow = async (id: string) => {
+      const { data, error } = await supabase.from(table).select(select).eq('id', id).maybeSingle().overrideTypes<Row, { merge: false }>();
+      if (error) throw error;
+      return data;
+    };
+
+    // Row-level security hides the rows a user may not change instead of failing, so an
+    // update that matched nothing has to be caught here
+    const updateRow = async (item: T) => {
+      const { data, error } = await supabase.from(table).update(toRow(item)).eq('id', item.id).select('id');
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new RepositoryError('not-found', `This item no longer exists or you can't change it.`, { collection: name, backend: 'Supabase' });
+      }
+    };
+
+    return {
+      list: async (ownerId) => {
+        let query = supabase.from(table).select(select);
+        if (ownerId) query = query.eq(owner, ownerId);
+        const { data, error } = await query.order(timestamp, { ascending: false }).overrideTypes<Row[], { merge: false }>();
+        if (error) throw error;
+        return (data || []).filter(row => row.data).map(row => toItem(row) as T);
+      },
+      page: async (ownerId, { kinds, from, to, before, limit }) => {
+        let query = supabase.from(table).select(select).eq(owner, ownerId);
+        if (kinds && columns.includes('kind')) query = query.in('kind', kinds);
+        if (from) query = query.gte(timestamp, from.toISOString());
+        if (to) query = query.lte(timestamp, to.toISOString());
+        if (before) {
+          const at = before.timestamp.toISOString();
+          query = query.or(`${timestamp}.lt."${at}",and(${timestamp}.eq."${at}",id.lt."${before.id}")`);
+        }
+        const { data, error } = await query
+          .order(timestamp, { ascending: false })
+          .order('id', { ascending: false })
+          .limit(limit)
+          .overrideTypes<Row[], { merge: false }>();
+        if (error) throw error;
+        return (data || []).filter(row => row.data).map(row => toItem(row) as T);
+      },
+      listByParent: parent ? async (parentId) => {
+        const { data, error } = await supabase.from(table).select(select).eq(parent, parentId).overrideTypes<Row[], { merge: false }>();
+        if (error) throw error;
+        return (data || []).filter(row => row.data).map(row => toItem(row) as T);
+      } : undefined,
+      // Insert, or update an existing row without touching its owner: an upsert would
+      // hand someone else's row to whoever saved it last
+      put: async (item, ownerId) => {
+        const { error } = await supabase.from(table).insert({ id: item.id, [owner]: ownerId, ...toRow(item) });
+        if (!error) return;
+        if (error.code !== '23505') throw error;
+        await updateRow(item);
+      },
+      update: async (item, { expectedVersion } = {}) => {
+        if (expectedVersion === undefined) return updateRow(item);
+
+        // Deleted elsewhere: a conflict too, which the user resolves by keeping or dropping the edit
+        const current = await fetchRow(item.id);
+        if (!current) throw new VersionConflictError(null);
+        assertVersion(toItem(current) as Versioned, expectedVersion);
+        // Only write if the row is still the one that was checked
+        const { data, error } = await supabase.from(table)
+          .update(toRow(item))
+          .eq('id', item.id)
+          .eq(timestamp, current[timestamp])
+          .select('id');
+        if (error) throw error;
+        if (!data || data.length === 0) {
+          const latest = await fetchRow(item.id);
+          throw new VersionConflictError(latest ? toItem(latest) : null);
+        }
+      },
+      remove: async (id) => {
+        const { error } = await supabase.from(table).delete().eq('id', id);
+        if (error) throw error;
+      },
+      replace: async (items, ownerId) => {
+        const { error } = await supabase.from(table).delete().eq(owner, ownerId);
+        if (error) throw error;
+        if (items.length === 0) return;
+        const { error: insertError } = await supabase.from(table).insert(items.map(item => ({ id: item.id, [owner]: ownerId, ...toRow(item) })));
+        if (insertError) throw insertError;
+      },
+      // Needs the table in the supabase_realtime publication; RLS decides which rows arrive
+      subscribe: (listener) => {
+        const channel = supabase
+          .channel(`carrerx-${table}-${++channelCount}`)
+          .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<Row>) => {
+            if (payload.eventType === 'DELETE') {
+              if (payload.old.id) listener({ type: 'remove', id: payload.old.id });
+            } else if (payload.new.data) {
+              listener({ type: 'upsert', item: toItem(payload.new) as T, ownerId: payload.new[owner] });
+            }
+          })
+          .subscribe();
+        return () => { void supabase.removeChannel(channel); };
+      }
+    };
+  };
+
+  return { name: 'Supabase', supports: name => !!TABLES[name], collection, files };
+};
@@ -0,0 +1,249 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { createMemoryBackend } from './memoryBackend';
+import { createSyncedBackend } from './sync';
+import { onRepositoryError, RepositoryError } from './errors';
+import { Collection, CollectionName, DataBackend, Entity, Versioned } from './types';
+
+type Note = Entity & Versioned & { text: string };
+
+const memoryStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    key: index => Array.from(values.keys())[index] ?? null,
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, String(value)); },
+    removeItem: key => { values.delete(key); },
+    clear: () => values.clear()
+  };
+};
+
+// A memory backend standing in for Supabase, which can be taken offline or made to
+// reject writes
+const createRemote = () => {
+  const store = createMemoryBackend();
+  const remote = {
+    store,
+    offline: false,
+    // Thrown by the next write instead of applying it
+    failNextWrite: null as unknown,
+    backend: null as unknown as DataBackend
+  };
+  const write = <A extends unknown[]>(fn: (...args: A) => Promise<void>) => async (...args: A) => {
+    // What fetch throws without a connection
+    if (remote.offline) throw new TypeError('Failed to fetch');
+    if (remote.failNextWrite) {
+      const error = remote.failNextWrite;
+      remote.failNextWrite = null;
+      throw error;
+    }
+    return fn(...args);
+  };
+  remote.backend = {
+    name: 'Remote',
+    supports: () => true,
+    collection: <T extends Entity>(name: CollectionName): Collection<T> => {
+      const collection = store.collection<T>(name);
+      return {
+        ...collection,
+        list: async (ownerId) => {
+          if (remote.offline) throw new TypeError('Failed to fetch');
+          return collection.list(ownerId);
+        },
+        put: write(collection.put),
+        update: write(collection.update),
+        remove: write(collection.remove),
+        replace: write(collection.replace)
+      };
+    },
+    files: {
+      ...store.files!,
+      put: write(store.files!.put),
+      remove: write(store.files!.remove)
+    }
+  };
+  return remote;
+};
+
+const setup = (local: DataBackend = createMemoryBackend()) => {
+  const remote = createRemote();
+  const synced = createSyncedBackend(local, remote.backend, memoryStorage());
+  return { local, remote, synced, sync: synced.sync! };
+};
+
+test('writes made offline stay queued and are retried once the server is back', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const { local, remote, synced, sync } = setup();
+    remote.offline = true;
+
+    await synced.collection<Note>('resumes').put({ id: 'r1', text: 'offline' }, 'alice');
+    await sync.flush();
+
+    assert.equal(sync.getStatus().state, 'offline');
+    assert.equal(sync.getStatus().pending, 1);
+    assert.deepEqual(await local.collection<Note>('resumes').list('alice'), [{ id: 'r1', text: 'offline' }]);
+    assert.deepEqual(await remote.store.collection<Note>('resumes').list('alice'), []);
+
+    // The first retry is scheduled with backoff
+    remote.offline = false;
+    mock.timers.tick(4000);
+    await sync.flush();
+
+    assert.equal(sync.getStatus().state, 'synced');
+    assert.equal(sync.getStatus().pending, 0);
+    assert.deepEqual(await remote.store.collection<Note>('resumes').list('alice'), [{ id: 'r1', text: 'offline' }]);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('queued writes reach the server in order', async () => {
+  const { remote, synced, sync } = setup();
+  const notes = synced.collection<Note>('resumes');
+
+  await notes.put({ id: 'a', text: 'one' }, 'alice');
+  await notes.put({ id: 'b', text: 'two' }, 'alice');
+  await notes.remove('a', 'alice');
+  await sync.flush();
+
+  assert.deepEqual(await remote.store.collection<Note>('resumes').list('alice'), [{ id: 'b', text: 'two' }]);
+  assert.equal(sync.getStatus().pending, 0);
+});
+
+test('an edit based on an outdated version becomes a conflict instead of overwriting', async () => {
+  const { local, remote, synced, sync } = setup();
+  const base = { id: 'j1', text: 'original', version: 1 };
+  await local.collection<Note>('jobs').put(base, 'employer');
+  await remote.store.collection<Note>('jobs').put(base, 'employer');
+  // Someone else's edit reaches the server first
+  const theirs = { id: 'j1', text: 'theirs', version: 2 };
+  await remote.store.collection<Note>('jobs').update(theirs);
+
+  const mine = { id: 'j1', text: 'mine', version: 2 };
+  await synced.collection<Note>('jobs').update(mine, { expectedVersion: 1 });
+  await sync.flush();
+
+  const { conflicts, pending } = sync.getStatus();
+  assert.equal(pending, 0);
+  assert.equal(conflicts.length, 1);
+  assert.deepEqual(conflicts[0].mine, mine);
+  assert.deepEqual(conflicts[0].theirs, theirs);
+  assert.deepEqual(await remote.store.collection<Note>('jobs').list(), [theirs]);
+
+  // Keeping mine re-applies it on top of their version
+  const winner = await sync.resolveConflict<Note>(conflicts[0].id, 'mine');
+  await sync.flush();
+
+  assert.equal(winner?.version, 3);
+  assert.deepEqual(sync.getStatus().conflicts, []);
+  const [stored] = await remote.store.collection<Note>('jobs').list();
+  assert.equal(stored.text, 'mine');
+  assert.equal(stored.version, 3);
+});
+
+test('keeping their side of a conflict restores it locally', async () => {
+  const { local, remote, synced, sync } = setup();
+  const base = { id: 'j1', text: 'original', version: 1 };
+  await local.collection<Note>('jobs').put(base, 'employer');
+  await remote.store.collection<Note>('jobs').put(base, 'employer');
+  await remote.store.collection<Note>('jobs').update({ id: 'j1', text: 'theirs', version: 2 });
+
+  await synced.collection<Note>('jobs').update({ id: 'j1', text: 'mine', version: 2 }, { expectedVersion: 1 });
+  await sync.flush();
+  await sync.resolveConflict(sync.getStatus().conflicts[0].id, 'theirs');
+
+  assert.deepEqual(await local.collection<Note>('jobs').list(), [{ id: 'j1', text: 'theirs', version: 2 }]);
+  assert.equal(sync.getStatus().pending, 0);
+});
+
+test('writes the server refuses are dropped and reported', async () => {
+  const { remote, synced, sync } = setup();
+  const reported: RepositoryError[] = [];
+  const stopListening = onRepositoryError(error => reported.push(error));
+  const warn = mock.method(console, 'warn', () => undefined);
+  try {
+    remote.failNextWrite = { code: '42501', message: 'new row violates row-level security policy' };
+    await synced.collection<Note>('applications').put({ id: 'a1', text: 'not mine' }, 'alice');
+    await sync.flush();
+    await synced.collection<Note>('applications').put({ id: 'a2', text: 'fine' }, 'alice');
+    await sync.flush();
+  } finally {
+    stopListening();
+    warn.mock.restore();
+  }
+
+  assert.deepEqual(reported.map(error => [error.kind, error.collection]), [['permission', 'applications']]);
+  assert.equal(sync.getStatus().pending, 0);
+  assert.equal(sync.getStatus().lastError, reported[0].message);
+  assert.deepEqual((await remote.store.collection<Note>('applications').list()).map(item => item.id), ['a2']);
+});
+
+test('items deleted on the server are removed locally unless they have unsynced writes', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const { local, remote, synced } = setup();
+    await local.collection<Note>('resumes').put({ id: 'gone', text: '' }, 'alice');
+    await remote.store.collection<Note>('resumes').put({ id: 'kept', text: '' }, 'alice');
+    remote.offline = true;
+    await synced.collection<Note>('resumes').put({ id: 'queued', text: '' }, 'alice');
+    remote.offline = false;
+
+    const listed = await synced.collection<Note>('resumes').list('alice');
+
+    assert.deepEqual(listed.map(item => item.id).sort(), ['kept', 'queued']);
+    assert.deepEqual((await local.collection<Note>('resumes').list('alice')).map(item => item.id), ['queued']);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('conflicts on collections stored per owner are resolved under that owner', async () => {
+  // localStorage keeps each owner's resumes under their own key
+  const { local, remote, synced, sync } = setup(createLocalStorageBackend(memoryStorage()));
+  const base = { id: 'r1', text: 'original', version: 1 };
+  await local.collection<Note>('resumes').put(base, 'alice');
+  await remote.store.collection<Note>('resumes').put(base, 'alice');
+  await remote.store.collection<Note>('resumes').update({ id: 'r1', text: 'theirs', version: 2 });
+
+  await synced.collection<Note>('resumes').update({ id: 'r1', text: 'mine', version: 2 }, { ownerId: 'alice', expectedVersion: 1 });
+  await sync.flush();
+  const [conflict] = sync.getStatus().conflicts;
+  assert.equal(conflict.ownerId, 'alice');
+
+  await sync.resolveConflict(conflict.id, 'mine');
+  await sync.flush();
+
+  assert.deepEqual((await local.collection<Note>('resumes').list('alice')).map(({ text, version }) => [text, version]), [['mine', 3]]);
+  assert.equal((await remote.store.collection<Note>('resumes').list('alice'))[0].text, 'mine');
+  assert.deepEqual(sync.getStatus().conflicts, []);
+});
+
+test('files removed offline are removed from the server once it\'s back', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const { local, remote, synced, sync } = setup();
+    const file = new Blob(['resume']);
+    await synced.files!.put('alice/abc', file);
+    await sync.flush();
+    assert.ok(await remote.store.files!.get('alice/abc'));
+
+    remote.offline = true;
+    await synced.files!.remove('alice/abc');
+    await sync.flush();
+
+    assert.equal(await local.files!.get('alice/abc'), null);
+    assert.equal(sync.getStatus().pending, 1);
+
+    remote.offline = false;
+    mock.timers.tick(4000);
+    await sync.flush();
+
+    assert.equal(await remote.store.files!.get('alice/abc'), null);
+    assert.equal(sync.getStatus().pending, 0);
+  } finally {
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,382 @@
+import { reportRepositoryError, toRepositoryError } from "./errors";
+import { KEYS } from "./localStorageSchema";
+import { Collection, CollectionChange, CollectionName, DataBackend, Entity, FileStore, SyncConflict, SyncController, SyncStatus, UpdateOptions, Versioned } from "./types";
+
+// Offline-first sync. Every write lands in the local backend immediately and is queued
+// in a persistent outbox; the outbox is replayed against the remote backend in order,
+// now and whenever the browser comes back online. Updates carry the version they were
+// based on, so an edit made elsewhere in the meantime becomes a conflict for the user
+// to resolve instead of being overwritten.
+
+type Mutation =
+  | { op: 'put'; item: Entity; ownerId: string }
+  | { op: 'update'; item: Entity; options: UpdateOptions }
+  | { op: 'remove'; id: string; ownerId?: string }
+  | { op: 'replace'; items: Entity[]; ownerId: string }
+  // Copies a file from the local file store, or deletes the remote copy; queued under
+  // 'resumes', the only files there are
+  | { op: 'upload'; key: string }
+  | { op: 'removeFile'; key: string };
+
+interface OutboxEntry {
+  id: string;
+  collection: CollectionName;
+  mutation: Mutation;
+  queuedAt: number;
+  attempts: number;
+}
+
+const OUTBOX_KEY = 'carrerx_sync_outbox';
+const CONFLICTS_KEY = 'carrerx_sync_conflicts';
+const LOCK_NAME = 'carrerx_sync';
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Merges remote items into a local list. The higher version wins; stale local copies
+// are refreshed so later edits are based on what the remote store holds. Local items the
+// remote store no longer has were deleted elsewhere and go too, unless they're kept: a
+// write still waiting in the outbox, or one side of a conflict. Without keep, the lists
+// may cover different items (see list below) and nothing is removed.
+const mergeLists = async <T extends Entity>(local: Collection<T>, localItems: T[], remoteItems: T[], keep: Set<string> | null, ownerId?: string) => {
+  const remoteIds = new Set(remoteItems.map(item => item.id));
+  const merged: T[] = [];
+  for (const localItem of localItems) {
+    if (!keep || remoteIds.has(localItem.id) || keep.has(localItem.id)) merged.push(localItem);
+    else await local.remove(localItem.id, ownerId);
+  }
+  const byId = new Map(merged.map(item => [item.id, item]));
+  for (const remoteItem of remoteItems) {
+    const localItem = byId.get(remoteItem.id);
+    if (!localItem) {
+      merged.push(remoteItem);
+    } else if (((remoteItem as Versioned).version ?? 0) > ((localItem as Versioned).version ?? 0)) {
+      merged[merged.indexOf(localItem)] = remoteItem;
+      await local.update(remoteItem, { ownerId });
+    }
+  }
+  return merged;
+};
+
+export const createSyncedBackend = (local: DataBackend, remote: DataBackend, storage: Storage = localStorage): DataBackend => {
+  const readJson = <T>(key: string, fallback: T): T => {
+    try {
+      return JSON.parse(storage.getItem(key) || 'null') ?? fallback;
+    } catch {
+      return fallback;
+    }
+  };
+  // Always read from storage: other tabs share the same outbox
+  const readOutbox = () => readJson<OutboxEntry[]>(OUTBOX_KEY, []);
+  const writeOutbox = (entries: OutboxEntry[]) => storage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  const readConflicts = () => readJson<SyncConflict[]>(CONFLICTS_KEY, []);
+  const writeConflicts = (conflicts: SyncConflict[]) => storage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+
+  let state: SyncStatus['state'] = 'synced';
+  let lastSyncedAt: number | null = null;
+  let lastError: string | undefined;
+  let flushing: Promise<void> | null = null;
+  // Set when a write is queued while a flush is in flight, see flush()
+  let queuedDuringFlush = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  const getStatus = (): SyncStatus => ({ state, pending: readOutbox().length, conflicts: readConflicts(), lastSyncedAt, lastError });
+  const emit = () => {
+    const status = getStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  // Ids of items with writes that haven't reached the remote store yet
+  const unsynced = (collection: CollectionName) => {
+    const ids = new Set(readConflicts().filter(c => c.collection === collection).map(c => c.mine.id));
+    for (const { collection: entryCollection, mutation } of readOutbox()) {
+      if (entryCollection !== collection) continue;
+      if (mutation.op === 'put' || mutation.op === 'update') ids.add(mutation.item.id);
+      if (mutation.op === 'replace') mutation.items.forEach(item => ids.add(item.id));
+    }
+    return ids;
+  };
+
+  const addConflict = (collection: CollectionName, mine: Entity, theirs: Entity | null, ownerId?: string) => {
+    // A newer conflict on the same item replaces the older one
+    const others = readConflicts().filter(c => !(c.collection === collection && c.mine.id === mine.id));
+    writeConflicts([...others, { id: newId(), collection, mine, theirs, ownerId, detectedAt: Date.now() }]);
+  };
+
+  const enqueue = (collection: CollectionName, mutation: Mutation) => {
+    const entries = readOutbox();
+    // Repeated edits to an item that hasn't synced yet collapse into the pending write,
+    // which keeps the version the first edit was based on. The head of the queue may
+    // already be on its way to the server, so it's left alone.
+    const pending = mutation.op === 'put' || mutation.op === 'update'
+      ? entries.slice(1).find(e => e.collection === collection && (e.mutation.op === 'put' || e.mutation.op === 'update') && e.mutation.item.id === mutation.item.id)
+      : undefined;
+    if (pending && (pending.mutation.op === 'put' || pending.mutation.op === 'update') && (mutation.op === 'put' || mutation.op === 'update')) {
+      pending.mutation = { ...pending.mutation, item: mutation.item };
+    } else {
+      entries.push({ id: newId(), collection, mutation, queuedAt: Date.now(), attempts: 0 });
+    }
+    writeOutbox(entries);
+    emit();
+    if (flushing) queuedDuringFlush = true;
+    else void flush();
+  };
+
+  const upload = async (key: string) => {
+    // Gone locally (e.g. site data was cleared): there's nothing left to upload
+    const blob = await local.files!.get(key);
+    if (blob) await remote.files!.put(key, blob);
+  };
+
+  const apply = (collection: CollectionName, mutation: Mutation) => {
+    switch (mutation.op) {
+      case 'put': return remote.collection(collection).put(mutation.item, mutation.ownerId);
+      case 'update': return remote.collection(collection).update(mutation.item, mutation.options);
+      case 'remove': return remote.collection(collection).remove(mutation.id, mutation.ownerId);
+      case 'replace': return remote.collection(collection).replace(mutation.items, mutation.ownerId);
+      case 'upload': return upload(mutation.key);
+      case 'removeFile': return remote.files!.remove(mutation.key);
+    }
+  };
+
+  const scheduleRetry = (attempts: number) => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => void flush(), Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** attempts));
+  };
+
+  const drain = async () => {
+    while (true) {
+      const [entry] = readOutbox();
+      if (!entry) break;
+
+      try {
+        await apply(entry.collection, entry.mutation);
+      } catch (error) {
+        const repositoryError = toRepositoryError(error, entry.collection, remote.name);
+        if (repositoryError.kind === 'unavailable') {
+          // Still offline or the server is down: keep the entry and try again later
+          writeOutbox(readOutbox().map(e => e.id === entry.id ? { ...e, attempts: e.attempts + 1 } : e));
+          state = 'offline';
+          lastError = repositoryError.message;
+          scheduleRetry(entry.attempts + 1);
+          return;
+        }
+        if (repositoryError.kind === 'conflict' && entry.mutation.op === 'update') {
+          addConflict(entry.collection, entry.mutation.item, (repositoryError.current as Entity | undefined) ?? null, entry.mutation.options.ownerId);
+        } else {
+          // Retrying won't help (e.g. permissions); drop the write and tell the user
+          reportRepositoryError(repositoryError);
+          lastError = repositoryError.message;
+        }
+      }
+      writeOutbox(readOutbox().filter(e => e.id !== entry.id));
+      emit();
+    }
+    state = 'synced';
+    lastSyncedAt = Date.now();
+  };
+
+  const flush = (): Promise<void> => {
+    if (flushing) return flushing;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      state = 'offline';
+      emit();
+      return Promise.resolve();
+    }
+
+    state = 'syncing';
+    emit();
+    // Only one tab replays the shared outbox at a time
+    const locks = typeof navigator !== 'undefined' ? (navigator as any).locks : undefined;
+    const run = locks ? locks.request(LOCK_NAME, drain) as Promise<void> : drain();
+    flushing = run
+      .catch(error => {
+        state = 'error';
+        lastError = error?.message || String(error);
+      })
+      .finally(() => {
+        flushing = null;
+        emit();
+        // The drain may have found the outbox empty just before a write was queued. If it
+        // stopped because the remote store is unreachable, the retry timer picks it up.
+        const again = queuedDuringFlush && state !== 'offline' && readOutbox().length > 0;
+        queuedDuringFlush = false;
+        if (again) void flush();
+      });
+    return flushing;
+  };
+
+  const resolveConflict = async <T extends Entity>(conflictId: string, keep: 'mine' | 'theirs'): Promise<T | null> => {
+    const conflict = readConflicts().find(c => c.id === conflictId);
+    if (!conflict) return null;
+    const localCollection = local.collection<Entity>(conflict.collection);
+    const theirs = conflict.theirs as (Entity & Versioned) | null;
+    const { ownerId } = conflict;
+
+    let winner: Entity | null;
+    if (keep === 'theirs') {
+      winner = theirs;
+      if (theirs) await localCollection.update(theirs, { ownerId });
+      else await localCollection.remove(conflict.mine.id, ownerId);
+    } else {
+      // Re-apply my edit on top of what's stored now
+      const baseVersion = theirs?.version ?? 0;
+      winner = { ...conflict.mine, version: baseVersion + 1, updatedAt: new Date().toISOString() } as Entity;
+      await localCollection.update(winner, { ownerId });
+      if (remote.supports(conflict.collection)) {
+        enqueue(conflict.collection, { op: 'update', item: winner, options: { ownerId, expectedVersion: baseVersion } });
+      }
+    }
+    writeConflicts(readConflicts().filter(c => c.id !== conflictId));
+    emit();
+    return winner as T | null;
+  };
+
+  const collection = <T extends Entity>(name: CollectionName): Collection<T> => {
+    const localCollection = local.collection<T>(name);
+    if (!remote.supports(name)) return localCollection;
+    const remoteCollection = remote.collection<T>(name);
+    const queue = (mutation: Mutation) => enqueue(name, mutation);
+
+    // Keeps the local copy current with changes pushed by the remote store. A local copy
+    // with a higher version holds an edit that hasn't synced yet and is left alone.
+    const applyRemoteChange = async (change: CollectionChange<T>) => {
+      if (change.type === 'remove') {
+        await localCollection.remove(change.id, change.ownerId);
+        return;
+      }
+      const existing = (await localCollection.list(change.ownerId)).find(item => item.id === change.item.id);
+      if (((existing as Versioned | undefined)?.version ?? 0) > ((change.item as Versioned).version ?? 0)) return;
+      await localCollection.put(change.item, change.ownerId ?? '');
+    };
+
+    return {
+      list: async (ownerId) => {
+        const items = await localCollection.list(ownerId);
+        try {
+          // A shared collection read by owner comes back locally with every owner's items, which
+          // the remote list doesn't speak for. The unsynced ids are read before the remote list:
+          // a write that syncs in between is in that list instead.
+          const keep = ownerId && KEYS[name].shared ? null : unsynced(name);
+          return await mergeLists(localCollection, items, await remoteCollection.list(ownerId), keep, ownerId);
+        } catch (error) {
+          const repositoryError = toRepositoryError(error, name, remote.name);
+          // Offline is expected here; the local copy is the point of offline-first
+          if (repositoryError.kind !== 'unavailable') reportRepositoryError(repositoryError);
+          return items;
+        }
+      },
+      put: async (item, ownerId) => {
+        await localCollection.put(item, ownerId);
+        queue({ op: 'put', item, ownerId });
+      },
+      update: async (item, options = {}) => {
+        try {
+          await localCollection.update(item, options);
+        } catch (error) {
+          // Another tab changed it first; the user picks which edit to keep
+          const repositoryError = toRepositoryError(error, name, local.name);
+          if (repositoryError.kind !== 'conflict') throw error;
+          addConflict(name, item, (repositoryError.current as Entity | undefined) ?? null, options.ownerId);
+          emit();
+          return;
+        }
+        queue({ op: 'update', item, options });
+      },
+      remove: async (id, ownerId) => {
+        await localCollection.remove(id, ownerId);
+        queue({ op: 'remove', id, ownerId });
+      },
+      // The remote page, plus what's still in the outbox; whoever calls it filters the
+      // combined list again. Offline, the whole local copy stands in for it.
+      page: remoteCollection.page && (async (ownerId, query) => {
+        const pending = readOutbox().flatMap(({ collection: entryCollection, mutation }) =>
+          entryCollection === name && mutation.op === 'put' && mutation.ownerId === ownerId ? [mutation.item as T] : []);
+        try {
+          const remoteItems = await remoteCollection.page!(ownerId, query);
+          const remoteIds = new Set(remoteItems.map(item => item.id));
+          return [...pending.filter(item => !remoteIds.has(item.id)), ...remoteItems];
+        } catch (error) {
+          const repositoryError = toRepositoryError(error, name, remote.name);
+          if (repositoryError.kind !== 'unavailable') reportRepositoryError(repositoryError);
+          return localCollection.list(ownerId);
+        }
+      }),
+      // Like page: what's still in the outbox is added and filtered again by the caller
+      listByParent: remoteCollection.listByParent && (async (parentId) => {
+        const pending = readOutbox().flatMap(({ collection: entryCollection, mutation }) =>
+          entryCollection === name && mutation.op === 'put' ? [mutation.item as T] : []);
+        try {
+          const remoteItems = await remoteCollection.listByParent!(parentId);
+          const remoteIds = new Set(remoteItems.map(item => item.id));
+          return [...pending.filter(item => !remoteIds.has(item.id)), ...remoteItems];
+        } catch (error) {
+          const repositoryError = toRepositoryError(error, name, remote.name);
+          if (repositoryError.kind !== 'unavailable') reportRepositoryError(repositoryError);
+          return localCollection.list();
+        }
+      }),
+      replace: async (items, ownerId) => {
+        await localCollection.replace(items, ownerId);
+        queue({ op: 'replace', items, ownerId });
+      },
+      subscribe: remoteCollection.subscribe && (listener =>
+        remoteCollection.subscribe!(change => {
+          applyRemoteChange(change)
+            .catch(error => reportRepositoryError(toRepositoryError(error, name, local.name)))
+            .finally(() => listener(change));
+        })
+      )
+    };
+  };
+
+  // Files are written and removed locally, then uploaded or removed remotely through the
+  // outbox like any other write. Reads fall back to the remote copy (e.g. an employer
+  // opening a candidate's resume).
+  const files: FileStore | undefined = local.files && remote.files ? {
+    put: async (key, blob) => {
+      await local.files!.put(key, blob);
+      enqueue('resumes', { op: 'upload', key });
+    },
+    get: async (key) => (await local.files!.get(key)) ?? remote.files!.get(key),
+    remove: async (key) => {
+      await local.files!.remove(key);
+      enqueue('resumes', { op: 'removeFile', key });
+    },
+    signedUrl: remote.files.signedUrl
+  } : local.files ?? remote.files;
+
+  const sync: SyncController = {
+    getStatus,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    flush,
+    resolveConflict
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => void flush());
+    window.addEventListener('offline', () => {
+      state = 'offline';
+      emit();
+    });
+    // Another tab queued or synced something
+    window.addEventListener('storage', event => {
+      if (event.key === OUTBOX_KEY || event.key === CONFLICTS_KEY) emit();
+    });
+  }
+  // Writes left over from the last session
+  if (readOutbox().length > 0) void flush();
+
+  return {
+    name: `${local.name} + ${remote.name}`,
+    supports: name => local.supports(name),
+    collection,
+    files,
+    sync
+  };
+};
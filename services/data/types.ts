@@ -0,0 +1,115 @@
+export interface Entity {
+  id: string;
+}
+
+// Entities edited from more than one place carry a version so concurrent edits are
+// detected instead of silently overwriting each other
+export interface Versioned {
+  version?: number;
+  updatedAt?: string;
+}
+
+export interface UpdateOptions {
+  ownerId?: string;
+  // Fail with a conflict unless the stored item still has this version (missing counts as 0)
+  expectedVersion?: number;
+}
+
+// A change made by anyone, pushed to subscribers as it happens
+export type CollectionChange<T extends Entity> =
+  | { type: 'upsert'; item: T; ownerId?: string }
+  | { type: 'remove'; id: string; ownerId?: string };
+
+// 'tailoredJobs' are AI-generated postings cached per candidate; 'jobs' are employer-posted.
+// 'statusHistory' holds ApplicationStatusChange records, owned by the employer who wrote them.
+export type CollectionName = 'resumes' | 'jobs' | 'tailoredJobs' | 'applications' | 'statusHistory' | 'activities';
+
+// A page read by the store instead of the browser, newest first. Kinds only apply to
+// collections with a kind column (activities).
+export interface PageQuery {
+  kinds?: string[];
+  // Inclusive bounds on the item's timestamp
+  from?: Date;
+  to?: Date;
+  // Only items older than this one; ties on the timestamp are broken by id
+  before?: { timestamp: Date; id: string };
+  limit: number;
+}
+
+// Storage for one kind of record. Every item has an owner (the user who created it);
+// user-scoped collections are always read by owner, shared ones may be read whole.
+export interface Collection<T extends Entity> {
+  // Newest first. Without ownerId, every item the backend can see.
+  list: (ownerId?: string) => Promise<T[]>;
+  // Creates or replaces an item; the owner is only recorded for new items
+  put: (item: T, ownerId: string) => Promise<void>;
+  // Replaces an existing item without changing who owns it
+  update: (item: T, options?: UpdateOptions) => Promise<void>;
+  remove: (id: string, ownerId?: string) => Promise<void>;
+  // One page of what ownerId owns. Missing on local backends, where filtering list() is
+  // cheap; remote ones have it so long histories aren't downloaded whole.
+  page?: (ownerId: string, query: PageQuery) => Promise<T[]>;
+  // The items that belong to another record, e.g. the status changes of one application.
+  // Missing on local backends like page, and on collections without a parent column.
+  listByParent?: (parentId: string) => Promise<T[]>;
+  // Replaces everything owned by ownerId
+  replace: (items: T[], ownerId: string) => Promise<void>;
+  // Live changes, including this client's own writes. Missing when the backend can't
+  // push changes; returns an unsubscribe function.
+  subscribe?: (listener: (change: CollectionChange<T>) => void) => () => void;
+}
+
+// Binary files such as uploaded resumes, kept out of the collections so a file isn't
+// copied into every record that refers to it. Keys are "<owner id>/<content hash>".
+export interface FileStore {
+  // Storing a key that already exists is a no-op: the same key means the same content
+  put: (key: string, blob: Blob) => Promise<void>;
+  // null when the file isn't stored here
+  get: (key: string) => Promise<Blob | null>;
+  remove: (key: string) => Promise<void>;
+  // A short-lived URL that downloads the file under fileName. Only stores the browser
+  // can't read directly (i.e. remote ones) have it.
+  signedUrl?: (key: string, fileName: string) => Promise<string>;
+}
+
+export interface DataBackend {
+  name: string;
+  // Whether this backend can store the collection at all (e.g. a missing Supabase table)
+  supports: (name: CollectionName) => boolean;
+  collection: <T extends Entity>(name: CollectionName) => Collection<T>;
+  // Missing when the backend can't hold files (localStorage is far too small)
+  files?: FileStore;
+  // Present when writes are queued for a remote store, see sync.ts
+  sync?: SyncController;
+}
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface SyncConflict<T extends Entity = any> {
+  id: string;
+  collection: CollectionName;
+  // The edit that couldn't be applied, and what the store holds now (null if deleted)
+  mine: T;
+  theirs: T | null;
+  // Who owns the item, for collections stored per owner
+  ownerId?: string;
+  detectedAt: number;
+}
+
+export interface SyncStatus {
+  state: SyncState;
+  // Writes waiting to reach the remote store
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: number | null;
+  lastError?: string;
+}
+
+export interface SyncController {
+  getStatus: () => SyncStatus;
+  subscribe: (listener: (status: SyncStatus) => void) => () => void;
+  // Replays queued writes now instead of waiting for the next retry
+  flush: () => Promise<void>;
+  // Applies the chosen side everywhere and returns the entity that won
+  resolveConflict: <T extends Entity>(conflictId: string, keep: 'mine' | 'theirs') => Promise<T | null>;
+}
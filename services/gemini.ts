@@ -1,415 +1,457 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ResumeAnalysis, InsightResult, InterviewReport, JobMatchResult, Job, SkillSuggestion, ChatMessage } from "../types";
+import { ResumeAnalysis, ParsedResume, InsightResult, InterviewReport, JobMatchResult, Job, SkillSuggestion, ChatMessage, ResumeDraft, ResumeTailoring } from "../types";
+import { getAiProvider, AiFeature, AiRequest, AiResponse, AiStreamChunk } from "./ai/provider";
+import { AiError, toAiError } from "./ai/errors";
+import { runAiRequest, runAiStream, AiCallOptions } from "./ai/request";
+import { CACHE_TTLS, hashRequest, getCachedResponse, putCachedResponse } from "./ai/cache";
+import { DEFAULT_MODEL } from "./ai/geminiProvider";
+import { promptRef } from "./ai/prompts";
+import { AiInputs, ResumeSource, buildAiRequest } from "./ai/features";
+import { Redactor, createRedactor, createStreamRestorer, detectNames, getKnownNames, isPrivacyModeEnabled } from "./ai/redaction";
+import { scanForInjection, stripInjection, buildWarning } from "./ai/injection";
+import { canExtractText, extractText } from "../lib/extractText";
+import { RESUME_FORMAT_SUMMARY, resumeFormatForType, resumeFormatOf } from "../lib/resumeFormats";
+import {
+  AiValidationError,
+  Validator,
+  parseStructured,
+  describeIssues,
+  resumeAnalysisSchema,
+  parsedResumeSchema,
+  bulletRewriteSchema,
+  interviewReportSchema,
+  jobMatchSchema,
+  resumeTailoringSchema,
+  jobListSchema,
+  skillSuggestionListSchema
+} from "./ai/validation";
+
+export type { AiCallOptions } from "./ai/request";
+export type { AiStreamChunk } from "./ai/provider";
+export { AiError, AI_ERROR_TITLES, isAiError, toAiError } from "./ai/errors";
+export type { AiErrorKind } from "./ai/errors";
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found. Please add 'API_KEY' to your project's .env file or environment variables.");
+const handleGeminiError = async (error: any): Promise<never> => {
+  const aiError = toAiError(error);
+  // Cancellation is expected (e.g. the user navigated away), not a failure
+  if (aiError.kind !== 'cancelled') {
+    console.error("Gemini Operation Failed:", error);
+  }
+
+  if (aiError.kind === 'auth' && typeof window !== 'undefined' && (window as any).aistudio?.openSelectKey) {
+    try {
+      await (window as any).aistudio.openSelectKey();
+    } catch (e) {
+      console.error("Failed to open key selector", e);
+    }
   }
-  return new GoogleGenAI({ apiKey });
+
+  throw aiError;
 };
 
-const handleGeminiError = async (error: any): Promise<never> => {
-  console.error("Gemini Operation Failed:", error);
-  
-  let errorMessage = error.message || "Unknown error occurred";
-
-  if (errorMessage.toLowerCase().includes("leaked") || errorMessage.includes("403") || errorMessage.includes("permission_denied")) {
-     if (typeof window !== 'undefined' && (window as any).aistudio?.openSelectKey) {
-        try {
-            await (window as any).aistudio.openSelectKey();
-            throw new Error("API Key issue. Opening selection dialog...");
-        } catch (e) {
-            console.error("Failed to open key selector", e);
-        }
-     }
-     throw new Error("Your API key was rejected (403). Please check your quota or refresh the page.");
+// Internal options: a redactor is shared across the attempts of one logical call
+// so placeholders stay consistent when the model is re-asked.
+type CallOptions = AiCallOptions & { redactor?: Redactor | null };
+
+const privacyRedactor = (options: AiCallOptions, names: string[] = []): Redactor | null =>
+  options.privacy || isPrivacyModeEnabled() ? createRedactor([...getKnownNames(), ...names]) : null;
+
+// Masks every string in a feature's input. Inline files (audio, images) can't be redacted
+// and are sent as-is.
+const redactInput = (value: unknown, redactor: Redactor, key?: string): any => {
+  if (typeof value === 'string') return key === 'data' || key === 'mimeType' ? value : redactor.redact(value);
+  if (Array.isArray(value)) return value.map(entry => redactInput(entry, redactor));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, entry]) => [k, redactInput(entry, redactor, k)]));
   }
-  
-  if (errorMessage.includes("404") || errorMessage.includes("not found")) {
-      throw new Error("The AI model is currently unavailable (404). This might be a temporary regional issue.");
+  return value;
+};
+
+// Rebuilds the request from its redacted input, so the API proxy only gets placeholders too
+const redactRequest = (request: AiRequest, redactor: Redactor): AiRequest => {
+  const { input, correction } = request.source!;
+  return buildAiRequest(request.feature, {
+    input: redactInput(input, redactor),
+    correction: correction && { ...correction, response: redactor.redact(correction.response) },
+    redacted: true
+  });
+};
+
+const featureRequest = <F extends AiFeature>(feature: F, input: AiInputs[F]) => buildAiRequest(feature, { input });
+
+// Applies privacy mode around sendRequest: the model (and the cache) only ever see placeholders.
+const generate = async (request: AiRequest, options: CallOptions = {}): Promise<AiResponse> => {
+  const { redactor = privacyRedactor(options), ...callOptions } = options;
+  if (!redactor) return sendRequest(request, callOptions);
+
+  const response = await sendRequest(redactRequest(request, redactor), callOptions);
+  return { ...response, text: redactor.restore(response.text, { json: !!request.responseSchema }) };
+};
+
+// Sends a request through the active provider with retries, timeout and cancellation.
+// Features listed in CACHE_TTLS are served from the response cache when possible.
+// Usage and quotas are handled by the AI API (server/quota.ts).
+const sendRequest = async (request: AiRequest, options: AiCallOptions = {}): Promise<AiResponse> => {
+  const provider = getAiProvider();
+  const send = () => runAiRequest(signal => provider.generate({ ...request, signal }), options);
+
+  const ttl = CACHE_TTLS[request.feature];
+  if (!ttl) return send();
+
+  const model = request.model || DEFAULT_MODEL;
+  const key = await hashRequest(request, model, provider.name);
+  if (!key) return send();
+  if (!options.forceRefresh) {
+    const cached = await getCachedResponse(key);
+    if (cached) return cached;
+  }
+
+  const response = await send();
+  if (response.text) {
+    const now = Date.now();
+    await putCachedResponse({ key, feature: request.feature, model, provider: provider.name, createdAt: now, expiresAt: now + ttl, response });
   }
+  return response;
+};
+
+// Requests JSON from the model and validates it. If the payload cannot be repaired
+// the model is asked once more, with the validation errors, to correct itself.
+// empty is the result of an empty response, for lists where nothing is a valid answer;
+// without it an empty response is an error.
+const generateStructured = async <T>(request: AiRequest, validator: Validator<T>, options: CallOptions & { reask?: boolean; empty?: T } = {}): Promise<T> => {
+  const { reask = true, empty, redactor = privacyRedactor(options), ...rest } = options;
+  const callOptions = { ...rest, redactor };
+  const response = await generate(request, callOptions);
+  if (!response.text) {
+    if (empty !== undefined) return empty;
+    throw new AiError('invalid-response', "No response received from AI model.");
+  }
+
+  try {
+    return parseStructured(request.feature, response.text, validator);
+  } catch (error) {
+    if (!reask || !(error instanceof AiValidationError)) throw error;
 
-  // Handle 400 Invalid Argument gracefully
-  if (errorMessage.includes("400") || errorMessage.includes("INVALID_ARGUMENT")) {
-      throw new Error("The file format or content is not supported by the AI model. Please try a different file.");
+    const retry = await generate(buildAiRequest(request.feature, {
+      ...request.source!,
+      correction: { response: response.text, issues: describeIssues(error.issues) }
+    }), callOptions);
+    return parseStructured(request.feature, retry.text, validator);
   }
+};
 
-  throw new Error(errorMessage);
+// Streaming counterpart of generate(): yields text deltas as the model produces them.
+// Privacy mode applies as usual; streams are never cached.
+// Providers without native streaming deliver the whole answer as a single chunk.
+const streamText = async function* (request: AiRequest, options: AiCallOptions = {}): AsyncGenerator<AiStreamChunk> {
+  const provider = getAiProvider();
+
+  const redactor = privacyRedactor(options);
+  const outgoing = redactor ? redactRequest(request, redactor) : request;
+  const restorer = redactor ? createStreamRestorer(redactor) : null;
+  const open = (signal: AbortSignal): AsyncIterable<AiStreamChunk> => provider.stream
+    ? provider.stream({ ...outgoing, signal })
+    : (async function* () { yield await provider.generate({ ...outgoing, signal }); })();
+
+  for await (const chunk of runAiStream(open, options)) {
+    const text = restorer ? restorer.push(chunk.text) : chunk.text;
+    if (text || chunk.sources?.length) yield { text, sources: chunk.sources };
+  }
+  const rest = restorer?.flush();
+  if (rest) yield { text: rest };
 };
 
-const cleanJson = (text: string | undefined) => {
-  if (!text) return "";
-  return text.replace(/```json|```/g, '').trim();
+// Resume calls can name the file, for formats its type doesn't tell, e.g. files saved
+// without a type
+type ResumeCallOptions = AiCallOptions & { fileName?: string };
+
+// Types outside the supported formats used to be sent as PDFs and came back as a bare 400
+const resumeFormat = (mimeType: string, fileName?: string) => {
+  const format = resumeFormatForType(mimeType.toLowerCase()) ?? (fileName ? resumeFormatOf({ name: fileName, type: mimeType }) : undefined);
+  if (!format) {
+    throw new AiError('unsupported-file', `${mimeType || 'This file type'} isn't a supported resume format. Upload one of: ${RESUME_FORMAT_SUMMARY}.`);
+  }
+  return format;
+};
+
+// What to send for a resume file. Its text is needed to mask personal details (privacy
+// mode) and to scan for injected instructions; images can't be read here, so they skip
+// the scan. Word, RTF, Markdown and text resumes are always sent as their text.
+const readResume = async (data: string, mimeType: string, { fileName, ...options }: ResumeCallOptions) => {
+  const format = resumeFormat(mimeType, fileName);
+  const privacy = options.privacy || isPrivacyModeEnabled();
+
+  let text: string | null = null;
+  if (canExtractText(format.mimeType)) {
+    text = await extractText(data, format.mimeType).catch(cause => {
+      if (format.textOnly) {
+        throw new AiError('unsupported-file', `Couldn't read this ${format.label} file. It may be damaged; try saving it again, or upload a PDF.`, { cause });
+      }
+      if (!privacy) return null;
+      throw new AiError('unsupported-file', "Couldn't read the text of this resume for privacy mode. If it's a scanned PDF, try an exported one.", { cause });
+    });
+  }
+  if (format.textOnly && !text?.trim()) {
+    throw new AiError('unsupported-file', "This resume has no text to analyze. If it's a picture inside a document, upload a PDF or image instead.");
+  }
+  if (privacy && text === null) {
+    throw new AiError('unsupported-file', "Privacy mode needs a PDF, Word or text resume so personal details can be removed before analysis. Upload one of those, or turn off privacy mode in Settings.");
+  }
+  const redactor = privacy && text !== null ? privacyRedactor(options, detectNames(text, getKnownNames())) : null;
+
+  // Privacy mode sends extracted, redacted text instead of the original file
+  const resume: ResumeSource = (privacy || format.textOnly) && text !== null
+    ? { text }
+    : { file: { data, mimeType: format.mimeType } };
+  return { text, redactor, resume };
+};
+
+type ResumeInput = Awaited<ReturnType<typeof readResume>>;
+
+// Typed resume text, e.g. from the builder; sent as-is, with personal details masked in
+// privacy mode
+const readResumeText = (text: string, options: AiCallOptions): ResumeInput => {
+  if (!text.trim()) throw new AiError('unsupported-file', "This resume has no text to analyze.");
+  return { text, redactor: privacyRedactor(options, detectNames(text, getKnownNames())), resume: { text } };
+};
+
+const scoreResume = async ({ text, redactor, resume }: ResumeInput, options: AiCallOptions): Promise<ResumeAnalysis> => {
+  const promptVersion = promptRef('resumeAnalysis');
+
+  const analyze = (source: ResumeSource) =>
+    generateStructured(featureRequest('analyzeResume', { resume: source }), resumeAnalysisSchema, { timeoutMs: 60000, ...options, redactor });
+
+  const analysis = await analyze(resume);
+
+  const scan = text !== null ? scanForInjection(text) : null;
+  if (!scan || scan.reasons.length === 0) {
+    return { ...analysis, promptVersion };
+  }
+
+  // Cross-check: score the resume again without the flagged sentences and keep the lower result
+  const checked = await analyze({ text: stripInjection(text!) });
+  const result = checked.score < analysis.score ? checked : analysis;
+  return { ...result, promptVersion, injectionWarning: buildWarning('resume', scan, analysis.score, checked.score) };
 };
 
 export const analyzeResume = async (
   data: string,
-  mimeType: string
+  mimeType: string,
+  options: ResumeCallOptions = {}
 ): Promise<ResumeAnalysis> => {
-  const ai = getAiClient();
-  
-  // Normalize MIME type
-  let normalizedMimeType = mimeType;
-  if (mimeType.includes('pdf')) normalizedMimeType = 'application/pdf';
-  else if (mimeType.includes('png')) normalizedMimeType = 'image/png';
-  else if (mimeType.includes('jpg') || mimeType.includes('jpeg')) normalizedMimeType = 'image/jpeg';
-  else if (mimeType === '') normalizedMimeType = 'application/pdf'; // Default fallback
-
-  const prompt = `Analyze this resume acting as a helpful and encouraging Applicant Tracking System (ATS) consultant. 
-  Identify the candidate's target role based on experience.
-  
-  SCORING RULES:
-  - Be fair and constructive. A good, standard resume should score between 70-85.
-  - Excellent resumes with quantifiable results should score above 85.
-  - Only give low scores (<60) if the resume is very sparse, has major formatting errors, or lacks relevant skills entirely.
-  - Look for transferrable skills and potential, not just perfect keyword matching.
-  `;
-
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{
-        role: 'user',
-        parts: [
-          { inlineData: { data: data, mimeType: normalizedMimeType } },
-          { text: prompt }
-        ]
-      }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            summary: { type: Type.STRING },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-            improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-            skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["score", "summary", "strengths", "weaknesses", "improvements", "skills"]
-        }
-      }
-    });
+    const { fileName, ...callOptions } = options;
+    return await scoreResume(await readResume(data, mimeType, options), callOptions);
+  } catch (error: any) {
+    return handleGeminiError(error);
+  }
+};
 
-    const text = response.text;
-    if (!text) throw new Error("No response received from AI model.");
-    
-    return JSON.parse(cleanJson(text)) as ResumeAnalysis;
+// Scores a resume written or edited in the app, without a file
+export const analyzeResumeText = async (text: string, options: AiCallOptions = {}): Promise<ResumeAnalysis> => {
+  try {
+    return await scoreResume(readResumeText(text, options), options);
   } catch (error: any) {
     return handleGeminiError(error);
   }
 };
 
-export const generateImprovementExample = async (improvement: string, resumeSummary: string): Promise<string> => {
-  const ai = getAiClient();
-  const prompt = `Context: Resume Summary: "${resumeSummary}". Improvement: "${improvement}".
-  Task: Write a specific, concrete example (1-2 sentences) of how to implement this improvement.`;
-  
+// Companion to analyzeResume: what the resume says rather than how good it is. A separate
+// request, so scores stay comparable across parser changes.
+export const parseResume = async (data: string, mimeType: string, options: ResumeCallOptions = {}): Promise<ParsedResume> => {
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }]
-    });
+    const { fileName, ...callOptions } = options;
+    const { redactor, resume } = await readResume(data, mimeType, options);
+    const parsed = await generateStructured(featureRequest('parseResume', { resume }), parsedResumeSchema, { timeoutMs: 60000, ...callOptions, redactor });
+    return { ...parsed, promptVersion: promptRef('resumeParse') };
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
+
+export const generateImprovementExample = async (improvement: string, resumeSummary: string, options: AiCallOptions = {}): Promise<string> => {
+  try {
+    const response = await generate(featureRequest('generateImprovementExample', { improvement, resumeSummary }), options);
     return response.text || "Could not generate example.";
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const generateInterviewReport = async (transcript: string): Promise<InterviewReport> => {
-  const ai = getAiClient();
-  const prompt = `Analyze this interview transcript.
-  Transcript: ${transcript}
-  Provide JSON assessment: overallScore (0-100), technicalScore, communicationScore, strengths, improvements.`;
-
+// Applies one of the analysis' improvements to a single bullet point. Facts stay as they
+// are; missing numbers come back as [placeholders].
+export const rewriteBullet = async (bullet: string, improvement: string, role: string, options: AiCallOptions = {}): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallScore: { type: Type.NUMBER },
-            technicalScore: { type: Type.NUMBER },
-            communicationScore: { type: Type.NUMBER },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-            improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["overallScore", "technicalScore", "communicationScore", "strengths", "improvements"]
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No report generated");
-    return JSON.parse(cleanJson(text)) as InterviewReport;
+    const { bullet: rewritten } = await generateStructured(featureRequest('rewriteBullet', { bullet, improvement, role }), bulletRewriteSchema, options);
+    return rewritten;
   } catch (error) {
     return handleGeminiError(error);
   }
 };
 
-export const getMarketInsights = async (query: string): Promise<InsightResult> => {
-  const ai = getAiClient();
+export const generateInterviewReport = async (transcript: string, options: AiCallOptions = {}): Promise<InterviewReport> => {
+  try {
+    return await generateStructured(featureRequest('generateInterviewReport', { transcript }), interviewReportSchema, options);
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
 
+export const getMarketInsights = async (query: string, options: AiCallOptions = {}): Promise<InsightResult> => {
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [{ role: 'user', parts: [{ text: `Provide market insights for: ${query}. Include salary ranges and trends.` }] }],
-        config: {
-            tools: [{googleSearch: {}}]
-        }
-    });
+    const response = await generate(featureRequest('getMarketInsights', { query }), { timeoutMs: 45000, ...options });
     const text = response.text || "No insights found.";
     
-    // Extract sources if available from grounding metadata
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-        ?.filter(chunk => chunk.web?.uri && chunk.web?.title)
-        .map(chunk => ({
-            uri: chunk.web!.uri!,
-            title: chunk.web!.title!,
-            url: chunk.web!.uri!
-        })) || [];
-    
-    return { text, sources };
+    return { text, sources: response.sources };
   } catch (error) {
-    return { text: "I couldn't access market data at the moment. " + (error as any).message, sources: [] };
+    const aiError = toAiError(error);
+    if (aiError.kind === 'cancelled') throw aiError;
+    return { text: "I couldn't access market data at the moment. " + aiError.message, sources: [] };
   }
 };
 
-export const generateTailoredJobs = async (resumeSummary: string, skills: string[]): Promise<Job[]> => {
-  const ai = getAiClient();
-  const count = Math.floor(Math.random() * (12 - 5 + 1) + 5);
-
-  const prompt = `Generate ${count} realistic job postings that are highly relevant to this candidate profile.
-  Candidate Summary: ${resumeSummary}
-  Candidate Skills: ${skills.join(', ')}
+export const streamMarketInsights = async function* (query: string, options: AiCallOptions = {}): AsyncGenerator<AiStreamChunk> {
+  try {
+    yield* streamText(featureRequest('getMarketInsights', { query }), { timeoutMs: 45000, ...options });
+  } catch (error) {
+    await handleGeminiError(error);
+  }
+};
 
-  Task:
-  1. Infer the candidate's industry and seniority level.
-  2. Create ${count} diverse job opportunities.
-  3. Ensure the job titles and requirements are realistic.
-  4. Include a mix of "Best Match" and "Stretch" roles.
-  
-  Return valid JSON.`;
+export const generateTailoredJobs = async (resumeSummary: string, skills: string[], options: AiCallOptions = {}): Promise<Job[]> => {
+  const count = Math.floor(Math.random() * (12 - 5 + 1) + 5);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              title: { type: Type.STRING },
-              company: { type: Type.STRING },
-              location: { type: Type.STRING },
-              salary: { type: Type.STRING },
-              type: { type: Type.STRING },
-              description: { type: Type.STRING },
-              requirements: { type: Type.ARRAY, items: { type: Type.STRING } },
-              postedAt: { type: Type.STRING },
-            },
-            required: ["id", "title", "company", "location", "salary", "type", "description", "requirements", "postedAt"],
-          }
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(cleanJson(text)) as Job[];
+    return await generateStructured(featureRequest('generateTailoredJobs', { count, resumeSummary, skills }), jobListSchema, { timeoutMs: 45000, ...options, empty: [] });
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const analyzeJobMatch = async (resumeSummary: string, resumeSkills: string[], jobDescription: string): Promise<JobMatchResult> => {
-  const ai = getAiClient();
-  
-  const prompt = `Role: Senior Recruiter & ATS Specialist.
-  
-  Candidate Profile:
-  Summary: ${resumeSummary}
-  Skills: ${resumeSkills.join(', ')}
-  
-  Job Description:
-  ${jobDescription}
-  
-  Evaluate fit. Provide JSON response.`;
+// Roles and education from the parsed resume; empty for resumes analyzed before parsing existed
+const resumeBackground = (parsed?: ParsedResume) => {
+  const range = (start: string, end: string) => start || end ? ` (${start || '?'} – ${end || 'Present'})` : '';
+  return [
+    ...(parsed?.experience ?? []).flatMap(role => [
+      `Role: ${[role.title, role.company].filter(Boolean).join(' at ')}${range(role.startDate, role.endDate)}`,
+      ...role.bullets.filter(bullet => bullet.trim()).map(bullet => `  - ${bullet}`)
+    ]),
+    ...(parsed?.education ?? []).map(school =>
+      `Education: ${[[school.degree, school.field].filter(Boolean).join(', '), school.institution].filter(Boolean).join(' at ')}${range(school.startDate, school.endDate)}`)
+  ].join('\n');
+};
+
+export const analyzeJobMatch = async (resumeSummary: string, resumeSkills: string[], jobDescription: string, parsed?: ParsedResume, options: AiCallOptions = {}): Promise<JobMatchResult> => {
+  const promptVersion = promptRef('jobMatch');
+  const match = (description: string) => generateStructured(
+    featureRequest('analyzeJobMatch', { resumeSummary, resumeSkills, background: resumeBackground(parsed), jobDescription: description }),
+    jobMatchSchema,
+    options
+  );
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            matchScore: { type: Type.NUMBER },
-            summary: { type: Type.STRING },
-            missingKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-            pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-            cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          required: ["matchScore", "summary", "missingKeywords", "pros", "cons"]
-        }
-      }
-    });
+    const result = await match(jobDescription);
+
+    // Job descriptions are written by whoever posted the job, so they're scanned too
+    const scan = scanForInjection(jobDescription);
+    if (scan.reasons.length === 0) {
+      return { ...result, promptVersion };
+    }
+
+    const checked = await match(stripInjection(jobDescription));
+    const lower = checked.matchScore < result.matchScore ? checked : result;
+    return { ...lower, promptVersion, injectionWarning: buildWarning('job', scan, result.matchScore, checked.matchScore) };
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
 
-    const text = response.text;
-    if (!text) throw new Error("No response");
-    return JSON.parse(cleanJson(text)) as JobMatchResult;
+// Each role's bullets are numbered so the tailored ones can point back at the originals
+const numberedResume = (draft: ResumeDraft) => [
+  `Summary: ${draft.summary.trim() || '(none)'}`,
+  `Skills: ${draft.skills.filter(skill => skill.trim()).join(', ')}`,
+  ...draft.content.experience.flatMap((role, i) => [
+    `Role ${i + 1}: ${[role.title, role.company].filter(Boolean).join(' at ')}`,
+    ...role.bullets.map((bullet, j) => `  ${j}. ${bullet}`)
+  ]),
+  ...draft.content.projects.map(project => `Project: ${project.name}: ${project.description}`),
+  ...draft.content.certifications.map(cert => `Certification: ${cert.name}`)
+].join('\n');
+
+export const tailorResume = async (draft: ResumeDraft, job: Job, missingKeywords: string[], options: AiCallOptions = {}): Promise<ResumeTailoring> => {
+  try {
+    const tailoring = await generateStructured(featureRequest('tailorResume', {
+      resume: numberedResume(draft),
+      jobTitle: job.title,
+      jobDescription: job.description,
+      missingKeywords
+    }), resumeTailoringSchema, options);
+    return { ...tailoring, promptVersion: promptRef('resumeTailoring') };
   } catch (error) {
     return handleGeminiError(error);
   }
 };
 
-export const generateCoverLetter = async (resumeSummary: string, jobDescription: string): Promise<string> => {
-  const ai = getAiClient();
-  
-  const prompt = `Write a professional, persuasive cover letter.
-  
-  Candidate Summary: ${resumeSummary}
-  Job Description: ${jobDescription}
-  
-  Tone: Professional, confident.
-  Return ONLY the cover letter text, no markdown.`;
+// Shared by the streaming and non-streaming cover letter calls
+const coverLetterRequest = (resumeSummary: string, jobDescription: string, parsed?: ParsedResume): AiRequest =>
+  featureRequest('generateCoverLetter', { resumeSummary, background: resumeBackground(parsed), jobDescription });
 
+export const generateCoverLetter = async (resumeSummary: string, jobDescription: string, parsed?: ParsedResume, options: AiCallOptions = {}): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }]
-    });
+    const response = await generate(coverLetterRequest(resumeSummary, jobDescription, parsed), options);
     return response.text || "Failed to generate cover letter.";
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const suggestSkills = async (currentSkills: string[], roleContext: string): Promise<SkillSuggestion[]> => {
-  const ai = getAiClient();
-  
-  const prompt = `Based on the following candidate profile and skills, suggest 6 high-value skills they should learn.
-  
-  Role/Context: ${roleContext}
-  Current Skills: ${currentSkills.join(', ')}
-  `;
-
+export const streamCoverLetter = async function* (resumeSummary: string, jobDescription: string, parsed?: ParsedResume, options: AiCallOptions = {}): AsyncGenerator<AiStreamChunk> {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              skill: { type: Type.STRING },
-              reason: { type: Type.STRING },
-              difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
-              category: { type: Type.STRING, enum: ["Technical", "Soft Skill", "Tool"] },
-              searchQuery: { type: Type.STRING }
-            },
-            required: ["skill", "reason", "difficulty", "category", "searchQuery"]
-          }
-        }
-      }
-    });
+    yield* streamText(coverLetterRequest(resumeSummary, jobDescription, parsed), options);
+  } catch (error) {
+    await handleGeminiError(error);
+  }
+};
 
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(cleanJson(text)) as SkillSuggestion[];
+export const suggestSkills = async (currentSkills: string[], roleContext: string, options: AiCallOptions = {}): Promise<SkillSuggestion[]> => {
+  try {
+    return await generateStructured(featureRequest('suggestSkills', { roleContext, currentSkills }), skillSuggestionListSchema, { ...options, empty: [] });
   } catch (error) {
     return handleGeminiError(error) as any;
   }
 };
 
-export const sendChatMessage = async (history: ChatMessage[], newMessage: string, currentContext: string): Promise<string> => {
-  const ai = getAiClient();
-  
-  const systemInstruction = `You are CarrerBot, the intelligent assistant for the CarrerX platform. 
-  Your goal is to help users navigate the website and explain its features.
-  
-  WEBSITE KNOWLEDGE BASE:
-  1. Dashboard: Overview of score and actions.
-  2. Resume Analyzer: Upload PDF for scoring.
-  3. Interview Prep: Voice-based mock interview.
-  4. Job Matches: Tailored jobs.
-  
-  CURRENT CONTEXT: "${currentContext}" page.
-  `;
+const chatRequest = (history: ChatMessage[], message: string, context: string) =>
+  featureRequest('sendChatMessage', { history: history.map(({ role, text }) => ({ role, text })), message, context });
 
+export const sendChatMessage = async (history: ChatMessage[], newMessage: string, currentContext: string, options: AiCallOptions = {}): Promise<string> => {
   try {
-    // 1. Clean history to ensure it complies with Gemini API rules (must start with 'user' role)
-    // Filter out empty messages
-    const validHistory = history.filter(msg => msg.text.trim() !== "").map(msg => ({
-      role: msg.role,
-      parts: [{ text: msg.text }]
-    }));
-
-    // 2. Find the index of the first user message
-    const firstUserIndex = validHistory.findIndex(m => m.role === 'user');
-    let apiHistory = [];
-
-    // 3. Slice the history to start from the first user message
-    if (firstUserIndex !== -1) {
-      apiHistory = validHistory.slice(firstUserIndex);
-    }
-
-    const chat = ai.chats.create({
-      model: 'gemini-2.5-flash',
-      history: apiHistory,
-      config: { systemInstruction }
-    });
-
-    const response = await chat.sendMessage([{ text: newMessage }]);
+    const response = await generate(chatRequest(history, newMessage, currentContext), options);
     return response.text || "I'm sorry, I didn't catch that.";
   } catch (error) {
+    if (toAiError(error).kind === 'cancelled') throw error;
     console.error("Chat error", error);
     return "I'm having trouble connecting right now. Please try again.";
   }
 };
 
-export const generateInterviewResponse = async (audioBase64: string, mimeType: string, resumeContext: string, history: {role: string, text: string}[]): Promise<string> => {
-  const ai = getAiClient();
-  
-  const systemInstruction = `You are an experienced hiring manager conducting a job interview.
-    Context from resume: ${resumeContext}
-    
-    Goal: Assess their fit for a Senior role.
-    Keep your responses concise and conversational (spoken word style). Do not be too verbose.
-    If the candidate struggles, offer a small hint. Be professional but encouraging.
-  `;
-  
+export const streamChatMessage = async function* (history: ChatMessage[], newMessage: string, currentContext: string, options: AiCallOptions = {}): AsyncGenerator<AiStreamChunk> {
+  try {
+    yield* streamText(chatRequest(history, newMessage, currentContext), options);
+  } catch (error) {
+    await handleGeminiError(error);
+  }
+};
+
+export const generateInterviewResponse = async (audioBase64: string, mimeType: string, resumeContext: string, history: {role: string, text: string}[], options: AiCallOptions = {}): Promise<string> => {
   try {
-     const safeMimeType = mimeType || "audio/webm";
-
-     const response = await ai.models.generateContent({
-       model: 'gemini-2.5-flash',
-       contents: [{
-           role: 'user',
-           parts: [
-               { inlineData: { data: audioBase64, mimeType: safeMimeType } },
-               { text: "Please respond to the candidate's answer naturally." }
-           ]
-       }],
-       config: { systemInstruction }
-     });
+     const response = await generate(featureRequest('generateInterviewResponse', {
+       audio: { data: audioBase64, mimeType: mimeType || "audio/webm" },
+       resumeContext
+     }), options);
      
      return response.text || "";
   } catch (e) {
      console.error("Interview Error", e);
-     throw e;
+     throw toAiError(e);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+-- Employer-posted jobs. The job itself is JSON in `data` (see services/data/supabaseBackend.ts);
+-- ownership and status are columns so row-level security can use them.
+
+-- Organizations let several employers manage the same jobs. Membership is managed by
+-- admins (dashboard or service role); clients can only read their own organizations.
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.organization_members (
+  org_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  primary key (org_id, user_id)
+);
+
+-- security definer so policies can call it without recursing into members' own policies
+create or replace function public.is_org_member(org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from public.organization_members where org_id = org and user_id = auth.uid());
+$$;
+
+create table if not exists public.jobs (
+  id text primary key,
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  org_id uuid references public.organizations (id) on delete set null,
+  status text not null default 'draft' check (status in ('draft', 'published', 'closed')),
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Earlier setups created jobs with a user_id column and no status; those jobs were public
+do $$
+begin
+  if exists (select 1 from information_schema.columns where table_schema = 'public' and table_name = 'jobs' and column_name = 'user_id') then
+    alter table public.jobs rename column user_id to owner_id;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_schema = 'public' and table_name = 'jobs' and column_name = 'status') then
+    alter table public.jobs add column status text not null default 'published' check (status in ('draft', 'published', 'closed'));
+    alter table public.jobs alter column status set default 'draft';
+  end if;
+end $$;
+alter table public.jobs add column if not exists org_id uuid references public.organizations (id) on delete set null;
+alter table public.jobs add column if not exists created_at timestamptz not null default now();
+
+create index if not exists jobs_owner_id_idx on public.jobs (owner_id);
+create index if not exists jobs_org_id_idx on public.jobs (org_id);
+create index if not exists jobs_status_idx on public.jobs (status);
+
+-- A job never changes hands, and updated_at is the server's clock
+create or replace function public.jobs_before_update() returns trigger
+language plpgsql as $$
+begin
+  if new.owner_id is distinct from old.owner_id then
+    raise exception 'A job''s owner cannot be changed' using errcode = '42501';
+  end if;
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists jobs_before_update on public.jobs;
+create trigger jobs_before_update before update on public.jobs
+  for each row execute function public.jobs_before_update();
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+alter table public.jobs enable row level security;
+
+drop policy if exists "Members read their organizations" on public.organizations;
+create policy "Members read their organizations" on public.organizations
+  for select to authenticated using (public.is_org_member(id));
+
+drop policy if exists "Members read their organization's members" on public.organization_members;
+create policy "Members read their organization's members" on public.organization_members
+  for select to authenticated using (public.is_org_member(org_id));
+
+-- Candidates see published jobs; drafts and closed jobs only reach their owner and organization
+drop policy if exists "Read published or own jobs" on public.jobs;
+create policy "Read published or own jobs" on public.jobs
+  for select to authenticated
+  using (status = 'published' or owner_id = auth.uid() or (org_id is not null and public.is_org_member(org_id)));
+
+drop policy if exists "Post jobs as yourself" on public.jobs;
+create policy "Post jobs as yourself" on public.jobs
+  for insert to authenticated
+  with check (owner_id = auth.uid() and (org_id is null or public.is_org_member(org_id)));
+
+drop policy if exists "Owners and their organization edit jobs" on public.jobs;
+create policy "Owners and their organization edit jobs" on public.jobs
+  for update to authenticated
+  using (owner_id = auth.uid() or (org_id is not null and public.is_org_member(org_id)))
+  with check (org_id is null or public.is_org_member(org_id));
+
+drop policy if exists "Owners delete jobs" on public.jobs;
+create policy "Owners delete jobs" on public.jobs
+  for delete to authenticated using (owner_id = auth.uid());
+
+-- Live updates (see SUPABASE_SETUP.md); adding it twice is harmless
+do $$
+begin
+  alter publication supabase_realtime add table public.jobs;
+exception when duplicate_object then null;
+end $$;
@@ -0,0 +1,118 @@
+-- Applications belong to the candidate who applied (user_id). The employer who owns the
+-- job, and members of the job's organization, may read them and move them through the
+-- pipeline; each move is recorded in application_status_history by that employer.
+
+create table if not exists public.applications (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  job_id text,
+  status text not null default 'New',
+  data jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Earlier setups kept everything in `data`
+alter table public.applications add column if not exists job_id text;
+alter table public.applications add column if not exists status text not null default 'New';
+alter table public.applications add column if not exists created_at timestamptz not null default now();
+update public.applications set job_id = data ->> 'jobId' where job_id is null;
+update public.applications set status = data ->> 'status' where data ->> 'status' is not null and status is distinct from data ->> 'status';
+
+do $$
+begin
+  alter table public.applications add constraint applications_status_check
+    check (status in ('New', 'Reviewed', 'Interview', 'Rejected', 'Shortlisted'));
+exception when duplicate_object then null;
+end $$;
+
+create index if not exists applications_user_id_idx on public.applications (user_id);
+create index if not exists applications_job_id_idx on public.applications (job_id);
+
+-- Whether the signed-in user manages the job: its owner or a member of its organization.
+-- Applications to AI-tailored jobs (not in the jobs table) have no employer.
+create or replace function public.can_manage_job(job text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.jobs
+    where id = job and (owner_id = auth.uid() or (org_id is not null and public.is_org_member(org_id)))
+  );
+$$;
+
+-- Ownership and the job never change, and only the job's employer may change the status
+create or replace function public.applications_before_update() returns trigger
+language plpgsql as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'An application''s owner cannot be changed' using errcode = '42501';
+  end if;
+  if new.job_id is distinct from old.job_id then
+    raise exception 'An application cannot be moved to another job' using errcode = '42501';
+  end if;
+  if new.status is distinct from old.status and not public.can_manage_job(old.job_id) then
+    raise exception 'Only the job''s employer can change an application''s status' using errcode = '42501';
+  end if;
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists applications_before_update on public.applications;
+create trigger applications_before_update before update on public.applications
+  for each row execute function public.applications_before_update();
+
+alter table public.applications enable row level security;
+
+drop policy if exists "Candidates and employers read applications" on public.applications;
+create policy "Candidates and employers read applications" on public.applications
+  for select to authenticated
+  using (user_id = auth.uid() or public.can_manage_job(job_id));
+
+drop policy if exists "Candidates apply as themselves" on public.applications;
+create policy "Candidates apply as themselves" on public.applications
+  for insert to authenticated
+  with check (user_id = auth.uid() and status = 'New');
+
+drop policy if exists "Candidates and employers update applications" on public.applications;
+create policy "Candidates and employers update applications" on public.applications
+  for update to authenticated
+  using (user_id = auth.uid() or public.can_manage_job(job_id));
+
+drop policy if exists "Candidates withdraw applications" on public.applications;
+create policy "Candidates withdraw applications" on public.applications
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Append-only: rows are never updated or deleted by clients
+create table if not exists public.application_status_history (
+  id text primary key,
+  application_id text not null references public.applications (id) on delete cascade,
+  changed_by uuid not null default auth.uid() references auth.users (id),
+  status text not null check (status in ('New', 'Reviewed', 'Interview', 'Rejected', 'Shortlisted')),
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists application_status_history_application_id_idx on public.application_status_history (application_id);
+
+alter table public.application_status_history enable row level security;
+
+drop policy if exists "Candidates and employers read status history" on public.application_status_history;
+create policy "Candidates and employers read status history" on public.application_status_history
+  for select to authenticated
+  using (exists (
+    select 1 from public.applications a
+    where a.id = application_id and (a.user_id = auth.uid() or public.can_manage_job(a.job_id))
+  ));
+
+drop policy if exists "Employers record status changes" on public.application_status_history;
+create policy "Employers record status changes" on public.application_status_history
+  for insert to authenticated
+  with check (changed_by = auth.uid() and exists (
+    select 1 from public.applications a
+    where a.id = application_id and public.can_manage_job(a.job_id)
+  ));
+
+do $$
+begin
+  alter publication supabase_realtime add table public.applications;
+exception when duplicate_object then null;
+end $$;
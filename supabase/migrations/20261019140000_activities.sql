@@ -0,0 +1,29 @@
+-- Each user's activity log: what they did in the app (analyzed a resume, applied to a job,
+-- moved an applicant along), with the ids it concerns in `data.metadata`. Private to the
+-- user and append-only; rows are only ever deleted along with the account.
+
+create table if not exists public.activities (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  kind text not null check (kind in (
+    'resume_analyzed', 'resume_loaded', 'jobs_generated', 'job_analyzed', 'job_applied',
+    'job_posted', 'job_drafted', 'job_updated', 'application_status_changed',
+    'cover_letter_generated', 'skills_suggested'
+  )),
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+-- Pages are read newest first, optionally filtered by kind
+create index if not exists activities_user_id_created_at_idx on public.activities (user_id, created_at desc);
+create index if not exists activities_user_id_kind_idx on public.activities (user_id, kind);
+
+alter table public.activities enable row level security;
+
+drop policy if exists "Users read their activity" on public.activities;
+create policy "Users read their activity" on public.activities
+  for select to authenticated using (user_id = auth.uid());
+
+drop policy if exists "Users record their activity" on public.activities;
+create policy "Users record their activity" on public.activities
+  for insert to authenticated with check (user_id = auth.uid());
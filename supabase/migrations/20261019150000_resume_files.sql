@@ -0,0 +1,34 @@
+-- Uploaded resume files, kept out of the JSON rows that refer to them. Objects are named
+-- "<owner id>/<sha-256 of the content>" (see services/data/supabaseBackend.ts), so each
+-- file is stored once per candidate. The bucket is private; downloads use signed URLs.
+
+insert into storage.buckets (id, name, public)
+values ('resumes', 'resumes', false)
+on conflict (id) do update set public = false;
+
+drop policy if exists "Candidates upload their resume files" on storage.objects;
+create policy "Candidates upload their resume files" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'resumes' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Owners read their files; employers read the file attached to an application for a job
+-- they manage
+drop policy if exists "Candidates and employers read resume files" on storage.objects;
+create policy "Candidates and employers read resume files" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'resumes' and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or exists (
+        select 1 from public.applications a
+        where a.user_id::text = (storage.foldername(name))[1]
+          and a.data -> 'resumeFile' ->> 'id' = name
+          and public.can_manage_job(a.job_id)
+      )
+    )
+  );
+
+drop policy if exists "Candidates delete their resume files" on storage.objects;
+create policy "Candidates delete their resume files" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'resumes' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,56 @@
+-- Lets users delete their account (Settings -> Your Data). Their resumes and activity go
+-- with it; applications they sent stay with the employer, anonymized and without an
+-- owner, so pipelines and status history keep adding up. The app removes the user's
+-- storage objects and rows itself before calling delete_account().
+
+alter table public.applications alter column user_id drop not null;
+alter table public.applications drop constraint if exists applications_user_id_fkey;
+alter table public.applications add constraint applications_user_id_fkey
+  foreign key (user_id) references auth.users (id) on delete set null;
+
+alter table public.application_status_history alter column changed_by drop not null;
+alter table public.application_status_history drop constraint if exists application_status_history_changed_by_fkey;
+alter table public.application_status_history add constraint application_status_history_changed_by_fkey
+  foreign key (changed_by) references auth.users (id) on delete set null;
+
+-- As before, except that the owner is cleared when their account is deleted
+create or replace function public.applications_before_update() returns trigger
+language plpgsql as $$
+begin
+  if new.user_id is distinct from old.user_id
+     and not (new.user_id is null and not exists (select 1 from auth.users where id = old.user_id)) then
+    raise exception 'An application''s owner cannot be changed' using errcode = '42501';
+  end if;
+  if new.job_id is distinct from old.job_id then
+    raise exception 'An application cannot be moved to another job' using errcode = '42501';
+  end if;
+  if new.status is distinct from old.status and not public.can_manage_job(old.job_id) then
+    raise exception 'Only the job''s employer can change an application''s status' using errcode = '42501';
+  end if;
+  new.updated_at := now();
+  return new;
+end $$;
+
+-- Deletes the signed-in user. Repeats the app's clean-up in case some of it never synced.
+create or replace function public.delete_account() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  update public.applications
+  set data = (data - 'candidatePhone' - 'candidateAddress' - 'resumeFile' - 'injectionWarning')
+    || jsonb_build_object('candidateName', 'Deleted candidate', 'candidateEmail', '', 'candidateDeleted', true)
+  where user_id = uid;
+
+  delete from public.resumes where user_id = uid;
+  delete from public.activities where user_id = uid;
+  delete from public.jobs where owner_id = uid;
+  delete from auth.users where id = uid;
+end $$;
+
+revoke all on function public.delete_account() from public, anon;
+grant execute on function public.delete_account() to authenticated;
@@ -0,0 +1,9 @@
+-- Tailored resumes are logged as `resume_tailored`. The kinds here mirror ACTIVITY_KIND_LIST
+-- in types.ts; adding a kind there needs a migration like this one.
+
+alter table public.activities drop constraint if exists activities_kind_check;
+alter table public.activities add constraint activities_kind_check check (kind in (
+  'resume_analyzed', 'resume_loaded', 'resume_tailored', 'jobs_generated', 'job_analyzed', 'job_applied',
+  'job_posted', 'job_drafted', 'job_updated', 'application_status_changed',
+  'cover_letter_generated', 'skills_suggested'
+));
@@ -0,0 +1,32 @@
+-- Each candidate's analyzed resumes, one row per version. The analysis is JSON in `data`,
+-- along with the version's label, pin, builder draft and tailored job (see
+-- services/data/supabaseBackend.ts). Private to the candidate: applications carry their
+-- own copy of the resume file reference, so employers never read this table.
+
+create table if not exists public.resumes (
+  id text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  data jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists resumes_user_id_created_at_idx on public.resumes (user_id, created_at desc);
+
+alter table public.resumes enable row level security;
+
+drop policy if exists "Candidates read their resumes" on public.resumes;
+create policy "Candidates read their resumes" on public.resumes
+  for select to authenticated using (user_id = auth.uid());
+
+drop policy if exists "Candidates add resumes" on public.resumes;
+create policy "Candidates add resumes" on public.resumes
+  for insert to authenticated with check (user_id = auth.uid());
+
+-- Labels, the pin, reviewed details and builder drafts are saved in place
+drop policy if exists "Candidates update their resumes" on public.resumes;
+create policy "Candidates update their resumes" on public.resumes
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "Candidates delete their resumes" on public.resumes;
+create policy "Candidates delete their resumes" on public.resumes
+  for delete to authenticated using (user_id = auth.uid());
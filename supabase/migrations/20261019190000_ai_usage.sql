@@ -0,0 +1,86 @@
+-- AI usage: one row per call that reached the model, written by the AI API (api/ai/[feature].ts)
+-- with the service role key. Clients can only read it, so they can neither hide usage nor raise
+-- their own quota. Rows are deleted along with the account.
+
+create table if not exists public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  feature text not null,
+  provider text not null,
+  model text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  latency_ms integer not null default 0,
+  cost_usd numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_user_id_created_at_idx on public.ai_usage (user_id, created_at desc);
+
+-- The monthly limit applied to every user; a null column means unlimited. There is a single
+-- row, edited in the SQL Editor or with the service role key.
+create table if not exists public.ai_quota (
+  id boolean primary key default true check (id),
+  monthly_tokens bigint check (monthly_tokens > 0),
+  monthly_requests integer check (monthly_requests > 0)
+);
+
+insert into public.ai_quota (id) values (true) on conflict (id) do nothing;
+
+alter table public.ai_usage enable row level security;
+alter table public.ai_quota enable row level security;
+
+drop policy if exists "Users read their AI usage" on public.ai_usage;
+create policy "Users read their AI usage" on public.ai_usage
+  for select to authenticated using (user_id = auth.uid());
+
+-- Lets the employer dashboard total usage across an organization
+drop policy if exists "Members read their organization's AI usage" on public.ai_usage;
+create policy "Members read their organization's AI usage" on public.ai_usage
+  for select to authenticated
+  using (exists (
+    select 1 from public.organization_members m
+    where m.user_id = ai_usage.user_id and public.is_org_member(m.org_id)
+  ));
+
+drop policy if exists "Everyone reads the AI quota" on public.ai_quota;
+create policy "Everyone reads the AI quota" on public.ai_quota
+  for select to authenticated using (true);
+
+-- Totals per user and feature since a point in time, for the usage views. Runs as the caller,
+-- so it only sums the rows their policies allow.
+create or replace function public.ai_usage_summary(since timestamptz, target uuid default null)
+returns table (
+  user_id uuid,
+  feature text,
+  requests bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  latency_ms bigint,
+  cost_usd numeric
+)
+language sql stable set search_path = public as $$
+  select user_id, feature, count(*), sum(input_tokens), sum(output_tokens), sum(latency_ms), sum(cost_usd)
+  from public.ai_usage
+  where created_at >= since and (target is null or ai_usage.user_id = target)
+  group by user_id, feature;
+$$;
+
+revoke all on function public.ai_usage_summary(timestamptz, uuid) from public, anon;
+grant execute on function public.ai_usage_summary(timestamptz, uuid) to authenticated;
+
+-- What the API checks before each call: the user's usage this calendar month (UTC) and the quota
+create or replace function public.ai_quota_status(target uuid)
+returns table (requests bigint, tokens bigint, monthly_requests integer, monthly_tokens bigint)
+language sql stable set search_path = public as $$
+  select
+    (select count(*) from public.ai_usage u where u.user_id = target and u.created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'),
+    (select coalesce(sum(u.input_tokens + u.output_tokens), 0) from public.ai_usage u where u.user_id = target and u.created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'),
+    q.monthly_requests,
+    q.monthly_tokens
+  from (select true as id) one
+  left join public.ai_quota q on q.id = one.id;
+$$;
+
+revoke all on function public.ai_quota_status(uuid) from public, anon, authenticated;
+grant execute on function public.ai_quota_status(uuid) to service_role;
@@ -3,6 +3,8 @@ export enum AppView {
   DASHBOARD = 'DASHBOARD',
   INTERVIEW = 'INTERVIEW',
   RESUME = 'RESUME',
+  RESUME_HISTORY = 'RESUME_HISTORY',
+  RESUME_BUILDER = 'RESUME_BUILDER',
   INSIGHTS = 'INSIGHTS',
   JOBS = 'JOBS',
   COVER_LETTER = 'COVER_LETTER',
@@ -12,6 +14,7 @@ export enum AppView {
   SHORTLISTED = 'SHORTLISTED',
   MY_APPLICATIONS = 'MY_APPLICATIONS',
   CALENDAR = 'CALENDAR',
+  ACTIVITY = 'ACTIVITY',
   SETTINGS = 'SETTINGS'
 }
 
@@ -24,11 +27,24 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+// An uploaded resume. The bytes live in file storage (getRepositories().files), once per
+// owner and content; records only keep this reference.
 export interface ResumeFile {
+  id?: string; // Storage key, "<owner id>/<hash>"
+  hash?: string; // SHA-256 of the content, hex
   name: string;
   type: string;
   size: number;
-  data: string; // Base64 string
+  data?: string; // Base64; only on files saved before they were stored separately
+}
+
+// Set on AI results whose input contained instruction-like text (services/ai/injection.ts)
+export interface InjectionWarning {
+  source: 'resume' | 'job';
+  reasons: string[];
+  excerpts: string[];
+  // Score the model first returned, when the cleaned re-score came out noticeably lower
+  originalScore?: number;
 }
 
 export interface ResumeAnalysis {
@@ -39,12 +55,114 @@ export interface ResumeAnalysis {
   improvements: string[];
   skills: string[]; // Added for skills gap analysis
   file?: ResumeFile;
+  promptVersion?: string; // e.g. "resumeAnalysis@1", see services/ai/prompts.ts
+  injectionWarning?: InjectionWarning;
+  parsed?: ParsedResume; // Missing on resumes analyzed before parsing existed
+}
+
+// What the resume says, section by section, loosely following the JSON Resume schema
+// (jsonresume.org). Dates are kept as written ("Mar 2021", "2019"); an empty endDate
+// means the role or course is ongoing.
+export interface ParsedResume {
+  contact: ResumeContact;
+  experience: ResumeExperience[];
+  education: ResumeEducation[];
+  certifications: ResumeCertification[];
+  projects: ResumeProject[];
+  links: ResumeLink[];
+  promptVersion?: string; // e.g. "resumeParse@1"
+  reviewedAt?: string; // Set once the candidate has checked or edited it
+}
+
+export interface ResumeContact {
+  name: string;
+  headline: string; // e.g. "Senior Software Engineer"
+  email: string;
+  phone: string;
+  location: string;
+}
+
+export interface ResumeExperience {
+  title: string;
+  company: string;
+  location: string;
+  startDate: string;
+  endDate: string;
+  bullets: string[];
+}
+
+export interface ResumeEducation {
+  institution: string;
+  degree: string;
+  field: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ResumeCertification {
+  name: string;
+  issuer: string;
+  date: string;
+}
+
+export interface ResumeProject {
+  name: string;
+  description: string;
+  url: string;
+}
+
+export interface ResumeLink {
+  label: string; // e.g. "GitHub", "Portfolio"
+  url: string;
 }
 
 export interface SavedResume {
   id: string;
   created_at: string;
   data: ResumeAnalysis;
+  promptVersion?: string;
+  // The candidate's name for this version, e.g. "Backend v3"
+  label?: string;
+  // The default resume, sent with applications; at most one per candidate
+  pinned?: boolean;
+  // Edits made in the resume builder. Re-scoring them saves a new version.
+  draft?: ResumeDraft;
+  // Set on versions tailored to a job; they're sent with applications to that job
+  jobId?: string;
+}
+
+export type ResumeSection = 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'certifications';
+
+export type ResumeTemplate = 'classic' | 'modern' | 'compact';
+
+// A resume as written in the builder: the parsed details plus the parts the parser
+// doesn't keep, laid out with one of the templates
+export interface ResumeDraft {
+  content: ParsedResume;
+  summary: string;
+  skills: string[];
+  sectionOrder: ResumeSection[];
+  template: ResumeTemplate;
+  updatedAt: string;
+}
+
+// A bullet as tailored for a job; from is its position in the role's original bullets
+export interface TailoredBullet {
+  from: number;
+  text: string;
+}
+
+// A draft reworded and reordered for one job, as returned by the AI. Roles are in the
+// draft's order.
+export interface ResumeTailoring {
+  summary: string;
+  // The candidate's skills, most relevant to the job first
+  skills: string[];
+  experience: { bullets: TailoredBullet[] }[];
+  // Missing keywords the resume backs up and that were worked in, and those it doesn't
+  keywordsUsed: string[];
+  keywordsSkipped: string[];
+  promptVersion?: string;
 }
 
 export interface InterviewReport {
@@ -66,6 +184,9 @@ export interface InsightResult {
   sources: GroundingSource[];
 }
 
+// Employer-posted jobs only; candidates see published ones
+export type JobStatus = 'draft' | 'published' | 'closed';
+
 export interface Job {
   id: string;
   title: string;
@@ -76,10 +197,17 @@ export interface Job {
   description: string;
   requirements: string[];
   postedAt: string;
+  privacyRequired?: boolean; // Employer requires PII redaction for AI features on this job
+  status?: JobStatus; // Missing on AI-tailored jobs and on jobs posted before statuses existed (treated as published)
+  ownerId?: string; // Employer who posted it
+  orgId?: string; // Organization whose members may also edit it
+  version?: number; // Bumped on every saved edit, see nextVersion in services/data
+  updatedAt?: string;
 }
 
 export interface Application {
   id: string;
+  candidateId?: string; // Owner: the candidate who applied. Older applications only have the email.
   jobId: string;
   jobTitle: string;
   candidateName: string;
@@ -92,6 +220,22 @@ export interface Application {
   interviewDate?: Date;
   meetingLink?: string;
   resumeFile?: ResumeFile;
+  injectionWarning?: InjectionWarning; // Carried over from the resume analysis behind matchScore
+  candidateDeleted?: boolean; // The candidate deleted their account; contact details and resume were removed
+  version?: number; // Bumped on every saved edit, see nextVersion in services/data
+  updatedAt?: string;
+}
+
+// One move through the hiring pipeline, recorded by the employer who made it
+export interface ApplicationStatusChange {
+  id: string;
+  applicationId: string;
+  status: Application['status'];
+  previousStatus?: Application['status'];
+  changedBy: string;
+  changedByName?: string;
+  changedAt: Date;
+  interviewDate?: Date;
 }
 
 export interface JobMatchResult {
@@ -100,14 +244,50 @@ export interface JobMatchResult {
   missingKeywords: string[];
   pros: string[];
   cons: string[];
+  promptVersion?: string;
+  injectionWarning?: InjectionWarning;
+}
+
+// What happened; lib/activity.ts has the title and category of each kind. The activities
+// table only accepts these (its kind check constraint, see supabase/migrations), so a new
+// kind needs a migration too.
+export const ACTIVITY_KIND_LIST = [
+  'resume_analyzed',
+  'resume_loaded',
+  'resume_tailored',
+  'jobs_generated',
+  'job_analyzed',
+  'job_applied',
+  'job_posted',
+  'job_drafted',
+  'job_updated',
+  'application_status_changed',
+  'cover_letter_generated',
+  'skills_suggested'
+] as const;
+
+export type ActivityKind = typeof ACTIVITY_KIND_LIST[number];
+
+export type ActivityCategory = 'interview' | 'resume' | 'job_match' | 'cover_letter' | 'skills' | 'recruitment';
+
+// The records an activity is about, for linking back to them
+export interface ActivityMetadata {
+  resumeId?: string;
+  jobId?: string;
+  applicationId?: string;
+  score?: number;
+  count?: number;
+  status?: Application['status'] | JobStatus;
 }
 
 export interface ActivityLog {
   id: string;
-  type: 'interview' | 'resume' | 'job_match' | 'cover_letter' | 'skills' | 'recruitment';
+  kind: ActivityKind;
   title: string;
   timestamp: Date;
+  // One line for people, e.g. "Scored 82/100"
   meta: string;
+  metadata: ActivityMetadata;
 }
 
 export interface SkillSuggestion {
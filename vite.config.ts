@@ -7,8 +7,10 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, (process as any).cwd(), '');
 
-  // Log warning if API key is missing during build (helpful for Vercel logs)
-  if (!env.API_KEY) {
+  // By default AI calls go through the /api proxy, which holds the key server-side.
+  // Only the direct 'gemini' provider needs the key in the browser bundle.
+  const aiProvider = env.AI_PROVIDER || 'api';
+  if (aiProvider === 'gemini' && !env.API_KEY) {
     console.warn("⚠️  WARNING: API_KEY is not defined in the environment variables. AI features will likely fail in production.");
   }
 
@@ -16,9 +18,18 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       // Polyfill process.env for the app usage
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.API_KEY': JSON.stringify(aiProvider === 'gemini' ? env.API_KEY : undefined),
+      'process.env.AI_PROVIDER': JSON.stringify(aiProvider),
+      'process.env.AI_API_URL': JSON.stringify(env.AI_API_URL || ''),
+      'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND || 'local'),
       'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
       'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
     },
+    server: {
+      // `npm run dev:api` serves the /api functions locally
+      proxy: {
+        '/api': `http://localhost:${env.API_PORT || 3001}`,
+      },
+    },
   };
-});
\ No newline at end of file
+});